@@ -7,15 +7,27 @@
 
 import React, { useEffect } from 'react';
 import dynamic from 'next/dynamic';
-import { Truck, Plus, History, Activity } from 'lucide-react';
+import { Truck, Plus, History, Activity, Route, DoorClosed, Shuffle, RefreshCw, LineChart, Timer, TrafficCone, Layers } from 'lucide-react';
 import { useSimulation } from '@/hooks/useSimulation';
+import { useDemandGenerator } from '@/hooks/useDemandGenerator';
 import ParcelCreationForm from '@/components/forms/ParcelCreationForm';
 import SimulationControls from '@/components/simulation/SimulationControls';
+import TimelineScrubber from '@/components/simulation/TimelineScrubber';
 import IncidentPanel from '@/components/simulation/IncidentPanel';
 import ParcelsList from '@/components/simulation/ParcelsList';
+import VehiclePanel from '@/components/simulation/VehiclePanel';
+import DeliveryPolicyPanel from '@/components/simulation/DeliveryPolicyPanel';
+import RecalculationPolicyPanel from '@/components/simulation/RecalculationPolicyPanel';
+import KpiAnalyticsPanel from '@/components/simulation/KpiAnalyticsPanel';
+import ServiceLevelPanel from '@/components/simulation/ServiceLevelPanel';
+import TrafficProfilePanel from '@/components/simulation/TrafficProfilePanel';
+import DemandGeneratorPanel from '@/components/simulation/DemandGeneratorPanel';
+import GeoDataPanel from '@/components/simulation/GeoDataPanel';
 import PetriNetViewer from '@/components/petri/PetriNetViewer';
 import ApiInspector from '@/components/debug/ApiInspector';
 import { SimulationEngine } from '@/lib/simulation-engine';
+import { clockDate } from '@/lib/simulation-clock';
+import { ParcelControl } from '@/lib/parcel-controls';
 import { Toaster } from 'react-hot-toast';
 
 // Dynamically import map to avoid SSR issues
@@ -36,7 +48,12 @@ const INITIAL_CENTER: [number, number] = [4.05, 9.70]; // Douala (where most hub
 const INITIAL_ZOOM = 13;
 
 export default function Dashboard() {
-  const { state, actions } = useSimulation();
+  const { state, isReplaying, actions } = useSimulation();
+  const demand = useDemandGenerator(
+    state.hubs,
+    state.clock.currentTime,
+    (parcel, route, vehicleType) => actions.addParcel(parcel, route, null, vehicleType)
+  );
 
   // Load hubs on mount
   useEffect(() => {
@@ -44,7 +61,19 @@ export default function Dashboard() {
   }, [actions]);
 
   // Calculate simulation stats
-  const stats = SimulationEngine.getSimulationStats(state.parcels);
+  const stats = SimulationEngine.getSimulationStats(state.parcels, state.vehicles);
+
+  // Operator actions from the parcel list and the map popups
+  const handleParcelControl = (control: ParcelControl, parcelId: string) => {
+    switch (control) {
+      case 'START': return actions.startParcel(parcelId);
+      case 'RETRY_ROUTING': return actions.retryRouting(parcelId);
+      case 'HOLD': return actions.holdParcel(parcelId);
+      case 'RESUME': return actions.resumeParcel(parcelId);
+      case 'CANCEL': return actions.cancelParcel(parcelId);
+      case 'REMOVE': return actions.removeParcel(parcelId);
+    }
+  };
 
   return (
     <>
@@ -81,12 +110,97 @@ export default function Dashboard() {
               </h2>
               <ParcelCreationForm
                 hubs={state.hubs}
-                onParcelCreated={(parcel, route) => {
-                  actions.addParcel(parcel, route ?? null);
+                serviceLevels={state.serviceLevels}
+                onParcelCreated={(parcel, route, assignment, serviceLevel) => {
+                  actions.addParcelToTour(parcel, route ?? null, assignment, serviceLevel);
                 }}
               />
             </section>
 
+            {/* Section: Demand generator */}
+            <section>
+              <h2 className="text-xs font-bold text-gray-500 uppercase tracking-widest mb-3 flex items-center gap-2">
+                <Shuffle className="w-3 h-3" />
+                Demande simulée
+              </h2>
+              <DemandGeneratorPanel
+                hubs={state.hubs}
+                model={demand.model}
+                routing={demand.routing}
+                isRunning={demand.isRunning}
+                generatedCount={demand.generatedCount}
+                getHubRate={demand.actions.getHubRate}
+                onHubRateChange={demand.actions.setHubRate}
+                onModelChange={demand.actions.setModel}
+                onRoutingChange={demand.actions.setRouting}
+                onStart={demand.actions.start}
+                onStop={demand.actions.stop}
+              />
+            </section>
+
+            {/* Section: Tours */}
+            <section>
+              <h2 className="text-xs font-bold text-gray-500 uppercase tracking-widest mb-3 flex items-center gap-2">
+                <Route className="w-3 h-3" />
+                Tournées ({state.vehicles.size})
+              </h2>
+              <VehiclePanel
+                vehicles={state.vehicles}
+                parcels={state.parcels}
+                hubs={state.hubs}
+                onDispatch={actions.dispatchVehicle}
+              />
+            </section>
+
+            {/* Section: Time-of-day traffic */}
+            <section>
+              <h2 className="text-xs font-bold text-gray-500 uppercase tracking-widest mb-3 flex items-center gap-2">
+                <TrafficCone className="w-3 h-3" />
+                Trafic horaire
+              </h2>
+              <TrafficProfilePanel
+                profile={state.trafficProfile}
+                currentTime={state.clock.currentTime}
+                onProfileChange={actions.setTrafficProfile}
+              />
+            </section>
+
+            {/* Section: Service levels */}
+            <section>
+              <h2 className="text-xs font-bold text-gray-500 uppercase tracking-widest mb-3 flex items-center gap-2">
+                <Timer className="w-3 h-3" />
+                Délais de livraison
+              </h2>
+              <ServiceLevelPanel
+                durations={state.serviceLevels}
+                onDurationsChange={actions.setServiceLevels}
+              />
+            </section>
+
+            {/* Section: Delivery failures */}
+            <section>
+              <h2 className="text-xs font-bold text-gray-500 uppercase tracking-widest mb-3 flex items-center gap-2">
+                <DoorClosed className="w-3 h-3" />
+                Échecs de livraison
+              </h2>
+              <DeliveryPolicyPanel
+                policy={state.deliveryPolicy}
+                onPolicyChange={actions.setDeliveryPolicy}
+              />
+            </section>
+
+            {/* Section: Recalculation failures */}
+            <section>
+              <h2 className="text-xs font-bold text-gray-500 uppercase tracking-widest mb-3 flex items-center gap-2">
+                <RefreshCw className="w-3 h-3" />
+                Échecs de recalcul
+              </h2>
+              <RecalculationPolicyPanel
+                policy={state.recalculationPolicy}
+                onPolicyChange={actions.setRecalculationPolicy}
+              />
+            </section>
+
             {/* Section: Simulation Controls */}
             <section>
               <h2 className="text-xs font-bold text-gray-500 uppercase tracking-widest mb-3 flex items-center gap-2">
@@ -95,26 +209,69 @@ export default function Dashboard() {
               </h2>
               <SimulationControls
                 isPlaying={state.isPlaying}
-                speed={state.speed}
+                speed={state.clock.speedMultiplier}
+                simulatedTime={clockDate(state.clock)}
                 stats={stats}
+                nextEvent={state.isPlaying ? null : state.nextEvent}
                 onPlay={actions.play}
                 onPause={actions.pause}
+                onStep={actions.step}
+                onJumpToNextEvent={actions.jumpToNextEvent}
                 onSpeedChange={actions.setSpeed}
               />
+              <div className="mt-3">
+                <TimelineScrubber
+                  originTime={state.journalOrigin.currentTime}
+                  horizonTime={state.horizonTime}
+                  currentTime={state.clock.currentTime}
+                  tickMs={state.clock.tickMs}
+                  journal={state.journalMarkers}
+                  isReplaying={isReplaying}
+                  onSeek={actions.seek}
+                  onRewind={actions.rewind}
+                />
+              </div>
+            </section>
+
+            {/* Section: Analytics */}
+            <section>
+              <h2 className="text-xs font-bold text-gray-500 uppercase tracking-widest mb-3 flex items-center gap-2">
+                <LineChart className="w-3 h-3" />
+                Indicateurs ({state.kpiSeries.length} échantillons)
+              </h2>
+              <KpiAnalyticsPanel series={state.kpiSeries} />
             </section>
 
             {/* Section: Incidents */}
             <section>
               <IncidentPanel
                 incidents={state.incidents}
+                currentTime={state.clock.currentTime}
                 incidentPlacementMode={state.incidentPlacementMode}
                 selectedIncidentType={state.selectedIncidentType}
+                selectedIncidentShape={state.selectedIncidentShape}
+                incidentSchedule={state.incidentSchedule}
+                onIncidentShapeChange={actions.setIncidentShape}
+                onIncidentScheduleChange={actions.setIncidentSchedule}
                 onActivateIncidentMode={actions.toggleIncidentMode}
                 onCancelIncidentMode={() => actions.toggleIncidentMode(null)}
                 onResolveIncident={actions.resolveIncident}
               />
             </section>
 
+            {/* Section: GIS exchange */}
+            <section>
+              <h2 className="text-xs font-bold text-gray-500 uppercase tracking-widest mb-3 flex items-center gap-2">
+                <Layers className="w-3 h-3" />
+                Données SIG (GeoJSON)
+              </h2>
+              <GeoDataPanel
+                source={state}
+                currentTime={state.clock.currentTime}
+                onImport={actions.importGeoData}
+              />
+            </section>
+
             {/* Section: Active Parcels */}
             <section>
               <h2 className="text-xs font-bold text-gray-500 uppercase tracking-widest mb-3 flex items-center gap-2">
@@ -123,8 +280,10 @@ export default function Dashboard() {
               </h2>
               <ParcelsList
                 parcels={state.parcels}
+                vehicles={state.vehicles}
                 selectedParcelId={state.selectedParcelId}
                 onParcelClick={actions.selectParcel}
+                onParcelControl={handleParcelControl}
               />
             </section>
 
@@ -145,12 +304,16 @@ export default function Dashboard() {
               center={INITIAL_CENTER}
               zoom={INITIAL_ZOOM}
               parcels={state.parcels}
+              vehicles={state.vehicles}
               incidents={state.incidents}
+              currentTime={state.clock.currentTime}
               hubs={state.hubs}
               selectedParcelId={state.selectedParcelId}
               incidentPlacementMode={state.incidentPlacementMode}
               selectedIncidentType={state.selectedIncidentType}
+              selectedIncidentShape={state.selectedIncidentShape}
               onParcelClick={actions.selectParcel}
+              onParcelControl={handleParcelControl}
               onIncidentPlace={actions.createIncident}
               onIncidentClick={(id) => {
                 console.log('Incident clicked:', id);
@@ -201,6 +364,10 @@ export default function Dashboard() {
                   <div className="w-3 h-3 rounded-full bg-primary" />
                   <span>Itinéraire</span>
                 </div>
+                <div className="flex items-center gap-2">
+                  <div className="w-3 h-3 rounded-sm bg-[#1976D2]" />
+                  <span>Véhicule en tournée</span>
+                </div>
                 <div className="flex items-center gap-2">
                   <div className="w-3 h-3 rounded-full bg-red-600" />
                   <span>Incident</span>
@@ -0,0 +1,93 @@
+/**
+ * Headless simulation CLI
+ *
+ * Usage: npm run simulate -- <scenario.json>... [--out <dir>] [--tick <ms>] [--max <minutes>] [--lookahead <km>] [--runs <n>] [--seed <n>]
+ * Without --out, reports are printed to stdout as JSON.
+ * With --runs, each scenario is run n times with seeds --seed, --seed + 1...
+ * and the report holds the KPI distributions (Monte Carlo).
+ */
+
+import { readFile, writeFile, mkdir } from 'node:fs/promises';
+import path from 'node:path';
+import { runScenario, Scenario, HeadlessRunOptions } from '../lib/headless-runner';
+import { runExperiment } from '../lib/monte-carlo';
+
+interface CliArgs {
+  files: string[];
+  outDir?: string;
+  runs?: number;
+  baseSeed?: number;
+  options: HeadlessRunOptions;
+}
+
+function parseArgs(argv: string[]): CliArgs {
+  const args: CliArgs = { files: [], options: {} };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    switch (arg) {
+      case '--out':
+        args.outDir = argv[++i];
+        break;
+      case '--tick':
+        args.options.tickMs = Number(argv[++i]);
+        break;
+      case '--max':
+        args.options.maxDurationMin = Number(argv[++i]);
+        break;
+      case '--lookahead':
+        args.options.lookAheadKm = Number(argv[++i]);
+        break;
+      case '--runs':
+        args.runs = Number(argv[++i]);
+        break;
+      case '--seed':
+        args.baseSeed = Number(argv[++i]);
+        break;
+      default:
+        args.files.push(arg);
+    }
+  }
+
+  return args;
+}
+
+async function main() {
+  const { files, outDir, runs, baseSeed, options } = parseArgs(process.argv.slice(2));
+
+  if (files.length === 0) {
+    console.error('Usage: npm run simulate -- <scenario.json>... [--out <dir>] [--tick <ms>] [--max <minutes>] [--lookahead <km>] [--runs <n>] [--seed <n>]');
+    process.exit(1);
+  }
+
+  if (outDir) {
+    await mkdir(outDir, { recursive: true });
+  }
+
+  const reports = [];
+  for (const file of files) {
+    const scenario = JSON.parse(await readFile(file, 'utf-8')) as Scenario;
+    const report = runs
+      ? await runExperiment(scenario, { ...options, runs, baseSeed })
+      : await runScenario(scenario, options);
+
+    if (outDir) {
+      const suffix = runs ? 'experiment' : 'report';
+      const target = path.join(outDir, `${path.basename(file, '.json')}.${suffix}.json`);
+      await writeFile(target, JSON.stringify(report, null, 2));
+      const detail = 'ticks' in report ? `${report.ticks} ticks` : `${report.runCount} runs`;
+      console.error(`✅ ${scenario.name} → ${target} (${detail})`);
+    } else {
+      reports.push(report);
+    }
+  }
+
+  if (!outDir) {
+    console.log(JSON.stringify(reports.length === 1 ? reports[0] : reports, null, 2));
+  }
+}
+
+main().catch((error) => {
+  console.error('❌ Simulation failed:', error);
+  process.exit(1);
+});
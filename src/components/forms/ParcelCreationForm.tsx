@@ -11,17 +11,44 @@ import { Button } from '@/components/ui/Button';
 import { Input } from '@/components/ui/Input';
 import { Package, Loader2 } from 'lucide-react';
 import { LogisticsService, ParcelRequest, DriverResponse } from '@/lib/api-client';
-import { GeoPointResponse, RouteResponse, ParcelResponse } from '@/lib/type';
+import {
+  GeoPointResponse,
+  RouteResponse,
+  ParcelResponse,
+  ServiceLevel,
+  ServiceLevelDurations,
+  TourAssignment,
+  VehicleType,
+} from '@/lib/type';
+import { SERVICE_LEVEL_LABELS } from '@/lib/service-levels';
+import {
+  DEFAULT_VEHICLE_TYPE,
+  VEHICLE_CATALOG,
+  driverVehicleType,
+  exceedsCapacity,
+} from '@/lib/vehicle-catalog';
 import { toast } from 'react-hot-toast';
 
 interface ParcelCreationFormProps {
   hubs: GeoPointResponse[];
+  serviceLevels: ServiceLevelDurations;
   // route can be null when calculation fails — parcel still created server-side
-  onParcelCreated: (parcel: ParcelResponse, route: RouteResponse | null) => void;
+  // assignment: the parcel joins the tour of the selected driver
+  // serviceLevel: promised delivery window (null: no commitment)
+  onParcelCreated: (
+    parcel: ParcelResponse,
+    route: RouteResponse | null,
+    assignment: TourAssignment,
+    serviceLevel: ServiceLevel | null
+  ) => void;
 }
 
+const formatDuration = (minutes: number) =>
+  minutes % 60 === 0 ? `${minutes / 60} h` : `${minutes} min`;
+
 export default function ParcelCreationForm({
   hubs,
+  serviceLevels,
   onParcelCreated,
 }: ParcelCreationFormProps) {
   const [formData, setFormData] = useState({
@@ -32,9 +59,11 @@ export default function ParcelCreationForm({
     pickupHubId: '',
     deliveryHubId: '',
     driverId: '',
+    vehicleType: DEFAULT_VEHICLE_TYPE as VehicleType,
     weightKg: 5,
     notes: '',
     algorithm: 'OSRM', // Default routing strategy
+    serviceLevel: 'STANDARD' as ServiceLevel | '', // '' = sans engagement
   });
 
   const [loading, setLoading] = useState(false);
@@ -63,6 +92,19 @@ export default function ParcelCreationForm({
     setFormData(prev => ({ ...prev, [field]: value }));
   };
 
+  // A driver comes with their own vehicle
+  const handleDriverChange = (driverId: string) => {
+    const driver = drivers.find(d => d.id === driverId);
+    setFormData(prev => ({
+      ...prev,
+      driverId,
+      vehicleType: driver ? driverVehicleType(driver) : prev.vehicleType,
+    }));
+  };
+
+  const vehicle = VEHICLE_CATALOG[formData.vehicleType];
+  const overweight = exceedsCapacity(formData.weightKg, formData.vehicleType);
+
   const fillTestData = () => {
     // Find Deido Sorting Center and Bonaberi Industrial Hub
     const deidoHub = hubs.find(h => h.address?.toLowerCase().includes('deido'));
@@ -89,9 +131,11 @@ export default function ParcelCreationForm({
       pickupHubId: deidoHub.id,
       deliveryHubId: bonaberiHub.id,
       driverId: firstDriver.id,
+      vehicleType: driverVehicleType(firstDriver),
       weightKg: 5,
       notes: 'Test parcel for incident simulation',
       algorithm: 'BASIC', // Use BASIC for geometric detour testing
+      serviceLevel: 'EXPRESS',
     });
 
     toast.success('Données de test chargées');
@@ -115,6 +159,11 @@ export default function ParcelCreationForm({
       return;
     }
 
+    if (overweight) {
+      toast.error(`Colis trop lourd pour ce véhicule (${vehicle.label} : ${vehicle.capacityKg} kg max)`);
+      return;
+    }
+
     setLoading(true);
 
     try {
@@ -155,6 +204,15 @@ export default function ParcelCreationForm({
         return;
       }
 
+      const serviceLevel = formData.serviceLevel || null;
+      const assignment: TourAssignment = {
+        driverId: formData.driverId,
+        driverName: drivers.find(d => d.id === formData.driverId)?.name ?? formData.driverId,
+        vehicleType: formData.vehicleType,
+        pickupHubId: formData.pickupHubId,
+        deliveryHubId: formData.deliveryHubId,
+      };
+
       // Step 2: Calculate route
       let route: RouteResponse | null = null;
       try {
@@ -165,12 +223,12 @@ export default function ParcelCreationForm({
           driverId: formData.driverId,
           constraints: {
             algorithm: formData.algorithm,
-            vehicleType: 'TRUCK',
+            vehicleType: formData.vehicleType,
           },
         });
 
         // Step 3: Notify parent with route
-        onParcelCreated(parcel, route);
+        onParcelCreated(parcel, route, assignment, serviceLevel);
         toast.success('Colis créé et itinéraire calculé !');
       } catch (err: any) {
         // If route calculation failed due to no path (422), still add the parcel
@@ -180,13 +238,13 @@ export default function ParcelCreationForm({
         if (status === 422) {
           toast.error(backendMsg || 'Aucun itinéraire trouvé entre les hubs sélectionnés');
           // Notify parent with null route — parcel exists but has no route yet
-          onParcelCreated(parcel, null);
+          onParcelCreated(parcel, null, assignment, serviceLevel);
         } else {
           // For other errors, surface the message but avoid overly noisy console.error
           console.warn('Route calculation error:', backendMsg || status || err?.message);
           toast.error(backendMsg ? `Erreur: ${backendMsg}` : 'Erreur lors de la création du colis');
           // still notify parent with null to reflect parcel presence
-          onParcelCreated(parcel, null);
+          onParcelCreated(parcel, null, assignment, serviceLevel);
         }
       }
 
@@ -199,9 +257,11 @@ export default function ParcelCreationForm({
         pickupHubId: '',
         deliveryHubId: '',
         driverId: '',
+        vehicleType: DEFAULT_VEHICLE_TYPE,
         weightKg: 5,
         notes: '',
         algorithm: 'OSRM',
+        serviceLevel: 'STANDARD',
       });
     } catch (error: any) {
       console.error('Error creating parcel:', error);
@@ -295,7 +355,7 @@ export default function ParcelCreationForm({
           <select
             className="w-full px-3 py-2 border border-outline rounded-lg focus:outline-none focus:ring-2 focus:ring-primary text-sm"
             value={formData.driverId}
-            onChange={(e) => handleChange('driverId', e.target.value)}
+            onChange={(e) => handleDriverChange(e.target.value)}
             required
             disabled={driversLoading}
           >
@@ -304,10 +364,31 @@ export default function ParcelCreationForm({
             </option>
             {drivers.map(driver => (
               <option key={driver.id} value={driver.id}>
-                {driver.name} ({driver.status})
+                {driver.name} ({driver.status}) • {VEHICLE_CATALOG[driverVehicleType(driver)].label}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        {/* Vehicle Selection */}
+        <div className="space-y-2">
+          <label className="text-xs font-semibold text-gray-600 uppercase">
+            Véhicule
+          </label>
+          <select
+            className="w-full px-3 py-2 border border-outline rounded-lg focus:outline-none focus:ring-2 focus:ring-primary text-sm"
+            value={formData.vehicleType}
+            onChange={(e) => handleChange('vehicleType', e.target.value)}
+          >
+            {(Object.keys(VEHICLE_CATALOG) as VehicleType[]).map(type => (
+              <option key={type} value={type}>
+                {VEHICLE_CATALOG[type].label} - {VEHICLE_CATALOG[type].cruiseSpeedKmh} km/h, {VEHICLE_CATALOG[type].capacityKg} kg max
               </option>
             ))}
           </select>
+          <p className="text-[10px] text-gray-500">
+            Coût d&apos;exploitation : {vehicle.costPerKm} FCFA/km
+          </p>
         </div>
 
         {/* Routing Algorithm Selection */}
@@ -327,6 +408,25 @@ export default function ParcelCreationForm({
           </select>
         </div>
 
+        {/* Service level */}
+        <div className="space-y-2">
+          <label className="text-xs font-semibold text-gray-600 uppercase">
+            Délai de livraison
+          </label>
+          <select
+            className="w-full px-3 py-2 border border-outline rounded-lg focus:outline-none focus:ring-2 focus:ring-primary text-sm"
+            value={formData.serviceLevel}
+            onChange={(e) => handleChange('serviceLevel', e.target.value)}
+          >
+            {(Object.keys(SERVICE_LEVEL_LABELS) as ServiceLevel[]).map(level => (
+              <option key={level} value={level}>
+                {SERVICE_LEVEL_LABELS[level]} - sous {formatDuration(serviceLevels[level])}
+              </option>
+            ))}
+            <option value="">Sans engagement</option>
+          </select>
+        </div>
+
         {/* Weight */}
         <div className="space-y-2">
           <label className="text-xs font-semibold text-gray-600 uppercase">
@@ -340,6 +440,11 @@ export default function ParcelCreationForm({
             onChange={(e) => handleChange('weightKg', parseFloat(e.target.value))}
             required
           />
+          {overweight && (
+            <p className="text-xs text-red-600">
+              ⚠️ Dépasse la charge utile du véhicule ({vehicle.capacityKg} kg)
+            </p>
+          )}
         </div>
 
         {/* Notes */}
@@ -370,7 +475,7 @@ export default function ParcelCreationForm({
         <Button
           type="submit"
           className="w-full gap-2"
-          disabled={loading || driversLoading}
+          disabled={loading || driversLoading || overweight}
         >
           {loading ? (
             <>
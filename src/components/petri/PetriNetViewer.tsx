@@ -15,12 +15,10 @@ export default function PetriNetViewer({
 }: PetriNetViewerProps) {
   const { state: simState } = useSimulation();
 
-  // Find the petriNetId for the selected parcel
-  const petriNetId = useMemo(() => {
-    if (!entityId) return undefined;
-    const parcel = simState.parcels.get(entityId);
-    return parcel?.parcelData?.petriNetId;
-  }, [entityId, simState.parcels]);
+  const parcel = entityId ? simState.parcels.get(entityId) : undefined;
+  const petriNetId = parcel?.parcelData?.petriNetId;
+  // Cancellation has no place of its own: the token ends in FAILED
+  const isCancelled = parcel?.state === 'CANCELLED';
 
   const { state: netState, isLoading, actions } = usePetriNet(petriNetId);
 
@@ -34,11 +32,11 @@ export default function PetriNetViewer({
 
     return standardPlaces.map(pId => ({
       id: pId,
-      name: pId,
+      name: pId === 'FAILED' && isCancelled ? 'FAILED (ANNULÉ)' : pId,
       tokens: netState.marking[pId] || [],
       active: (netState.marking[pId]?.length || 0) > 0
     }));
-  }, [netState]);
+  }, [netState, isCancelled]);
 
   if (!enabled) {
     return (
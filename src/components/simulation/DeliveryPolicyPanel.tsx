@@ -0,0 +1,64 @@
+/**
+ * Delivery Policy Panel Component
+ * Absent recipients and re-attempts for the parcels created next
+ */
+
+'use client';
+
+import React from 'react';
+import { Card } from '@/components/ui/Card';
+import { DeliveryPolicy } from '@/lib/type';
+
+interface DeliveryPolicyPanelProps {
+  policy: DeliveryPolicy;
+  onPolicyChange: (policy: DeliveryPolicy) => void;
+}
+
+export default function DeliveryPolicyPanel({
+  policy,
+  onPolicyChange,
+}: DeliveryPolicyPanelProps) {
+  return (
+    <Card className="p-3">
+      <div className="grid grid-cols-3 gap-2">
+        <label className="text-[10px] font-semibold text-gray-600 uppercase space-y-1">
+          <span>Absence (%)</span>
+          <input
+            type="number"
+            min={0}
+            max={100}
+            className="w-full px-2 py-1 border border-outline rounded text-xs bg-white"
+            value={Math.round(policy.absenceProbability * 100)}
+            onChange={(e) => onPolicyChange({
+              ...policy,
+              absenceProbability: Math.min(Math.max(Number(e.target.value), 0), 100) / 100,
+            })}
+          />
+        </label>
+        <label className="text-[10px] font-semibold text-gray-600 uppercase space-y-1">
+          <span>Tentatives</span>
+          <input
+            type="number"
+            min={1}
+            className="w-full px-2 py-1 border border-outline rounded text-xs bg-white"
+            value={policy.maxAttempts}
+            onChange={(e) => onPolicyChange({ ...policy, maxAttempts: Math.max(Number(e.target.value), 1) })}
+          />
+        </label>
+        <label className="text-[10px] font-semibold text-gray-600 uppercase space-y-1">
+          <span>Délai (min)</span>
+          <input
+            type="number"
+            min={0}
+            className="w-full px-2 py-1 border border-outline rounded text-xs bg-white"
+            value={policy.retryDelayMin}
+            onChange={(e) => onPolicyChange({ ...policy, retryDelayMin: Math.max(Number(e.target.value), 0) })}
+          />
+        </label>
+      </div>
+      <p className="text-[10px] text-gray-500 mt-2">
+        Appliqué aux colis créés ensuite • Tentatives épuisées : retour au hub d&apos;enlèvement
+      </p>
+    </Card>
+  );
+}
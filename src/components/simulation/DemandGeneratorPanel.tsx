@@ -0,0 +1,153 @@
+/**
+ * Demand Generator Panel Component
+ * Per-hub arrival rates, parcel weights and start/stop of the generator
+ */
+
+'use client';
+
+import React from 'react';
+import { Button } from '@/components/ui/Button';
+import { Card } from '@/components/ui/Card';
+import { Play, Square } from 'lucide-react';
+import { GeoPointResponse } from '@/lib/type';
+import { DemandModel } from '@/lib/demand-generator';
+import { DemandRouting } from '@/hooks/useDemandGenerator';
+
+interface DemandGeneratorPanelProps {
+  hubs: GeoPointResponse[];
+  model: DemandModel;
+  routing: DemandRouting;
+  isRunning: boolean;
+  generatedCount: number;
+  getHubRate: (hubId: string) => number;
+  onHubRateChange: (hubId: string, ratePerHour: number) => void;
+  onModelChange: (model: DemandModel) => void;
+  onRoutingChange: (routing: DemandRouting) => void;
+  onStart: () => void;
+  onStop: () => void;
+}
+
+const inputClass = 'w-full px-2 py-1 border border-outline rounded text-xs bg-white';
+
+export default function DemandGeneratorPanel({
+  hubs,
+  model,
+  routing,
+  isRunning,
+  generatedCount,
+  getHubRate,
+  onHubRateChange,
+  onModelChange,
+  onRoutingChange,
+  onStart,
+  onStop,
+}: DemandGeneratorPanelProps) {
+  // Le panneau règle une distribution uniforme (loi normale : scénarios headless)
+  const distribution = model.weightDistribution;
+  const weights = distribution.type === 'UNIFORM'
+    ? distribution
+    : { minKg: distribution.minKg, maxKg: distribution.meanKg + 2 * distribution.stdDevKg };
+
+  return (
+    <Card className="p-3 space-y-3">
+      {/* Arrival rate per hub */}
+      <div className="space-y-1.5">
+        <p className="text-[10px] font-semibold text-gray-600 uppercase">Arrivées (colis/h)</p>
+        {hubs.length === 0 && (
+          <p className="text-xs text-gray-400 italic">Aucun hub chargé</p>
+        )}
+        {hubs.map(hub => (
+          <label key={hub.id} className="flex items-center gap-2 text-xs">
+            <span className="flex-1 truncate text-gray-700">{hub.address}</span>
+            <input
+              type="number"
+              min={0}
+              step={0.5}
+              disabled={isRunning}
+              className={`${inputClass} !w-16`}
+              value={getHubRate(hub.id)}
+              onChange={(e) => onHubRateChange(hub.id, Math.max(Number(e.target.value), 0))}
+            />
+          </label>
+        ))}
+      </div>
+
+      {/* Weights, seed, routing */}
+      <div className="grid grid-cols-3 gap-2">
+        <label className="text-[10px] font-semibold text-gray-600 uppercase space-y-1">
+          <span>Min (kg)</span>
+          <input
+            type="number"
+            min={0}
+            disabled={isRunning}
+            className={inputClass}
+            value={weights.minKg}
+            onChange={(e) => onModelChange({
+              ...model,
+              weightDistribution: { type: 'UNIFORM', minKg: Number(e.target.value), maxKg: weights.maxKg },
+            })}
+          />
+        </label>
+        <label className="text-[10px] font-semibold text-gray-600 uppercase space-y-1">
+          <span>Max (kg)</span>
+          <input
+            type="number"
+            min={0}
+            disabled={isRunning}
+            className={inputClass}
+            value={weights.maxKg}
+            onChange={(e) => onModelChange({
+              ...model,
+              weightDistribution: { type: 'UNIFORM', minKg: weights.minKg, maxKg: Number(e.target.value) },
+            })}
+          />
+        </label>
+        <label className="text-[10px] font-semibold text-gray-600 uppercase space-y-1">
+          <span>Graine</span>
+          <input
+            type="number"
+            disabled={isRunning}
+            className={inputClass}
+            value={model.seed}
+            onChange={(e) => onModelChange({ ...model, seed: Number(e.target.value) })}
+          />
+        </label>
+      </div>
+
+      <label className="flex items-center gap-2 text-xs text-gray-700">
+        <span>Itinéraires</span>
+        <select
+          disabled={isRunning}
+          className={inputClass}
+          value={routing}
+          onChange={(e) => onRoutingChange(e.target.value as DemandRouting)}
+        >
+          <option value="LOCAL">Locaux (ligne droite, sans backend)</option>
+          <option value="BACKEND">Backend (création + calcul)</option>
+        </select>
+      </label>
+
+      <div className="flex items-center gap-3">
+        <Button
+          size="sm"
+          variant={isRunning ? 'outline' : 'primary'}
+          onClick={isRunning ? onStop : onStart}
+          className="flex-1 text-xs"
+        >
+          {isRunning ? (
+            <>
+              <Square className="w-3 h-3 mr-1" />
+              Arrêter
+            </>
+          ) : (
+            <>
+              <Play className="w-3 h-3 mr-1" />
+              Générer la demande
+            </>
+          )}
+        </Button>
+        <span className="text-xs text-gray-500">{generatedCount} colis générés</span>
+      </div>
+    </Card>
+  );
+}
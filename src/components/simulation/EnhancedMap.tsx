@@ -12,6 +12,7 @@ import {
   Marker,
   Popup,
   Polyline,
+  Polygon,
   useMap,
   useMapEvents,
   Circle,
@@ -19,8 +20,30 @@ import {
 } from 'react-leaflet';
 import L from 'leaflet';
 import 'leaflet/dist/leaflet.css';
-import { SimulatedParcel, Incident, GeoPointResponse, Position, IncidentType } from '@/lib/type';
+import {
+  SimulatedParcel,
+  SimulatedVehicle,
+  Incident,
+  GeoPointResponse,
+  Position,
+  IncidentType,
+  IncidentShape,
+  IncidentZone,
+} from '@/lib/type';
+import { ParcelControl } from '@/lib/parcel-controls';
 import ParcelMarker from './ParcelMarker';
+import VehicleMarker from './VehicleMarker';
+import {
+  circleZone,
+  describeIncidentEffect,
+  describeIncidentZone,
+  incidentAnchor,
+  incidentOutline,
+  lineZone,
+  polygonZone,
+} from '@/lib/incident-effects';
+import { haversineDistance } from '@/lib/wkt-parser';
+import { getIncidentStatus } from '@/lib/incident-schedule';
 import { AlertTriangle } from 'lucide-react';
 
 // Fix Leaflet icons
@@ -51,10 +74,19 @@ const hubIcon = L.divIcon({
   iconAnchor: [12, 12],
 });
 
+// Incident colors by type
+const getIncidentColor = (type: IncidentType) => {
+  switch (type) {
+    case 'TRAFFIC': return '#FF9800'; // orange
+    case 'VEHICLE_BREAKDOWN': return '#FBC02D'; // yellow
+    case 'WEATHER': return '#2196F3'; // blue
+    default: return '#F44336'; // red
+  }
+};
+
 // Incident icon
 const incidentIcon = (type: IncidentType) => {
-  let color = '#F44336'; // red
-  if (type === 'TRAFFIC') color = '#FF9800'; // orange
+  const color = getIncidentColor(type);
 
   return L.divIcon({
     className: 'custom-incident-marker',
@@ -93,58 +125,101 @@ interface EnhancedMapProps {
   center?: [number, number];
   zoom?: number;
   parcels: Map<string, SimulatedParcel>;
+  vehicles: Map<string, SimulatedVehicle>;
   incidents: Map<string, Incident>;
+  currentTime: number;
   hubs: GeoPointResponse[];
   selectedParcelId: string | null;
   incidentPlacementMode: boolean;
   selectedIncidentType: IncidentType | null;
+  selectedIncidentShape: IncidentShape;
   onParcelClick: (parcelId: string) => void;
-  onIncidentPlace: (startPos: Position, endPos: Position, type: IncidentType) => void;
+  onParcelControl: (control: ParcelControl, parcelId: string) => void;
+  onIncidentPlace: (zone: IncidentZone, type: IncidentType) => void;
   onIncidentClick: (incidentId: string) => void;
 }
 
-// Map click handler component
+// Un clic à moins de cette distance (px) du premier sommet ferme le polygone
+const CLOSE_POLYGON_PX = 12;
+
+const DRAFT_STYLE = {
+  color: '#F44336',
+  weight: 3,
+  opacity: 0.6,
+  dashArray: '10, 10',
+};
+
+// Map click handler component: draws the zone of the incident being placed
 function MapClickHandler({
   incidentPlacementMode,
   selectedIncidentType,
+  selectedIncidentShape,
   onIncidentPlace,
-  onFirstClickChange,
+  onDraftChange,
 }: {
   incidentPlacementMode: boolean;
   selectedIncidentType: IncidentType | null;
-  onIncidentPlace: (startPos: Position, endPos: Position, type: IncidentType) => void;
-  onFirstClickChange?: (hasFirstClick: boolean) => void;
+  selectedIncidentShape: IncidentShape;
+  onIncidentPlace: (zone: IncidentZone, type: IncidentType) => void;
+  onDraftChange?: (vertexCount: number) => void;
 }) {
   const map = useMap();
-  const [firstClick, setFirstClick] = React.useState<Position | null>(null);
+  const [vertices, setVertices] = React.useState<Position[]>([]);
   const [mousePosition, setMousePosition] = React.useState<Position | null>(null);
 
-  // Notify parent when first click state changes
+  // Notify parent when the number of placed points changes
   useEffect(() => {
-    onFirstClickChange?.(firstClick !== null);
-  }, [firstClick, onFirstClickChange]);
+    onDraftChange?.(vertices.length);
+  }, [vertices.length, onDraftChange]);
+
+  const place = (zone: IncidentZone, type: IncidentType) => {
+    onIncidentPlace(zone, type);
+    setVertices([]);
+    setMousePosition(null);
+  };
+
+  // Close the polygon when clicking back on its first vertex
+  const closesPolygon = (position: Position) => {
+    if (vertices.length < 3) return false;
+    const first = map.latLngToContainerPoint([vertices[0].lat, vertices[0].lng]);
+    return first.distanceTo(map.latLngToContainerPoint([position.lat, position.lng])) <= CLOSE_POLYGON_PX;
+  };
 
   useMapEvents({
     click: (e) => {
-      if (incidentPlacementMode && selectedIncidentType) {
-        const position: Position = {
-          lat: e.latlng.lat,
-          lng: e.latlng.lng,
-        };
-
-        if (!firstClick) {
-          // First click: set start point
-          setFirstClick(position);
-        } else {
-          // Second click: create incident line
-          onIncidentPlace(firstClick, position, selectedIncidentType);
-          setFirstClick(null);
-          setMousePosition(null);
+      if (!incidentPlacementMode || !selectedIncidentType) return;
+
+      const position: Position = {
+        lat: e.latlng.lat,
+        lng: e.latlng.lng,
+      };
+
+      if (vertices.length === 0) {
+        // First click: start point, center or first vertex
+        setVertices([position]);
+        return;
+      }
+
+      switch (selectedIncidentShape) {
+        case 'LINE':
+          place(lineZone(vertices[0], position, selectedIncidentType), selectedIncidentType);
+          break;
+        case 'CIRCLE': {
+          const radiusM = haversineDistance(vertices[0], position) * 1000;
+          if (radiusM > 0) place(circleZone(vertices[0], radiusM), selectedIncidentType);
+          break;
         }
+        case 'POLYGON':
+          if (closesPolygon(position)) {
+            place(polygonZone(vertices), selectedIncidentType);
+          } else {
+            setVertices([...vertices, position]);
+          }
+          break;
       }
     },
     mousemove: (e) => {
-      if (incidentPlacementMode && firstClick) {
+      if (incidentPlacementMode && vertices.length > 0) {
         setMousePosition({
           lat: e.latlng.lat,
           lng: e.latlng.lng,
@@ -156,7 +231,7 @@ function MapClickHandler({
   // Reset state when placement mode is disabled
   useEffect(() => {
     if (!incidentPlacementMode) {
-      setFirstClick(null);
+      setVertices([]);
       setMousePosition(null);
     }
   }, [incidentPlacementMode]);
@@ -170,13 +245,16 @@ function MapClickHandler({
     }
   }, [incidentPlacementMode, map]);
 
+  const toLatLng = (pos: Position): [number, number] => [pos.lat, pos.lng];
+
   return (
     <>
-      {/* First click marker */}
-      {firstClick && (
+      {/* Placed points (the first one closes a polygon) */}
+      {vertices.map((vertex, index) => (
         <Circle
-          center={[firstClick.lat, firstClick.lng]}
-          radius={10}
+          key={index}
+          center={toLatLng(vertex)}
+          radius={index === 0 && selectedIncidentShape === 'POLYGON' ? 20 : 10}
           pathOptions={{
             color: '#F44336',
             fillColor: '#F44336',
@@ -184,51 +262,72 @@ function MapClickHandler({
             weight: 2,
           }}
         />
-      )}
-
-      {/* Preview line from first click to mouse position */}
-      {firstClick && mousePosition && (
-        <Polyline
-          positions={[
-            [firstClick.lat, firstClick.lng],
-            [mousePosition.lat, mousePosition.lng],
-          ]}
-          pathOptions={{
-            color: '#F44336',
-            weight: 3,
-            opacity: 0.6,
-            dashArray: '10, 10',
-          }}
-        />
+      ))}
+
+      {/* Preview from the placed points to the mouse position */}
+      {vertices.length > 0 && mousePosition && (
+        selectedIncidentShape === 'CIRCLE' ? (
+          <Circle
+            center={toLatLng(vertices[0])}
+            radius={haversineDistance(vertices[0], mousePosition) * 1000}
+            pathOptions={{ ...DRAFT_STYLE, fillOpacity: 0.1 }}
+          />
+        ) : (
+          <Polyline
+            positions={[...vertices, mousePosition].map(toLatLng)}
+            pathOptions={DRAFT_STYLE}
+          />
+        )
       )}
     </>
   );
 }
 
+// Overlay instructions while drawing, by shape and number of placed points
+const placementHint = (shape: IncidentShape, vertexCount: number): string => {
+  switch (shape) {
+    case 'LINE':
+      return vertexCount === 0
+        ? '🎯 Cliquez pour définir le point de départ de l\'incident'
+        : '🎯 Cliquez pour définir le point de fin de l\'incident';
+    case 'CIRCLE':
+      return vertexCount === 0
+        ? '🎯 Cliquez pour placer le centre de la zone'
+        : '🎯 Cliquez pour fixer le rayon de la zone';
+    case 'POLYGON':
+      return vertexCount < 3
+        ? `🎯 Cliquez pour ajouter un sommet (${vertexCount}/3 minimum)`
+        : '🎯 Ajoutez un sommet ou cliquez sur le premier pour fermer la zone';
+  }
+};
 
 export default function EnhancedMap({
   center = [3.848, 11.502],
   zoom = 13,
   parcels,
+  vehicles,
   incidents,
+  currentTime,
   hubs,
   selectedParcelId,
   incidentPlacementMode,
   selectedIncidentType,
+  selectedIncidentShape,
   onParcelClick,
+  onParcelControl,
   onIncidentPlace,
   onIncidentClick,
 }: EnhancedMapProps) {
-  const [isFirstClickPlaced, setIsFirstClickPlaced] = React.useState(false);
+  const [draftVertexCount, setDraftVertexCount] = React.useState(0);
 
   useEffect(() => {
     fixLeafletIcons();
   }, []);
 
-  // Reset first click state when placement mode changes
+  // Reset draft state when placement mode changes
   useEffect(() => {
     if (!incidentPlacementMode) {
-      setIsFirstClickPlaced(false);
+      setDraftVertexCount(0);
     }
   }, [incidentPlacementMode]);
 
@@ -268,11 +367,14 @@ export default function EnhancedMap({
         />
 
 
+        {/* Remounted on shape change so a half-drawn zone is dropped */}
         <MapClickHandler
+          key={selectedIncidentShape}
           incidentPlacementMode={incidentPlacementMode}
           selectedIncidentType={selectedIncidentType}
+          selectedIncidentShape={selectedIncidentShape}
           onIncidentPlace={onIncidentPlace}
-          onFirstClickChange={setIsFirstClickPlaced}
+          onDraftChange={setDraftVertexCount}
         />
 
         {/* Hubs */}
@@ -314,66 +416,116 @@ export default function EnhancedMap({
           );
         })}
 
-        {/* Parcels */}
-        {Array.from(parcels.values()).map((parcel) => (
-          <ParcelMarker
-            key={parcel.id}
-            parcel={parcel}
-            onClick={() => onParcelClick(parcel.id)}
+        {/* Tours (Polylines) */}
+        {Array.from(vehicles.values()).map((vehicle) => {
+          if (vehicle.routePath.length === 0 || vehicle.state === 'COMPLETED') return null;
+
+          return (
+            <Polyline
+              key={vehicle.id}
+              positions={vehicle.routePath.map(pos => [pos.lat, pos.lng] as [number, number])}
+              color={vehicle.state === 'INCIDENT' ? '#F44336' : '#1976D2'}
+              weight={4}
+              opacity={0.7}
+              dashArray={vehicle.state === 'INCIDENT' ? '10, 10' : undefined}
+            />
+          );
+        })}
+
+        {/* Parcels (those on board are shown by their vehicle) */}
+        {Array.from(parcels.values()).map((parcel) => {
+          const isOnBoard = parcel.vehicleId !== null &&
+            (parcel.state === 'TRANSIT' || parcel.state === 'INCIDENT');
+          if (isOnBoard) return null;
+
+          return (
+            <ParcelMarker
+              key={parcel.id}
+              parcel={parcel}
+              vehicle={parcel.vehicleId ? vehicles.get(parcel.vehicleId) : null}
+              onClick={() => onParcelClick(parcel.id)}
+              onControl={onParcelControl}
+            />
+          );
+        })}
+
+        {/* Vehicles */}
+        {Array.from(vehicles.values()).map((vehicle) => (
+          <VehicleMarker
+            key={vehicle.id}
+            vehicle={vehicle}
+            parcels={parcels}
           />
         ))}
 
         {/* Incidents */}
         {Array.from(incidents.values()).map((incident) => {
-          if (incident.resolved) return null;
-
-          // Calculate midpoint for marker placement
-          const midLat = (incident.startPosition.lat + incident.endPosition.lat) / 2;
-          const midLng = (incident.startPosition.lng + incident.endPosition.lng) / 2;
+          const status = getIncidentStatus(incident, currentTime);
+          if (status === 'EXPIRED') return null;
+
+          // Scheduled incidents are drawn faded until they activate
+          const isPending = status === 'PENDING';
+
+          const { zone } = incident;
+          const anchor = incidentAnchor(zone);
+          const zoneStyle = {
+            color: getIncidentColor(incident.type),
+            fillColor: getIncidentColor(incident.type),
+            fillOpacity: isPending ? 0.05 : 0.15,
+            weight: 3,
+            opacity: isPending ? 0.3 : 0.7,
+            dashArray: isPending ? '4, 12' : '10, 10',
+          };
+          const endpointStyle = {
+            color: getIncidentColor(incident.type),
+            fillColor: getIncidentColor(incident.type),
+            fillOpacity: isPending ? 0.3 : 0.8,
+            weight: 2,
+          };
 
           return (
             <React.Fragment key={incident.id}>
-              {/* Incident line segment */}
-              <Polyline
-                positions={[
-                  [incident.startPosition.lat, incident.startPosition.lng],
-                  [incident.endPosition.lat, incident.endPosition.lng]
-                ]}
-                pathOptions={{
-                  color: '#F44336',
-                  weight: Math.max(4, incident.width / 5), // Visual representation of buffer width
-                  opacity: 0.7,
-                  dashArray: '10, 10',
-                }}
-              />
-
-              {/* Start point marker */}
-              <Circle
-                center={[incident.startPosition.lat, incident.startPosition.lng]}
-                radius={8}
-                pathOptions={{
-                  color: '#F44336',
-                  fillColor: '#F44336',
-                  fillOpacity: 0.8,
-                  weight: 2,
-                }}
-              />
-
-              {/* End point marker */}
-              <Circle
-                center={[incident.endPosition.lat, incident.endPosition.lng]}
-                radius={8}
-                pathOptions={{
-                  color: '#F44336',
-                  fillColor: '#F44336',
-                  fillOpacity: 0.8,
-                  weight: 2,
-                }}
-              />
-
-              {/* Incident icon at midpoint */}
+              {zone.shape === 'LINE' && (
+                <>
+                  {/* Buffer of the segment, as the collision check measures it */}
+                  <Polygon
+                    positions={incidentOutline(zone).map(pos => [pos.lat, pos.lng] as [number, number])}
+                    pathOptions={{ ...zoneStyle, weight: 1 }}
+                  />
+
+                  {/* Incident line segment */}
+                  <Polyline
+                    positions={[
+                      [zone.start.lat, zone.start.lng],
+                      [zone.end.lat, zone.end.lng]
+                    ]}
+                    pathOptions={zoneStyle}
+                  />
+
+                  {/* Start and end point markers */}
+                  <Circle center={[zone.start.lat, zone.start.lng]} radius={8} pathOptions={endpointStyle} />
+                  <Circle center={[zone.end.lat, zone.end.lng]} radius={8} pathOptions={endpointStyle} />
+                </>
+              )}
+
+              {zone.shape === 'POLYGON' && (
+                <Polygon
+                  positions={incidentOutline(zone).map(pos => [pos.lat, pos.lng] as [number, number])}
+                  pathOptions={zoneStyle}
+                />
+              )}
+
+              {zone.shape === 'CIRCLE' && (
+                <Circle
+                  center={[zone.center.lat, zone.center.lng]}
+                  radius={zone.radiusM}
+                  pathOptions={zoneStyle}
+                />
+              )}
+
+              {/* Incident icon at the middle of the zone */}
               <Marker
-                position={[midLat, midLng]}
+                position={[anchor.lat, anchor.lng]}
                 icon={incidentIcon(incident.type)}
                 eventHandlers={{
                   click: () => onIncidentClick(incident.id),
@@ -384,7 +536,9 @@ export default function EnhancedMap({
                     <div className="flex items-center gap-2 mb-2">
                       <AlertTriangle className="w-5 h-5 text-red-600" />
                       <div>
-                        <p className="font-bold text-sm">Incident</p>
+                        <p className="font-bold text-sm">
+                          Incident{isPending ? ' programmé' : ''}
+                        </p>
                         <p className="text-xs text-gray-600">
                           {getIncidentLabel(incident.type)}
                         </p>
@@ -394,12 +548,20 @@ export default function EnhancedMap({
                       {incident.description}
                     </p>
                     <div className="text-xs text-gray-400">
-                      <p>Largeur: {incident.width}m</p>
+                      <p className="text-gray-600 font-medium">{describeIncidentEffect(incident)}</p>
+                      <p>{describeIncidentZone(zone)}</p>
                       <p>
-                        {incident.timestamp.toLocaleTimeString('fr-FR', {
+                        {incident.startsAt.toLocaleTimeString('fr-FR', {
                           hour: '2-digit',
                           minute: '2-digit',
                         })}
+                        {' → '}
+                        {incident.endsAt
+                          ? incident.endsAt.toLocaleTimeString('fr-FR', {
+                              hour: '2-digit',
+                              minute: '2-digit',
+                            })
+                          : 'résolution manuelle'}
                       </p>
                     </div>
                   </div>
@@ -414,9 +576,7 @@ export default function EnhancedMap({
           <div className="leaflet-top leaflet-center" style={{ zIndex: 1000 }}>
             <div className="bg-red-600 text-white px-4 py-2 rounded-lg shadow-lg">
               <p className="text-sm font-semibold">
-                {isFirstClickPlaced
-                  ? '🎯 Cliquez pour définir le point de fin de l\'incident'
-                  : '🎯 Cliquez pour définir le point de départ de l\'incident'}
+                {placementHint(selectedIncidentShape, draftVertexCount)}
               </p>
             </div>
           </div>
@@ -0,0 +1,67 @@
+/**
+ * Geo Data Panel Component
+ * GeoJSON export of the simulation and import of hubs and incidents (QGIS)
+ */
+
+'use client';
+
+import React, { useRef } from 'react';
+import { toast } from 'react-hot-toast';
+import { Button } from '@/components/ui/Button';
+import { Card } from '@/components/ui/Card';
+import { Download, Upload } from 'lucide-react';
+import { exportGeoJSON, GeoJSONSource } from '@/lib/geojson';
+import { downloadFile } from '@/lib/utils';
+
+interface GeoDataPanelProps {
+  source: GeoJSONSource;
+  currentTime: number;
+  onImport: (collection: unknown) => void;
+}
+
+export default function GeoDataPanel({ source, currentTime, onImport }: GeoDataPanelProps) {
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const handleExport = () => {
+    const name = `simulation-${new Date(currentTime).toISOString().slice(0, 16).replace(/[:T]/g, '-')}`;
+    downloadFile(`${name}.geojson`, JSON.stringify(exportGeoJSON(source), null, 2), 'application/geo+json');
+  };
+
+  const handleFile = async (file: File) => {
+    try {
+      onImport(JSON.parse(await file.text()));
+    } catch {
+      toast.error(`Fichier illisible: ${file.name}`);
+    }
+  };
+
+  return (
+    <Card className="p-3 space-y-2">
+      <div className="flex gap-2">
+        <Button size="sm" variant="outline" className="flex-1 text-xs" onClick={handleExport}>
+          <Download className="w-3 h-3 mr-1" />
+          Exporter
+        </Button>
+        <Button size="sm" variant="outline" className="flex-1 text-xs" onClick={() => fileInput.current?.click()}>
+          <Upload className="w-3 h-3 mr-1" />
+          Importer
+        </Button>
+        <input
+          ref={fileInput}
+          type="file"
+          accept=".geojson,.json,application/geo+json,application/json"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) handleFile(file);
+            e.target.value = '';
+          }}
+        />
+      </div>
+      <p className="text-[10px] text-gray-500">
+        Hubs, itinéraires, zones d&apos;incident et trajectoires (propriété « layer ») •
+        Import : points → hubs, lignes → incidents
+      </p>
+    </Card>
+  );
+}
@@ -16,13 +16,21 @@ import {
   Cloud,
   X,
   CheckCircle,
+  Clock,
 } from 'lucide-react';
-import { Incident, IncidentType } from '@/lib/type';
+import { Incident, IncidentType, IncidentStatus, IncidentSchedule, IncidentShape } from '@/lib/type';
+import { describeIncidentEffect, describeIncidentZone } from '@/lib/incident-effects';
+import { getIncidentStatus } from '@/lib/incident-schedule';
 
 interface IncidentPanelProps {
   incidents: Map<string, Incident>;
+  currentTime: number;
   incidentPlacementMode: boolean;
   selectedIncidentType: IncidentType | null;
+  selectedIncidentShape: IncidentShape;
+  incidentSchedule: IncidentSchedule;
+  onIncidentShapeChange: (shape: IncidentShape) => void;
+  onIncidentScheduleChange: (schedule: IncidentSchedule) => void;
   onActivateIncidentMode: (type: IncidentType) => void;
   onCancelIncidentMode: () => void;
   onResolveIncident: (incidentId: string) => void;
@@ -59,17 +67,42 @@ const INCIDENT_TYPES = [
   },
 ];
 
+const INCIDENT_SHAPES: { shape: IncidentShape; label: string }[] = [
+  { shape: 'LINE', label: 'Tronçon' },
+  { shape: 'POLYGON', label: 'Polygone' },
+  { shape: 'CIRCLE', label: 'Cercle' },
+];
+
+const STATUS_SECTIONS: { status: IncidentStatus; title: string; border: string; iconBg: string; iconColor: string }[] = [
+  { status: 'ACTIVE', title: 'Incidents actifs', border: 'border-red-500', iconBg: 'bg-red-100', iconColor: 'text-red-600' },
+  { status: 'PENDING', title: 'Incidents programmés', border: 'border-blue-400', iconBg: 'bg-blue-100', iconColor: 'text-blue-600' },
+  { status: 'EXPIRED', title: 'Incidents terminés', border: 'border-gray-300', iconBg: 'bg-gray-100', iconColor: 'text-gray-400' },
+];
+
+const formatTime = (date: Date) =>
+  date.toLocaleTimeString('fr-FR', {
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+
 export default function IncidentPanel({
   incidents,
+  currentTime,
   incidentPlacementMode,
   selectedIncidentType,
+  selectedIncidentShape,
+  incidentSchedule,
+  onIncidentShapeChange,
+  onIncidentScheduleChange,
   onActivateIncidentMode,
   onCancelIncidentMode,
   onResolveIncident,
 }: IncidentPanelProps) {
-  const activeIncidents = Array.from(incidents.values()).filter(
-    (i) => !i.resolved
-  );
+  const incidentsByStatus = (status: IncidentStatus) =>
+    Array.from(incidents.values()).filter(
+      (i) => getIncidentStatus(i, currentTime) === status
+    );
+  const hasOpenIncidents = incidentsByStatus('ACTIVE').length + incidentsByStatus('PENDING').length > 0;
 
   return (
     <div className="space-y-4">
@@ -113,6 +146,50 @@ export default function IncidentPanel({
           <p className="text-xs text-red-700 mb-3">
             🎯 Cliquez sur la carte pour placer l'incident
           </p>
+
+          {/* Zone shape */}
+          <div className="grid grid-cols-3 gap-1 mb-3">
+            {INCIDENT_SHAPES.map(({ shape, label }) => (
+              <button
+                key={shape}
+                type="button"
+                onClick={() => onIncidentShapeChange(shape)}
+                className={`
+                  px-2 py-1 rounded border text-xs font-semibold transition-colors
+                  ${shape === selectedIncidentShape
+                    ? 'bg-red-600 border-red-600 text-white'
+                    : 'bg-white border-red-200 text-red-700 hover:bg-red-100'}
+                `}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+
+          {/* Schedule (simulated time of day) */}
+          <div className="grid grid-cols-2 gap-2 mb-3">
+            <label className="text-[10px] font-semibold text-red-800 uppercase space-y-1">
+              <span>Début</span>
+              <input
+                type="time"
+                className="w-full px-2 py-1 border border-red-200 rounded text-xs bg-white"
+                value={incidentSchedule.startTime}
+                onChange={(e) => onIncidentScheduleChange({ ...incidentSchedule, startTime: e.target.value })}
+              />
+            </label>
+            <label className="text-[10px] font-semibold text-red-800 uppercase space-y-1">
+              <span>Fin</span>
+              <input
+                type="time"
+                className="w-full px-2 py-1 border border-red-200 rounded text-xs bg-white"
+                value={incidentSchedule.endTime}
+                onChange={(e) => onIncidentScheduleChange({ ...incidentSchedule, endTime: e.target.value })}
+              />
+            </label>
+          </div>
+          <p className="text-[10px] text-red-600 mb-3">
+            Sans début : immédiat • Sans fin : résolution manuelle
+          </p>
           <Button
             variant="outline"
             size="sm"
@@ -125,61 +202,73 @@ export default function IncidentPanel({
         </Card>
       )}
 
-      {/* Active Incidents List */}
-      {activeIncidents.length > 0 && (
-        <div className="space-y-2">
-          <h3 className="text-xs font-semibold text-gray-600 uppercase">
-            Incidents actifs ({activeIncidents.length})
-          </h3>
-          <div className="space-y-2">
-            {activeIncidents.map((incident) => {
-              const config = INCIDENT_TYPES.find((i) => i.type === incident.type);
-              const Icon = config?.icon || AlertTriangle;
-
-              return (
-                <Card
-                  key={incident.id}
-                  className="p-3 border-l-4 border-red-500 hover:shadow-md transition-shadow"
-                >
-                  <div className="flex items-start gap-3">
-                    <div className="bg-red-100 p-1.5 rounded">
-                      <Icon className="w-4 h-4 text-red-600" />
-                    </div>
-                    <div className="flex-1 min-w-0">
-                      <p className="text-xs font-semibold text-gray-900">
-                        {config?.label || incident.type}
-                      </p>
-                      <p className="text-xs text-gray-500 truncate">
-                        {incident.description}
-                      </p>
-                      <p className="text-[10px] text-gray-400 mt-1">
-                        {incident.timestamp.toLocaleTimeString('fr-FR', {
-                          hour: '2-digit',
-                          minute: '2-digit',
-                        })}
-                        {' • '}
-                        Largeur: {incident.width}m
-                      </p>
-                    </div>
-                  </div>
-                  <Button
-                    variant="outline"
-                    size="sm"
-                    onClick={() => onResolveIncident(incident.id)}
-                    className="w-full mt-2 text-xs border-green-200 text-green-600 hover:bg-green-50"
+      {/* Incidents by lifecycle status */}
+      {STATUS_SECTIONS.map((section) => {
+        const sectionIncidents = incidentsByStatus(section.status);
+        if (sectionIncidents.length === 0) return null;
+
+        return (
+          <div key={section.status} className="space-y-2">
+            <h3 className="text-xs font-semibold text-gray-600 uppercase">
+              {section.title} ({sectionIncidents.length})
+            </h3>
+            <div className="space-y-2">
+              {sectionIncidents.map((incident) => {
+                const config = INCIDENT_TYPES.find((i) => i.type === incident.type);
+                const Icon = config?.icon || AlertTriangle;
+
+                return (
+                  <Card
+                    key={incident.id}
+                    className={`p-3 border-l-4 ${section.border} hover:shadow-md transition-shadow ${
+                      section.status === 'EXPIRED' ? 'opacity-60' : ''
+                    }`}
                   >
-                    <CheckCircle className="w-3 h-3 mr-1" />
-                    Résoudre
-                  </Button>
-                </Card>
-              );
-            })}
+                    <div className="flex items-start gap-3">
+                      <div className={`${section.iconBg} p-1.5 rounded`}>
+                        <Icon className={`w-4 h-4 ${section.iconColor}`} />
+                      </div>
+                      <div className="flex-1 min-w-0">
+                        <p className="text-xs font-semibold text-gray-900">
+                          {config?.label || incident.type}
+                        </p>
+                        <p className="text-xs text-gray-500 truncate">
+                          {incident.description}
+                        </p>
+                        <p className="text-[10px] text-gray-600 font-medium">
+                          {describeIncidentEffect(incident)}
+                        </p>
+                        <p className="text-[10px] text-gray-400 mt-1 flex items-center gap-1">
+                          <Clock className="w-2.5 h-2.5" />
+                          {formatTime(incident.startsAt)}
+                          {' → '}
+                          {incident.endsAt ? formatTime(incident.endsAt) : 'manuel'}
+                          {' • '}
+                          {describeIncidentZone(incident.zone)}
+                        </p>
+                      </div>
+                    </div>
+                    {section.status !== 'EXPIRED' && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => onResolveIncident(incident.id)}
+                        className="w-full mt-2 text-xs border-green-200 text-green-600 hover:bg-green-50"
+                      >
+                        <CheckCircle className="w-3 h-3 mr-1" />
+                        {section.status === 'PENDING' ? 'Annuler' : 'Résoudre'}
+                      </Button>
+                    )}
+                  </Card>
+                );
+              })}
+            </div>
           </div>
-        </div>
-      )}
+        );
+      })}
 
       {/* No incidents message */}
-      {activeIncidents.length === 0 && !incidentPlacementMode && (
+      {!hasOpenIncidents && !incidentPlacementMode && (
         <Card className="p-4 bg-gray-50">
           <p className="text-xs text-gray-500 text-center italic">
             Aucun incident actif
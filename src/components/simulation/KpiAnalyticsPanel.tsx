@@ -0,0 +1,127 @@
+/**
+ * KPI Analytics Panel Component
+ * Charts the indicators sampled over simulated time and exports the series
+ */
+
+'use client';
+
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/Button';
+import { Card } from '@/components/ui/Card';
+import { Download } from 'lucide-react';
+import { KpiSample } from '@/lib/type';
+import { KPI_LABELS, kpiSeriesToCsv } from '@/lib/kpi-series';
+import { downloadFile } from '@/lib/utils';
+
+type KpiKey = keyof typeof KPI_LABELS;
+
+interface KpiAnalyticsPanelProps {
+  series: KpiSample[];
+}
+
+const CHART_WIDTH = 280;
+const CHART_HEIGHT = 90;
+
+const formatTime = (time: number) =>
+  new Date(time).toLocaleTimeString('fr-FR', { hour: '2-digit', minute: '2-digit' });
+
+// Taux affiché en pourcentage
+const kpiValue = (sample: KpiSample, key: KpiKey): number | null => {
+  const value = sample[key];
+  if (value === null) return null;
+  return key === 'onTimeRate' ? value * 100 : value;
+};
+
+export default function KpiAnalyticsPanel({ series }: KpiAnalyticsPanelProps) {
+  const [selected, setSelected] = useState<KpiKey>('inTransit');
+
+  const points = series
+    .map(sample => ({ time: sample.time, value: kpiValue(sample, selected) }))
+    .filter((p): p is { time: number; value: number } => p.value !== null);
+
+  const startTime = series[0]?.time ?? 0;
+  const endTime = series[series.length - 1]?.time ?? 0;
+  const maxValue = Math.max(...points.map(p => p.value), 1);
+  const x = (time: number) => endTime > startTime
+    ? ((time - startTime) / (endTime - startTime)) * CHART_WIDTH
+    : 0;
+  const y = (value: number) => CHART_HEIGHT - (value / maxValue) * CHART_HEIGHT;
+  const polyline = points.map(p => `${x(p.time).toFixed(1)},${y(p.value).toFixed(1)}`).join(' ');
+
+  const latest = points[points.length - 1];
+  const peak = points.reduce<{ time: number; value: number } | null>(
+    (best, p) => (!best || p.value > best.value ? p : best),
+    null
+  );
+
+  const exportName = `kpi-${new Date(startTime).toISOString().slice(0, 16).replace(/[:T]/g, '-')}`;
+
+  return (
+    <Card className="p-3 space-y-2">
+      <select
+        className="w-full px-2 py-1 border border-outline rounded text-xs bg-white"
+        value={selected}
+        onChange={(e) => setSelected(e.target.value as KpiKey)}
+      >
+        {(Object.keys(KPI_LABELS) as KpiKey[]).map(key => (
+          <option key={key} value={key}>{KPI_LABELS[key]}</option>
+        ))}
+      </select>
+
+      {points.length < 2 ? (
+        <p className="text-xs text-gray-400 italic py-4 text-center">
+          Lancez la simulation pour collecter les indicateurs (1 échantillon par minute simulée)
+        </p>
+      ) : (
+        <>
+          <svg
+            viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+            className="w-full h-24 bg-gray-50 rounded"
+            preserveAspectRatio="none"
+          >
+            <polyline
+              points={polyline}
+              fill="none"
+              stroke="currentColor"
+              strokeWidth={1.5}
+              vectorEffect="non-scaling-stroke"
+              className="text-primary"
+            />
+          </svg>
+          <div className="flex justify-between text-[10px] text-gray-500">
+            <span>{formatTime(startTime)}</span>
+            <span>max {maxValue.toFixed(1)}</span>
+            <span>{formatTime(endTime)}</span>
+          </div>
+          <div className="text-[10px] text-gray-600 space-y-0.5">
+            {latest && <p>Dernière valeur : {latest.value.toFixed(1)}</p>}
+            {peak && <p>Pic : {peak.value.toFixed(1)} à {formatTime(peak.time)}</p>}
+          </div>
+        </>
+      )}
+
+      <div className="flex gap-2">
+        <Button
+          size="sm"
+          variant="outline"
+          className="flex-1 text-xs"
+          disabled={series.length === 0}
+          onClick={() => downloadFile(`${exportName}.csv`, kpiSeriesToCsv(series), 'text/csv')}
+        >
+          <Download className="w-3 h-3 mr-1" />
+          CSV
+        </Button>
+        <Button
+          size="sm"
+          variant="outline"
+          className="flex-1 text-xs"
+          disabled={series.length === 0}
+          onClick={() => downloadFile(`${exportName}.json`, JSON.stringify(series, null, 2), 'application/json')}
+        >
+          <Download className="w-3 h-3 mr-1" />
+          JSON
+        </Button>
+      </div>
+    </Card>
+  );
+}
@@ -0,0 +1,61 @@
+/**
+ * Parcel Controls Component
+ * Operator actions on one parcel, shown in the list and in the map popup
+ */
+
+'use client';
+
+import React from 'react';
+import { Button } from '@/components/ui/Button';
+import { Pause, Play, Ban, Trash2, Route, Rocket } from 'lucide-react';
+import { SimulatedParcel, SimulatedVehicle } from '@/lib/type';
+import { ParcelControl, availableControls } from '@/lib/parcel-controls';
+
+interface ParcelControlsProps {
+  parcel: SimulatedParcel;
+  vehicle?: SimulatedVehicle | null;
+  onControl: (control: ParcelControl, parcelId: string) => void;
+}
+
+const CONTROL_CONFIG: Record<ParcelControl, { label: string; icon: typeof Pause; className: string }> = {
+  START: { label: 'Démarrer', icon: Rocket, className: 'text-primary' },
+  RETRY_ROUTING: { label: 'Recalculer', icon: Route, className: 'text-primary' },
+  HOLD: { label: 'Arrêter', icon: Pause, className: 'text-amber-600' },
+  RESUME: { label: 'Reprendre', icon: Play, className: 'text-green-600' },
+  CANCEL: { label: 'Annuler', icon: Ban, className: 'text-red-600' },
+  REMOVE: { label: 'Retirer', icon: Trash2, className: 'text-gray-600' },
+};
+
+export default function ParcelControls({ parcel, vehicle = null, onControl }: ParcelControlsProps) {
+  const controls = availableControls(parcel, vehicle);
+  if (controls.length === 0) return null;
+
+  return (
+    <div className="flex flex-wrap gap-1">
+      {controls.map(control => {
+        const { label, icon: Icon, className } = CONTROL_CONFIG[control];
+
+        return (
+          <Button
+            key={control}
+            type="button"
+            size="sm"
+            variant="ghost"
+            className={`px-2 py-0.5 text-[11px] gap-1 ${className}`}
+            onClick={(e) => {
+              // Inside a clickable card: acting must not select the parcel
+              e.stopPropagation();
+              if (control === 'CANCEL' && !window.confirm(`Annuler la livraison de ${parcel.trackingCode} ?`)) {
+                return;
+              }
+              onControl(control, parcel.id);
+            }}
+          >
+            <Icon className="w-3 h-3" />
+            {label}
+          </Button>
+        );
+      })}
+    </div>
+  );
+}
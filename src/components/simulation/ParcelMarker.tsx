@@ -8,12 +8,17 @@
 import React from 'react';
 import { Marker, Popup, Tooltip } from 'react-leaflet';
 import L from 'leaflet';
-import { SimulatedParcel } from '@/lib/type';
+import { SimulatedParcel, SimulatedVehicle } from '@/lib/type';
+import { VEHICLE_CATALOG } from '@/lib/vehicle-catalog';
+import { ParcelControl } from '@/lib/parcel-controls';
+import ParcelControls from './ParcelControls';
 import { Package, MapPin, Clock, AlertTriangle } from 'lucide-react';
 
 interface ParcelMarkerProps {
   parcel: SimulatedParcel;
+  vehicle?: SimulatedVehicle | null;
   onClick?: () => void;
+  onControl?: (control: ParcelControl, parcelId: string) => void;
 }
 
 // Create custom icon for parcel
@@ -22,6 +27,8 @@ const createParcelIcon = (state: string) => {
   if (state === 'DELIVERED') color = '#4CAF50'; // green
   if (state === 'INCIDENT') color = '#F44336'; // red
   if (state === 'PLANNED') color = '#9E9E9E'; // grey
+  if (state === 'FAILED') color = '#616161'; // dark grey
+  if (state === 'CANCELLED') color = '#BDBDBD'; // light grey
 
   return L.divIcon({
     className: 'custom-parcel-marker',
@@ -70,7 +77,7 @@ const createParcelIcon = (state: string) => {
   });
 };
 
-export default function ParcelMarker({ parcel, onClick }: ParcelMarkerProps) {
+export default function ParcelMarker({ parcel, vehicle = null, onClick, onControl }: ParcelMarkerProps) {
   const icon = createParcelIcon(parcel.state);
 
   const formatDuration = (minutes: number) => {
@@ -86,6 +93,8 @@ export default function ParcelMarker({ parcel, onClick }: ParcelMarkerProps) {
       case 'TRANSIT': return 'En transit';
       case 'INCIDENT': return 'Incident';
       case 'DELIVERED': return 'Livré';
+      case 'FAILED': return 'Échec de livraison';
+      case 'CANCELLED': return 'Annulé';
       default: return state;
     }
   };
@@ -96,6 +105,7 @@ export default function ParcelMarker({ parcel, onClick }: ParcelMarkerProps) {
       case 'TRANSIT': return 'text-primary';
       case 'INCIDENT': return 'text-red-600';
       case 'DELIVERED': return 'text-green-600';
+      case 'FAILED': return 'text-gray-700';
       default: return 'text-gray-500';
     }
   };
@@ -112,6 +122,7 @@ export default function ParcelMarker({ parcel, onClick }: ParcelMarkerProps) {
       <Tooltip direction="top" offset={[0, -10]} opacity={0.9}>
         <div className="text-xs font-medium">
           📦 {parcel.trackingCode}
+          {parcel.deliveryAttempts > 0 && ` • ${parcel.deliveryAttempts} tentative(s)`}
         </div>
       </Tooltip>
 
@@ -176,9 +187,54 @@ export default function ParcelMarker({ parcel, onClick }: ParcelMarkerProps) {
             {parcel.state === 'TRANSIT' && (
               <div className="flex items-center gap-2">
                 <span className="text-gray-600">Vitesse:</span>
-                <span className="font-semibold">{parcel.speed} km/h</span>
+                <span className="font-semibold">
+                  {Math.round(parcel.speed * parcel.speedFactor)} km/h
+                </span>
+                <span className="text-gray-500">({VEHICLE_CATALOG[parcel.vehicleType].label})</span>
+                {parcel.speedFactor < 1 && (
+                  <span className="text-orange-600 font-semibold">(ralenti)</span>
+                )}
+              </div>
+            )}
+
+            {/* Breakdown */}
+            {parcel.immobilizedUntil && (
+              <div className="flex items-center gap-2 text-yellow-700">
+                <Clock className="w-3 h-3" />
+                <span>Immobilisé jusqu&apos;à</span>
+                <span className="font-semibold">
+                  {parcel.immobilizedUntil.toLocaleTimeString('fr-FR', {
+                    hour: '2-digit',
+                    minute: '2-digit',
+                  })}
+                </span>
+              </div>
+            )}
+
+            {/* Delivery attempts */}
+            {parcel.deliveryAttempts > 0 && (
+              <div className="flex items-center gap-2 text-orange-700">
+                <span>Tentatives:</span>
+                <span className="font-semibold">
+                  {parcel.deliveryAttempts}/{parcel.deliveryPolicy.maxAttempts}
+                </span>
+              </div>
+            )}
+            {parcel.nextAttemptAt && (
+              <div className="flex items-center gap-2 text-orange-700">
+                <Clock className="w-3 h-3" />
+                <span>Nouvelle tentative à</span>
+                <span className="font-semibold">
+                  {parcel.nextAttemptAt.toLocaleTimeString('fr-FR', {
+                    hour: '2-digit',
+                    minute: '2-digit',
+                  })}
+                </span>
               </div>
             )}
+            {parcel.returningToHub && (
+              <p className="text-gray-700 font-semibold">↩ Retour au hub d&apos;enlèvement</p>
+            )}
 
             {/* Incidents */}
             {parcel.affectedByIncidents.length > 0 && (
@@ -201,6 +257,16 @@ export default function ParcelMarker({ parcel, onClick }: ParcelMarkerProps) {
                 </p>
               </div>
             )}
+
+            {/* Operator actions */}
+            {parcel.onHold && (
+              <p className="text-amber-600 font-semibold">⏸ Arrêté sur place par l&apos;opérateur</p>
+            )}
+            {onControl && (
+              <div className="mt-2 pt-2 border-t border-gray-200">
+                <ParcelControls parcel={parcel} vehicle={vehicle} onControl={onControl} />
+              </div>
+            )}
           </div>
         </div>
       </Popup>
@@ -14,25 +14,40 @@ import {
   CheckCircle,
   Clock,
   MapPin,
+  XCircle,
+  Undo2,
+  Route,
+  RefreshCw,
+  Timer,
+  Ban,
+  Pause,
 } from 'lucide-react';
-import { SimulatedParcel } from '../../lib/type';
+import { SimulatedParcel, SimulatedVehicle } from '../../lib/type';
+import { RECALCULATION_STRATEGY_LABELS } from '../../lib/recalculation-policy';
+import { SERVICE_LEVEL_LABELS, isSlaAtRisk } from '../../lib/service-levels';
+import { ParcelControl } from '../../lib/parcel-controls';
+import ParcelControls from './ParcelControls';
 
 interface ParcelsListProps {
   parcels: Map<string, SimulatedParcel>;
+  vehicles: Map<string, SimulatedVehicle>;
   selectedParcelId: string | null;
   onParcelClick: (parcelId: string) => void;
+  onParcelControl: (control: ParcelControl, parcelId: string) => void;
 }
 
 export default function ParcelsList({
   parcels,
+  vehicles,
   selectedParcelId,
   onParcelClick,
+  onParcelControl,
 }: ParcelsListProps) {
   const parcelsArray = Array.from(parcels.values());
 
   // Sort: TRANSIT first, then INCIDENT, then PLANNED, then DELIVERED
   const sortedParcels = parcelsArray.sort((a, b) => {
-    const order = { TRANSIT: 0, INCIDENT: 1, PLANNED: 2, DELIVERED: 3, FAILED: 4 };
+    const order = { TRANSIT: 0, INCIDENT: 1, PLANNED: 2, DELIVERED: 3, FAILED: 4, CANCELLED: 5 };
     return order[a.state] - order[b.state];
   });
 
@@ -70,6 +85,22 @@ export default function ParcelsList({
           bgColor: 'bg-green-100',
           dotColor: 'bg-green-500',
         };
+      case 'FAILED':
+        return {
+          label: 'Échec de livraison',
+          icon: XCircle,
+          color: 'text-gray-700',
+          bgColor: 'bg-gray-200',
+          dotColor: 'bg-gray-600',
+        };
+      case 'CANCELLED':
+        return {
+          label: 'Annulé',
+          icon: Ban,
+          color: 'text-gray-500',
+          bgColor: 'bg-gray-100',
+          dotColor: 'bg-gray-400',
+        };
       default:
         return {
           label: state,
@@ -103,6 +134,10 @@ export default function ParcelsList({
         const config = getStateConfig(parcel.state);
         const Icon = config.icon;
         const isSelected = parcel.id === selectedParcelId;
+        const atRisk = isSlaAtRisk(parcel);
+        const slaBorder = parcel.slaBreached && parcel.state !== 'DELIVERED'
+          ? 'border-l-4 border-l-red-500'
+          : atRisk ? 'border-l-4 border-l-amber-400' : '';
 
         return (
           <Card
@@ -110,6 +145,7 @@ export default function ParcelsList({
             className={`
               p-3 cursor-pointer transition-all hover:shadow-md
               ${isSelected ? 'ring-2 ring-primary bg-primary-light/20' : 'hover:bg-gray-50'}
+              ${slaBorder}
             `}
             onClick={() => onParcelClick(parcel.id)}
           >
@@ -119,7 +155,7 @@ export default function ParcelsList({
                 <div className={`${config.bgColor} p-2 rounded-lg`}>
                   <Icon className={`w-4 h-4 ${config.color}`} />
                 </div>
-                {parcel.state === 'TRANSIT' && (
+                {parcel.state === 'TRANSIT' && !parcel.onHold && (
                   <div
                     className={`
                       absolute -top-0.5 -right-0.5 w-2.5 h-2.5 rounded-full
@@ -153,8 +189,113 @@ export default function ParcelsList({
                       {parcel.affectedByIncidents.length} incident(s)
                     </span>
                   )}
+                  {parcel.deliveryAttempts > 0 && (
+                    <span className="text-xs bg-orange-100 text-orange-700 px-1.5 py-0.5 rounded font-semibold">
+                      {parcel.deliveryAttempts}/{parcel.deliveryPolicy.maxAttempts} tentative(s)
+                    </span>
+                  )}
                 </div>
 
+                {/* Delivery deadline */}
+                {parcel.serviceLevel && parcel.deliveryDeadline && (
+                  <div
+                    className={`flex items-center gap-1 mb-1 text-xs ${
+                      parcel.slaBreached ? 'text-red-600' : atRisk ? 'text-amber-600' : 'text-gray-500'
+                    }`}
+                  >
+                    <Timer className="w-3 h-3" />
+                    <span>
+                      {SERVICE_LEVEL_LABELS[parcel.serviceLevel]} • avant{' '}
+                      {parcel.deliveryDeadline.toLocaleTimeString('fr-FR', {
+                        hour: '2-digit',
+                        minute: '2-digit',
+                      })}
+                      {parcel.slackMin !== null && parcel.state !== 'DELIVERED' && (
+                        parcel.slackMin >= 0
+                          ? ` • marge ${Math.round(parcel.slackMin)} min`
+                          : ` • retard prévu ${Math.round(-parcel.slackMin)} min`
+                      )}
+                      {parcel.state === 'DELIVERED' && (parcel.slaBreached ? ' • livré en retard' : ' • livré à temps')}
+                      {atRisk && ' • à risque'}
+                    </span>
+                  </div>
+                )}
+
+                {/* Delivery attempts */}
+                {parcel.nextAttemptAt && (
+                  <div className="flex items-center gap-1 mb-1 text-xs text-orange-700">
+                    <Clock className="w-3 h-3" />
+                    <span>
+                      Destinataire absent, nouvelle tentative à{' '}
+                      {parcel.nextAttemptAt.toLocaleTimeString('fr-FR', {
+                        hour: '2-digit',
+                        minute: '2-digit',
+                      })}
+                    </span>
+                  </div>
+                )}
+                {parcel.returningToHub && (
+                  <div className="flex items-center gap-1 mb-1 text-xs text-gray-700">
+                    <Undo2 className="w-3 h-3" />
+                    <span>Retour au hub d&apos;enlèvement</span>
+                  </div>
+                )}
+                {parcel.recalculationAttempts.some(a => a.error !== null) && (
+                  <div className="mb-1 text-[10px] text-gray-600 space-y-0.5">
+                    <div className="flex items-center gap-1 text-red-700">
+                      <RefreshCw className="w-3 h-3" />
+                      <span>
+                        Recalcul : {RECALCULATION_STRATEGY_LABELS[parcel.recalculationPolicy.strategy]}
+                        {parcel.pendingRecalculation?.retryAt && (
+                          <>
+                            {' '}• nouvel essai à{' '}
+                            {parcel.pendingRecalculation.retryAt.toLocaleTimeString('fr-FR', {
+                              hour: '2-digit',
+                              minute: '2-digit',
+                              second: '2-digit',
+                            })}
+                          </>
+                        )}
+                        {parcel.pendingRecalculation && !parcel.pendingRecalculation.retryAt && (
+                          ' • en attente de la levée de l\'incident'
+                        )}
+                      </span>
+                    </div>
+                    {parcel.recalculationAttempts.map((attempt, index) => (
+                      <p key={index} className="pl-4">
+                        {attempt.attemptedAt.toLocaleTimeString('fr-FR', {
+                          hour: '2-digit',
+                          minute: '2-digit',
+                          second: '2-digit',
+                        })}
+                        {' '}{attempt.algorithm ?? 'algorithme d\'origine'} :{' '}
+                        {attempt.error === null ? 'réussi' : 'échec'}
+                      </p>
+                    ))}
+                  </div>
+                )}
+                {parcel.detour && (
+                  <div className="flex items-center gap-1 mb-1 text-xs text-orange-700">
+                    <Route className="w-3 h-3" />
+                    <span>Déviation en cours</span>
+                  </div>
+                )}
+                {parcel.routeDecisions.length > 0 && (() => {
+                  const decision = parcel.routeDecisions[parcel.routeDecisions.length - 1];
+                  return (
+                    <p className="mb-1 text-[10px] text-gray-500">
+                      Incident levé :{' '}
+                      {decision.reverted
+                        ? 'retour à l\'itinéraire d\'origine'
+                        : decision.reason === 'BLOCKED'
+                          ? 'itinéraire d\'origine encore barré, déviation conservée'
+                          : 'déviation conservée (plus courte)'}
+                      {' '}({decision.candidateKm.toFixed(1)} km contre {decision.detourRemainingKm.toFixed(1)} km)
+                      {decision.reverted && parcel.route?.approximate && ', itinéraire approximatif'}
+                    </p>
+                  );
+                })()}
+
                 {/* Progress bar */}
                 {parcel.state === 'TRANSIT' && (
                   <div className="space-y-1">
@@ -187,6 +328,23 @@ export default function ParcelsList({
                   </div>
                 )}
 
+                {/* Held by the operator */}
+                {parcel.onHold && (
+                  <div className="flex items-center gap-1 mt-1 text-xs text-amber-600 font-medium">
+                    <Pause className="w-3 h-3" />
+                    <span>Arrêté sur place par l&apos;opérateur</span>
+                  </div>
+                )}
+
+                {/* Returned info */}
+                {parcel.state === 'FAILED' && (
+                  <p className="text-xs text-gray-700 font-medium mt-1">
+                    {parcel.deliveryAttempts > 0
+                      ? `↩ Revenu au hub après ${parcel.deliveryAttempts} tentative(s)`
+                      : '✕ Itinéraire impossible à recalculer'}
+                  </p>
+                )}
+
                 {/* Delivered info */}
                 {parcel.state === 'DELIVERED' && parcel.actualArrival && (
                   <p className="text-xs text-green-600 font-medium mt-1">
@@ -197,6 +355,17 @@ export default function ParcelsList({
                     })}
                   </p>
                 )}
+
+                {/* Operator actions on the selected parcel */}
+                {isSelected && (
+                  <div className="mt-2 pt-2 border-t border-gray-200">
+                    <ParcelControls
+                      parcel={parcel}
+                      vehicle={parcel.vehicleId ? vehicles.get(parcel.vehicleId) : null}
+                      onControl={onParcelControl}
+                    />
+                  </div>
+                )}
               </div>
             </div>
           </Card>
@@ -0,0 +1,82 @@
+/**
+ * Recalculation Policy Panel Component
+ * What parcels created next do when their route cannot be recalculated
+ */
+
+'use client';
+
+import React from 'react';
+import { Card } from '@/components/ui/Card';
+import { RecalculationPolicy, RecalculationStrategy } from '@/lib/type';
+import { RECALCULATION_STRATEGY_LABELS } from '@/lib/recalculation-policy';
+
+interface RecalculationPolicyPanelProps {
+  policy: RecalculationPolicy;
+  onPolicyChange: (policy: RecalculationPolicy) => void;
+}
+
+const inputClass = 'w-full px-2 py-1 border border-outline rounded text-xs bg-white';
+
+export default function RecalculationPolicyPanel({
+  policy,
+  onPolicyChange,
+}: RecalculationPolicyPanelProps) {
+  const retries = policy.strategy === 'RETRY_BACKOFF' || policy.strategy === 'SWITCH_ALGORITHM';
+
+  return (
+    <Card className="p-3 space-y-2">
+      <select
+        className={inputClass}
+        value={policy.strategy}
+        onChange={(e) => onPolicyChange({ ...policy, strategy: e.target.value as RecalculationStrategy })}
+      >
+        {(Object.keys(RECALCULATION_STRATEGY_LABELS) as RecalculationStrategy[]).map(strategy => (
+          <option key={strategy} value={strategy}>
+            {RECALCULATION_STRATEGY_LABELS[strategy]}
+          </option>
+        ))}
+      </select>
+
+      {retries && (
+        <div className="grid grid-cols-3 gap-2">
+          <label className="text-[10px] font-semibold text-gray-600 uppercase space-y-1">
+            <span>Essais</span>
+            <input
+              type="number"
+              min={0}
+              className={inputClass}
+              value={policy.maxRetries}
+              onChange={(e) => onPolicyChange({ ...policy, maxRetries: Math.max(Number(e.target.value), 0) })}
+            />
+          </label>
+          <label className="text-[10px] font-semibold text-gray-600 uppercase space-y-1">
+            <span>Délai (s)</span>
+            <input
+              type="number"
+              min={0}
+              className={inputClass}
+              value={policy.initialDelaySec}
+              onChange={(e) => onPolicyChange({ ...policy, initialDelaySec: Math.max(Number(e.target.value), 0) })}
+            />
+          </label>
+          <label className="text-[10px] font-semibold text-gray-600 uppercase space-y-1">
+            <span>Facteur</span>
+            <input
+              type="number"
+              min={1}
+              step={0.5}
+              className={inputClass}
+              value={policy.backoffFactor}
+              onChange={(e) => onPolicyChange({ ...policy, backoffFactor: Math.max(Number(e.target.value), 1) })}
+            />
+          </label>
+        </div>
+      )}
+
+      <p className="text-[10px] text-gray-500">
+        Appliqué aux colis créés ensuite
+        {policy.strategy === 'SWITCH_ALGORITHM' && ` • Algorithmes : ${policy.algorithms.join(', ')}`}
+      </p>
+    </Card>
+  );
+}
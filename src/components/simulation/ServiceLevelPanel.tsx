@@ -0,0 +1,46 @@
+/**
+ * Service Level Panel Component
+ * Promised delivery durations of each service level, for the parcels created next
+ */
+
+'use client';
+
+import React from 'react';
+import { Card } from '@/components/ui/Card';
+import { ServiceLevel, ServiceLevelDurations } from '@/lib/type';
+import { AT_RISK_SLACK_MIN, SERVICE_LEVEL_LABELS } from '@/lib/service-levels';
+
+interface ServiceLevelPanelProps {
+  durations: ServiceLevelDurations;
+  onDurationsChange: (durations: ServiceLevelDurations) => void;
+}
+
+export default function ServiceLevelPanel({
+  durations,
+  onDurationsChange,
+}: ServiceLevelPanelProps) {
+  return (
+    <Card className="p-3">
+      <div className="grid grid-cols-3 gap-2">
+        {(Object.keys(SERVICE_LEVEL_LABELS) as ServiceLevel[]).map(level => (
+          <label key={level} className="text-[10px] font-semibold text-gray-600 uppercase space-y-1">
+            <span>{SERVICE_LEVEL_LABELS[level]} (min)</span>
+            <input
+              type="number"
+              min={1}
+              className="w-full px-2 py-1 border border-outline rounded text-xs bg-white"
+              value={durations[level]}
+              onChange={(e) => onDurationsChange({
+                ...durations,
+                [level]: Math.max(Number(e.target.value), 1),
+              })}
+            />
+          </label>
+        ))}
+      </div>
+      <p className="text-[10px] text-gray-500 mt-2">
+        Appliqué aux colis créés ensuite • À risque sous {AT_RISK_SLACK_MIN} min de marge
+      </p>
+    </Card>
+  );
+}
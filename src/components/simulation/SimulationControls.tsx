@@ -7,15 +7,20 @@
 
 import React from 'react';
 import { Button } from '@/components/ui/Button';
-import { Play, Pause, Zap } from 'lucide-react';
-import { SimulationStats } from '../../lib/type';
+import { Play, Pause, Zap, StepForward, SkipForward, Clock } from 'lucide-react';
+import { ScheduledEvent, SimulationStats } from '../../lib/type';
+import { MAX_SPEED_MULTIPLIER, MIN_SPEED_MULTIPLIER } from '../../lib/simulation-clock';
 
 interface SimulationControlsProps {
   isPlaying: boolean;
   speed: number;
+  simulatedTime: Date;
   stats: SimulationStats;
+  nextEvent: ScheduledEvent | null;
   onPlay: () => void;
   onPause: () => void;
+  onStep: () => void;
+  onJumpToNextEvent: () => void;
   onSpeedChange: (speed: number) => void;
 }
 
@@ -29,9 +34,13 @@ const SPEED_OPTIONS = [
 export default function SimulationControls({
   isPlaying,
   speed,
+  simulatedTime,
   stats,
+  nextEvent,
   onPlay,
   onPause,
+  onStep,
+  onJumpToNextEvent,
   onSpeedChange,
 }: SimulationControlsProps) {
   return (
@@ -57,6 +66,28 @@ export default function SimulationControls({
           )}
         </Button>
 
+        {/* Single tick (paused only) */}
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={onStep}
+          disabled={isPlaying}
+          title="Avancer d'un pas"
+        >
+          <StepForward className="w-4 h-4" />
+        </Button>
+
+        {/* Fast-forward to the next event (paused only) */}
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={onJumpToNextEvent}
+          disabled={isPlaying || !nextEvent}
+          title="Aller au prochain événement"
+        >
+          <SkipForward className="w-4 h-4" />
+        </Button>
+
         {/* Speed Control */}
         <div className="flex items-center gap-1.5">
           <Zap className="w-4 h-4 text-gray-400" />
@@ -76,9 +107,48 @@ export default function SimulationControls({
               {option.icon}
             </button>
           ))}
+          {/* Any other multiplier */}
+          <input
+            type="number"
+            min={MIN_SPEED_MULTIPLIER}
+            max={MAX_SPEED_MULTIPLIER}
+            step="any"
+            className="w-14 px-1.5 py-1 border border-outline rounded-md text-xs bg-white"
+            value={speed}
+            onChange={(e) => {
+              const value = Number(e.target.value);
+              if (value > 0) onSpeedChange(value);
+            }}
+            title="Multiplicateur libre"
+          />
         </div>
       </div>
 
+      {/* Simulated Clock */}
+      <div className="flex items-center justify-center gap-2 text-sm text-gray-600">
+        <Clock className="w-4 h-4 text-gray-400" />
+        <span className="font-mono font-semibold">
+          {simulatedTime.toLocaleTimeString('fr-FR', {
+            hour: '2-digit',
+            minute: '2-digit',
+            second: '2-digit',
+          })}
+        </span>
+        <span className="text-[10px] text-gray-400 uppercase">temps simulé</span>
+      </div>
+
+      {/* Next scheduled event (known while paused) */}
+      {!isPlaying && (
+        <p className="text-[11px] text-center text-gray-500 truncate">
+          {nextEvent
+            ? `Prochain : ${nextEvent.label} à ${new Date(nextEvent.time).toLocaleTimeString('fr-FR', {
+              hour: '2-digit',
+              minute: '2-digit',
+            })} (dans ${formatDelay(nextEvent.time - simulatedTime.getTime())})`
+            : 'Aucun événement programmé'}
+        </p>
+      )}
+
       {/* Stats Grid */}
       <div className="grid grid-cols-3 gap-3">
         <StatCard
@@ -115,6 +185,18 @@ export default function SimulationControls({
             {stats.averageSpeed.toFixed(0)} km/h
           </p>
         </div>
+        <div className="text-xs">
+          <p className="text-gray-500 mb-0.5">Délais tenus</p>
+          <p className="font-bold text-sm">
+            {stats.slaComplianceRate === null ? '-' : `${Math.round(stats.slaComplianceRate * 100)} %`}
+          </p>
+        </div>
+        <div className="text-xs">
+          <p className="text-gray-500 mb-0.5">Coût d&apos;exploitation</p>
+          <p className="font-bold text-sm">
+            {Math.round(stats.operatingCost).toLocaleString('fr-FR')} FCFA
+          </p>
+        </div>
       </div>
 
       {/* Status Indicator */}
@@ -128,7 +210,7 @@ export default function SimulationControls({
         <span className="text-xs font-medium text-gray-600">
           {isPlaying ? 'Simulation active' : 'Simulation en pause'}
         </span>
-        {speed > 1 && isPlaying && (
+        {speed !== 1 && isPlaying && (
           <span className="text-xs font-bold text-primary">
             {speed}x
           </span>
@@ -138,6 +220,19 @@ export default function SimulationControls({
   );
 }
 
+/**
+ * Simulated delay as "45 s", "12 min" or "2 h 05"
+ */
+function formatDelay(ms: number): string {
+  const seconds = Math.max(Math.round(ms / 1000), 0);
+  if (seconds < 60) return `${seconds} s`;
+
+  const minutes = Math.round(seconds / 60);
+  if (minutes < 60) return `${minutes} min`;
+
+  return `${Math.floor(minutes / 60)} h ${String(minutes % 60).padStart(2, '0')}`;
+}
+
 interface StatCardProps {
   label: string;
   value: number;
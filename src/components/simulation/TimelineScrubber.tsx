@@ -0,0 +1,122 @@
+/**
+ * Timeline Scrubber Component
+ * Replay the scenario journal: rewind, jump to any moment, play again
+ */
+
+'use client';
+
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/Button';
+import { Rewind, History } from 'lucide-react';
+import { JournalMarker, SimulationAction } from '@/lib/type';
+
+interface TimelineScrubberProps {
+  originTime: number;
+  horizonTime: number;
+  currentTime: number;
+  tickMs: number;
+  journal: JournalMarker[];
+  isReplaying: boolean;
+  onSeek: (time: number) => void;
+  onRewind: () => void;
+}
+
+const ACTION_MARKERS: Partial<Record<SimulationAction['type'], { label: string; color: string }>> = {
+  ADD_PARCEL: { label: 'Colis ajouté', color: 'bg-primary' },
+  UPDATE_PARCEL: { label: 'Colis modifié', color: 'bg-gray-400' },
+  REROUTE_PARCEL: { label: 'Itinéraire recalculé', color: 'bg-blue-500' },
+  REMOVE_PARCEL: { label: 'Colis retiré', color: 'bg-gray-600' },
+  ADD_INCIDENT: { label: 'Incident créé', color: 'bg-red-600' },
+  RESOLVE_INCIDENT: { label: 'Incident résolu', color: 'bg-green-600' },
+  SET_SPEED: { label: 'Vitesse modifiée', color: 'bg-purple-500' },
+};
+
+const formatTime = (time: number) =>
+  new Date(time).toLocaleTimeString('fr-FR', {
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  });
+
+export default function TimelineScrubber({
+  originTime,
+  horizonTime,
+  currentTime,
+  tickMs,
+  journal,
+  isReplaying,
+  onSeek,
+  onRewind,
+}: TimelineScrubberProps) {
+  // Position being dragged (seeking replays the journal, so only on release)
+  const [draftTime, setDraftTime] = useState<number | null>(null);
+
+  const duration = Math.max(horizonTime - originTime, tickMs);
+  const displayedTime = draftTime ?? currentTime;
+
+  const commitSeek = () => {
+    if (draftTime === null) return;
+    onSeek(draftTime);
+    setDraftTime(null);
+  };
+
+  return (
+    <div className="bg-white rounded-xl border border-outline elevation-2 p-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <span className="text-xs font-semibold text-gray-600 uppercase flex items-center gap-1.5">
+          <History className="w-3 h-3" />
+          Chronologie ({journal.length})
+        </span>
+        {isReplaying && (
+          <span className="text-[10px] font-bold bg-purple-100 text-purple-600 px-2 py-0.5 rounded">
+            RELECTURE
+          </span>
+        )}
+      </div>
+
+      {/* Journal markers */}
+      <div className="relative h-2">
+        {journal.map((entry, index) => {
+          const marker = ACTION_MARKERS[entry.type];
+          if (!marker) return null;
+
+          return (
+            <div
+              key={index}
+              className={`absolute top-0 w-1.5 h-2 rounded-sm -translate-x-1/2 ${marker.color}`}
+              style={{ left: `${((entry.simTime - originTime) / duration) * 100}%` }}
+              title={`${formatTime(entry.simTime)} • ${marker.label}`}
+            />
+          );
+        })}
+      </div>
+
+      <input
+        type="range"
+        className="w-full accent-primary"
+        min={0}
+        max={duration}
+        step={tickMs}
+        value={Math.min(displayedTime - originTime, duration)}
+        onChange={(e) => setDraftTime(originTime + Number(e.target.value))}
+        onPointerUp={commitSeek}
+        onKeyUp={commitSeek}
+      />
+
+      <div className="flex items-center justify-between gap-2">
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={onRewind}
+          disabled={journal.length === 0}
+          title="Revenir au début"
+        >
+          <Rewind className="w-4 h-4" />
+        </Button>
+        <span className="font-mono text-xs text-gray-600">
+          {formatTime(displayedTime)} / {formatTime(horizonTime)}
+        </span>
+      </div>
+    </div>
+  );
+}
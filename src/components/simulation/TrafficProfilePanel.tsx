@@ -0,0 +1,117 @@
+/**
+ * Traffic Profile Panel Component
+ * Hourly congestion curves of the city and of its bottleneck zones
+ */
+
+'use client';
+
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/Button';
+import { Card } from '@/components/ui/Card';
+import { HourlyCurve, TrafficProfile } from '@/lib/type';
+import { DOUALA_TRAFFIC_PROFILE, curveFactorAt, localHour } from '@/lib/traffic-profiles';
+
+interface TrafficProfilePanelProps {
+  profile: TrafficProfile;
+  currentTime: number;
+  onProfileChange: (profile: TrafficProfile) => void;
+}
+
+const GLOBAL_CURVE = 'global';
+const CHART_HEIGHT = 40;
+
+export default function TrafficProfilePanel({
+  profile,
+  currentTime,
+  onProfileChange,
+}: TrafficProfilePanelProps) {
+  const [selected, setSelected] = useState(GLOBAL_CURVE);
+
+  const zone = profile.zones.find(z => z.id === selected);
+  const curve = zone ? zone.curve : profile.global;
+  const currentHour = Math.floor(localHour(currentTime));
+
+  const setCurve = (next: HourlyCurve) => onProfileChange(
+    zone
+      ? { ...profile, zones: profile.zones.map(z => (z.id === zone.id ? { ...z, curve: next } : z)) }
+      : { ...profile, global: next }
+  );
+
+  const setHour = (hour: number, value: number) => setCurve(
+    curve.map((factor, h) => (h === hour ? Math.min(Math.max(value, 0.1), 1) : factor))
+  );
+
+  return (
+    <Card className="p-3 space-y-2">
+      <label className="flex items-center gap-2 text-xs text-gray-700">
+        <input
+          type="checkbox"
+          checked={profile.enabled}
+          onChange={(e) => onProfileChange({ ...profile, enabled: e.target.checked })}
+        />
+        Congestion selon l&apos;heure simulée
+      </label>
+
+      <select
+        className="w-full px-2 py-1 border border-outline rounded text-xs bg-white"
+        value={selected}
+        onChange={(e) => setSelected(e.target.value)}
+      >
+        <option value={GLOBAL_CURVE}>Toute la ville</option>
+        {profile.zones.map(z => (
+          <option key={z.id} value={z.id}>
+            {z.name} ({(z.radiusM / 1000).toFixed(1)} km)
+          </option>
+        ))}
+      </select>
+
+      {/* Speed factor by hour, current hour highlighted */}
+      <svg viewBox={`0 0 240 ${CHART_HEIGHT}`} className="w-full h-10 bg-gray-50 rounded" preserveAspectRatio="none">
+        {curve.map((factor, hour) => (
+          <rect
+            key={hour}
+            x={hour * 10 + 1}
+            y={CHART_HEIGHT - factor * CHART_HEIGHT}
+            width={8}
+            height={factor * CHART_HEIGHT}
+            className={hour === currentHour ? 'fill-primary' : 'fill-gray-300'}
+          />
+        ))}
+      </svg>
+
+      <div className="grid grid-cols-6 gap-1">
+        {curve.map((factor, hour) => (
+          <label key={hour} className="text-[9px] text-gray-500 text-center">
+            <span>{hour} h</span>
+            <input
+              type="number"
+              min={0.1}
+              max={1}
+              step={0.05}
+              disabled={!profile.enabled}
+              className="w-full px-1 py-0.5 border border-outline rounded text-[10px] bg-white"
+              value={factor}
+              onChange={(e) => setHour(hour, Number(e.target.value))}
+            />
+          </label>
+        ))}
+      </div>
+
+      <div className="flex items-center justify-between gap-2">
+        <p className="text-[10px] text-gray-500">
+          {profile.enabled
+            ? `Maintenant : vitesse x${curveFactorAt(curve, currentTime).toFixed(2)}`
+            : 'Vitesse constante'}
+        </p>
+        <Button
+          size="sm"
+          variant="outline"
+          className="text-xs"
+          onClick={() => onProfileChange(DOUALA_TRAFFIC_PROFILE)}
+        >
+          Profil de Douala
+        </Button>
+      </div>
+    </Card>
+  );
+}
@@ -0,0 +1,158 @@
+/**
+ * Vehicle Marker Component
+ * One marker per tour vehicle, with the number of parcels on board
+ */
+
+'use client';
+
+import React from 'react';
+import { Marker, Popup, Tooltip } from 'react-leaflet';
+import L from 'leaflet';
+import { SimulatedParcel, SimulatedVehicle, VehicleState } from '@/lib/type';
+import { Truck, Package, Clock } from 'lucide-react';
+
+interface VehicleMarkerProps {
+  vehicle: SimulatedVehicle;
+  parcels: Map<string, SimulatedParcel>;
+}
+
+const getVehicleColor = (state: VehicleState) => {
+  switch (state) {
+    case 'LOADING': return '#9E9E9E'; // grey
+    case 'INCIDENT': return '#F44336'; // red
+    case 'COMPLETED': return '#4CAF50'; // green
+    default: return '#1976D2'; // blue
+  }
+};
+
+// Truck icon with a load badge
+const createVehicleIcon = (state: VehicleState, load: number) => {
+  const color = getVehicleColor(state);
+
+  return L.divIcon({
+    className: 'custom-vehicle-marker',
+    html: `
+      <div style="
+        background-color: ${color};
+        width: 38px;
+        height: 38px;
+        border-radius: 8px;
+        border: 3px solid white;
+        box-shadow: 0 2px 8px rgba(0,0,0,0.3);
+        display: flex;
+        align-items: center;
+        justify-content: center;
+        position: relative;
+      ">
+        <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="white" stroke-width="2">
+          <path d="M1 3h15v13H1z"></path>
+          <path d="M16 8h4l3 3v5h-7V8z"></path>
+          <circle cx="5.5" cy="18.5" r="2.5"></circle>
+          <circle cx="18.5" cy="18.5" r="2.5"></circle>
+        </svg>
+        ${load > 0 ? `
+          <div style="
+            position: absolute;
+            top: -8px;
+            right: -8px;
+            min-width: 18px;
+            height: 18px;
+            padding: 0 4px;
+            background: #FF9800;
+            color: white;
+            border: 2px solid white;
+            border-radius: 9px;
+            font-size: 10px;
+            font-weight: bold;
+            line-height: 14px;
+            text-align: center;
+          ">${load}</div>
+        ` : ''}
+      </div>
+    `,
+    iconSize: [38, 38],
+    iconAnchor: [19, 19],
+    popupAnchor: [0, -19],
+  });
+};
+
+export default function VehicleMarker({ vehicle, parcels }: VehicleMarkerProps) {
+  const icon = createVehicleIcon(vehicle.state, vehicle.load.length);
+  const nextStop = vehicle.stops[vehicle.nextStopIndex];
+
+  return (
+    <Marker
+      position={[vehicle.currentPosition.lat, vehicle.currentPosition.lng]}
+      icon={icon}
+    >
+      {/* Tooltip on hover */}
+      <Tooltip direction="top" offset={[0, -12]} opacity={0.9}>
+        <div className="text-xs font-medium">
+          🚚 {vehicle.driverName} • {vehicle.load.length} colis
+        </div>
+      </Tooltip>
+
+      {/* Popup on click */}
+      <Popup>
+        <div className="min-w-[200px] p-2">
+          {/* Header */}
+          <div className="flex items-center gap-2 mb-3 pb-2 border-b border-gray-200">
+            <div className="bg-primary/10 p-1.5 rounded">
+              <Truck className="w-4 h-4 text-primary" />
+            </div>
+            <div>
+              <p className="font-bold text-sm">{vehicle.driverName}</p>
+              <p className="text-xs text-gray-600">
+                Arrêt {Math.min(vehicle.nextStopIndex + 1, vehicle.stops.length)}/{vehicle.stops.length}
+              </p>
+            </div>
+          </div>
+
+          <div className="space-y-2 text-xs">
+            {/* Load */}
+            <div>
+              <p className="text-gray-600 mb-1">À bord</p>
+              {vehicle.load.length === 0 ? (
+                <p className="text-gray-400 italic">Vide</p>
+              ) : (
+                vehicle.load.map(parcelId => (
+                  <div key={parcelId} className="flex items-center gap-2">
+                    <Package className="w-3 h-3 text-gray-400" />
+                    <span className="font-semibold">
+                      {parcels.get(parcelId)?.trackingCode ?? parcelId}
+                    </span>
+                  </div>
+                ))
+              )}
+            </div>
+
+            {/* Next stop */}
+            {nextStop && vehicle.state !== 'COMPLETED' && (
+              <div className="flex items-center gap-2">
+                <Clock className="w-3 h-3 text-gray-400" />
+                <span className="text-gray-600">Prochain arrêt:</span>
+                <span className="font-semibold">
+                  {nextStop.type === 'PICKUP' ? 'Enlèvement' : 'Livraison'}{' '}
+                  {parcels.get(nextStop.parcelId)?.trackingCode}
+                </span>
+              </div>
+            )}
+
+            {/* Speed */}
+            {vehicle.state === 'EN_ROUTE' && (
+              <div className="flex items-center gap-2">
+                <span className="text-gray-600">Vitesse:</span>
+                <span className="font-semibold">
+                  {Math.round(vehicle.speed * vehicle.speedFactor)} km/h
+                </span>
+                {vehicle.speedFactor < 1 && (
+                  <span className="text-orange-600 font-semibold">(ralenti)</span>
+                )}
+              </div>
+            )}
+          </div>
+        </div>
+      </Popup>
+    </Marker>
+  );
+}
@@ -0,0 +1,132 @@
+/**
+ * Vehicle Panel Component
+ * Drivers' tours: stops, load and departure
+ */
+
+'use client';
+
+import React from 'react';
+import { Button } from '@/components/ui/Button';
+import { Card } from '@/components/ui/Card';
+import { Truck, Play, CheckCircle, Circle, ArrowUp, ArrowDown } from 'lucide-react';
+import {
+  GeoPointResponse,
+  SimulatedParcel,
+  SimulatedVehicle,
+  VehicleState,
+} from '@/lib/type';
+import { VEHICLE_CATALOG } from '@/lib/vehicle-catalog';
+
+interface VehiclePanelProps {
+  vehicles: Map<string, SimulatedVehicle>;
+  parcels: Map<string, SimulatedParcel>;
+  hubs: GeoPointResponse[];
+  onDispatch: (vehicleId: string) => void;
+}
+
+const STATE_CONFIG: Record<VehicleState, { label: string; color: string }> = {
+  LOADING: { label: 'En chargement', color: 'text-gray-500' },
+  EN_ROUTE: { label: 'En tournée', color: 'text-primary' },
+  INCIDENT: { label: 'Bloqué', color: 'text-red-600' },
+  COMPLETED: { label: 'Terminée', color: 'text-green-600' },
+};
+
+export default function VehiclePanel({
+  vehicles,
+  parcels,
+  hubs,
+  onDispatch,
+}: VehiclePanelProps) {
+  const vehiclesArray = Array.from(vehicles.values());
+
+  if (vehiclesArray.length === 0) {
+    return (
+      <Card className="p-4 bg-gray-50">
+        <p className="text-xs text-gray-500 text-center italic">
+          Aucune tournée : les colis créés rejoignent la tournée de leur livreur
+        </p>
+      </Card>
+    );
+  }
+
+  const hubLabel = (hubId: string) => hubs.find(h => h.id === hubId)?.address ?? hubId;
+
+  return (
+    <div className="space-y-2">
+      {vehiclesArray.map((vehicle) => {
+        const config = STATE_CONFIG[vehicle.state];
+        const pickups = vehicle.stops.filter(s => s.type === 'PICKUP');
+        const parcelCount = pickups.length;
+        const profile = VEHICLE_CATALOG[vehicle.vehicleType];
+        const tourWeightKg = pickups.reduce(
+          (sum, stop) => sum + (parcels.get(stop.parcelId)?.parcelData.weightKg ?? 0),
+          0
+        );
+
+        return (
+          <Card key={vehicle.id} className="p-3">
+            <div className="flex items-center gap-3 mb-2">
+              <div className="bg-primary/10 p-2 rounded-lg">
+                <Truck className="w-4 h-4 text-primary" />
+              </div>
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-semibold text-gray-900 truncate">
+                  {vehicle.driverName}
+                </p>
+                <p className={`text-xs font-medium ${config.color}`}>
+                  {config.label}
+                  {' • '}
+                  {vehicle.state === 'LOADING'
+                    ? `${parcelCount} colis`
+                    : `${vehicle.load.length} à bord`}
+                </p>
+                <p className={`text-[10px] ${tourWeightKg > profile.capacityKg ? 'text-red-600' : 'text-gray-500'}`}>
+                  {profile.label} • {tourWeightKg.toFixed(1)} / {profile.capacityKg} kg
+                </p>
+              </div>
+            </div>
+
+            {/* Ordered stops */}
+            <ol className="space-y-1 text-xs">
+              {vehicle.stops.map((stop, index) => {
+                const isNext = vehicle.state !== 'LOADING' && index === vehicle.nextStopIndex;
+                const StopIcon = stop.type === 'PICKUP' ? ArrowUp : ArrowDown;
+
+                return (
+                  <li
+                    key={`${stop.type}-${stop.parcelId}`}
+                    className={`flex items-center gap-2 ${isNext ? 'font-semibold text-gray-900' : 'text-gray-500'}`}
+                  >
+                    {stop.visitedAt ? (
+                      <CheckCircle className="w-3 h-3 text-green-600 flex-shrink-0" />
+                    ) : (
+                      <Circle className="w-3 h-3 flex-shrink-0" />
+                    )}
+                    <StopIcon className={`w-3 h-3 flex-shrink-0 ${stop.type === 'PICKUP' ? 'text-blue-500' : 'text-green-600'}`} />
+                    <span className="truncate">
+                      {parcels.get(stop.parcelId)?.trackingCode ?? stop.parcelId}
+                      {' — '}
+                      {hubLabel(stop.hubId)}
+                    </span>
+                  </li>
+                );
+              })}
+            </ol>
+
+            {vehicle.state === 'LOADING' && (
+              <Button
+                size="sm"
+                onClick={() => onDispatch(vehicle.id)}
+                disabled={vehicle.stops.length === 0}
+                className="w-full mt-3 text-xs"
+              >
+                <Play className="w-3 h-3 mr-1" />
+                Départ de la tournée
+              </Button>
+            )}
+          </Card>
+        );
+      })}
+    </div>
+  );
+}
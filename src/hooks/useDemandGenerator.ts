@@ -0,0 +1,176 @@
+/**
+ * useDemandGenerator Hook
+ * Creates parcels from the stochastic demand model as simulated time passes
+ */
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { GeoPointResponse, ParcelResponse, RouteResponse, VehicleType } from '@/lib/type';
+import {
+  DEFAULT_WEIGHT_DISTRIBUTION,
+  DemandArrival,
+  DemandGeneratorState,
+  DemandModel,
+  createDemandGenerator,
+  createLocalParcel,
+  createLocalRoute,
+  drawArrivals,
+} from '@/lib/demand-generator';
+import { DriverResponse, LogisticsService } from '@/lib/api-client';
+import { DEFAULT_VEHICLE_TYPE, driverVehicleType } from '@/lib/vehicle-catalog';
+import { toast } from 'react-hot-toast';
+
+// BACKEND : colis et itinéraires créés par l'API ; LOCAL : sans backend (ligne droite)
+export type DemandRouting = 'BACKEND' | 'LOCAL';
+
+export const DEFAULT_HUB_RATE_PER_HOUR = 2;
+
+const hubPointWKT = (hub: GeoPointResponse) => `POINT(${hub.longitude} ${hub.latitude})`;
+
+export function useDemandGenerator(
+  hubs: GeoPointResponse[],
+  currentTime: number,
+  onParcelCreated: (parcel: ParcelResponse, route: RouteResponse | null, vehicleType: VehicleType) => void
+) {
+  const [model, setModel] = useState<DemandModel>({
+    hubs: [],
+    weightDistribution: DEFAULT_WEIGHT_DISTRIBUTION,
+    seed: 1,
+  });
+  const [routing, setRouting] = useState<DemandRouting>('LOCAL');
+  const [isRunning, setIsRunning] = useState(false);
+  const [generatedCount, setGeneratedCount] = useState(0);
+
+  const generatorRef = useRef<DemandGeneratorState | null>(null);
+  const runningModelRef = useRef<DemandModel>(model);
+  const driversRef = useRef<DriverResponse[]>([]);
+  const arrivalHandlerRef = useRef<(arrivals: DemandArrival[]) => void>(() => {});
+
+  // Hubs without an explicit rate use the default one
+  const getHubRate = useCallback(
+    (hubId: string) => model.hubs.find(h => h.hubId === hubId)?.ratePerHour ?? DEFAULT_HUB_RATE_PER_HOUR,
+    [model.hubs]
+  );
+
+  const setHubRate = useCallback((hubId: string, ratePerHour: number) => {
+    setModel(prev => ({
+      ...prev,
+      hubs: [...prev.hubs.filter(h => h.hubId !== hubId), { hubId, ratePerHour }],
+    }));
+  }, []);
+
+  /**
+   * Create one generated parcel, through the backend or locally
+   */
+  const createDemandParcel = async (arrival: DemandArrival) => {
+    const origin = hubs.find(h => h.id === arrival.originHubId);
+    const destination = hubs.find(h => h.id === arrival.destinationHubId);
+    if (!origin || !destination) return;
+
+    if (routing === 'LOCAL') {
+      const parcel = createLocalParcel(arrival);
+      onParcelCreated(parcel, createLocalRoute(`route-${parcel.id}`, origin, destination), DEFAULT_VEHICLE_TYPE);
+      return;
+    }
+
+    try {
+      const parcel = await LogisticsService.createParcel({
+        senderName: 'Demande simulée',
+        senderPhone: '+237600000000',
+        recipientName: 'Demande simulée',
+        recipientPhone: '+237600000000',
+        pickupLocation: hubPointWKT(origin),
+        deliveryLocation: hubPointWKT(destination),
+        weightKg: arrival.weightKg,
+        notes: `Demande générée #${arrival.sequence}`,
+      });
+
+      const drivers = driversRef.current;
+      const driver = drivers.length > 0 ? drivers[arrival.sequence % drivers.length] : null;
+      const vehicleType = driver ? driverVehicleType(driver) : DEFAULT_VEHICLE_TYPE;
+      let route: RouteResponse | null = null;
+      try {
+        route = await LogisticsService.calculateRoute({
+          parcelId: parcel.id,
+          startHubId: origin.id,
+          endHubId: destination.id,
+          driverId: driver?.id ?? '',
+          constraints: { algorithm: 'OSRM', vehicleType },
+        });
+      } catch (error) {
+        console.warn('Generated parcel without route:', parcel.id, error);
+      }
+
+      onParcelCreated(parcel, route, vehicleType);
+    } catch (error) {
+      console.error('Generated parcel creation failed:', error);
+    }
+  };
+
+  useEffect(() => {
+    arrivalHandlerRef.current = (arrivals: DemandArrival[]) => {
+      setGeneratedCount(count => count + arrivals.length);
+      arrivals.forEach(arrival => createDemandParcel(arrival));
+    };
+  });
+
+  // Draw the arrivals reached by the simulated clock
+  useEffect(() => {
+    const generator = generatorRef.current;
+    if (!isRunning || !generator) return;
+
+    const { generator: next, arrivals } = drawArrivals(runningModelRef.current, generator, currentTime);
+    generatorRef.current = next;
+    if (arrivals.length > 0) {
+      arrivalHandlerRef.current(arrivals);
+    }
+  }, [isRunning, currentTime]);
+
+  const start = useCallback(async () => {
+    if (hubs.length < 2) {
+      toast.error('Au moins deux hubs sont nécessaires');
+      return;
+    }
+
+    if (routing === 'BACKEND') {
+      try {
+        driversRef.current = await LogisticsService.getAllDrivers();
+      } catch (error) {
+        console.error('Error loading drivers:', error);
+        driversRef.current = [];
+      }
+    }
+
+    const runningModel = {
+      ...model,
+      hubs: hubs.map(h => ({ hubId: h.id, ratePerHour: getHubRate(h.id) })),
+    };
+    runningModelRef.current = runningModel;
+
+    // Sequence numbers continue across runs so generated ids stay unique
+    generatorRef.current = {
+      ...createDemandGenerator(runningModel, currentTime),
+      generated: generatorRef.current?.generated ?? 0,
+    };
+    setIsRunning(true);
+    toast.success('Génération de la demande démarrée');
+  }, [hubs, routing, model, getHubRate, currentTime]);
+
+  const stop = useCallback(() => {
+    setIsRunning(false);
+  }, []);
+
+  return {
+    model,
+    routing,
+    isRunning,
+    generatedCount,
+    actions: {
+      setModel,
+      setRouting,
+      getHubRate,
+      setHubRate,
+      start,
+      stop,
+    },
+  };
+}
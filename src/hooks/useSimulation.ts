@@ -5,219 +5,419 @@
 
 import { useReducer, useEffect, useCallback, useRef } from 'react';
 import {
-  SimulationState,
   SimulatedParcel,
+  SimulatedVehicle,
   Incident,
-  GeoPointResponse,
   ParcelResponse,
   RouteResponse,
   Position,
   IncidentType,
+  IncidentShape,
+  IncidentZone,
+  IncidentSchedule,
+  DeliveryPolicy,
+  RecalculationPolicy,
+  ServiceLevel,
+  ServiceLevelDurations,
+  SimulationAction,
+  SimulationEvent,
+  TourAssignment,
+  TourStop,
+  TrafficProfile,
+  VehicleType,
 } from '@/lib/type';
 import { SimulationEngine } from '@/lib/simulation-engine';
-import { parseWKTLineString } from '@/lib/wkt-parser';
-import { LogisticsService, PetriNetService } from '@/lib/api-client';
+import { clockDate } from '@/lib/simulation-clock';
+import { createInitialSimulationView, simulationViewReducer } from '@/lib/simulation-view';
+import { incidentOutline } from '@/lib/incident-effects';
+import { resolveIncidentSchedule } from '@/lib/incident-schedule';
+import { createReturnRoute } from '@/lib/delivery-attempts';
+import { createRejoinRoute } from '@/lib/route-restoration';
+import {
+  RECALCULATION_STRATEGY_LABELS,
+  nextRecalculationAlgorithm,
+  recalculationFailureOutcome,
+} from '@/lib/recalculation-policy';
+import { withServiceLevel } from '@/lib/service-levels';
+import { DEFAULT_VEHICLE_TYPE, VEHICLE_CATALOG, exceedsCapacity } from '@/lib/vehicle-catalog';
+import { cancellationTransitions, cancellationUpdates, findLocationHub, withdrawFromTour } from '@/lib/parcel-controls';
+import {
+  TourLeg,
+  createLoadingVehicle,
+  createTourParcel,
+  getTourParcels,
+  planTourStops,
+  setPlannedStops,
+  startTour,
+  tourLoadKg,
+} from '@/lib/vehicle-tours';
+import { WorkerCommand, WorkerMessage } from '@/workers/simulation-protocol';
+import { stringifyWKT } from '@/lib/wkt-parser';
+import { importGeoJSON } from '@/lib/geojson';
+import { routePathOf } from '@/lib/route-geometry';
+import { IncidentRequest, LatLngRequest, LogisticsService, PetriNetService } from '@/lib/api-client';
 import { toast } from 'react-hot-toast';
 
 // ============================================================================
-// ACTIONS
+// HELPERS
 // ============================================================================
 
-type SimulationAction =
-  | { type: 'SET_HUBS'; payload: GeoPointResponse[] }
-  | { type: 'ADD_PARCEL'; payload: SimulatedParcel }
-  | { type: 'UPDATE_PARCEL'; payload: { id: string; updates: Partial<SimulatedParcel> } }
-  | { type: 'REMOVE_PARCEL'; payload: string }
-  | { type: 'ADD_INCIDENT'; payload: Incident }
-  | { type: 'RESOLVE_INCIDENT'; payload: string }
-  | { type: 'PLAY' }
-  | { type: 'PAUSE' }
-  | { type: 'SET_SPEED'; payload: number }
-  | { type: 'TOGGLE_INCIDENT_MODE'; payload: { active: boolean; type: IncidentType | null } }
-  | { type: 'SELECT_PARCEL'; payload: string | null }
-  | { type: 'UPDATE_ALL_PARCELS'; payload: Map<string, SimulatedParcel> };
+const toPointRequest = (position: Position): LatLngRequest => ({
+  latitude: position.lat,
+  longitude: position.lng,
+});
+
+/**
+ * Incident as expected by the backend recalculation endpoint
+ */
+const toIncidentRequest = (incident: Incident): IncidentRequest => {
+  const { zone } = incident;
+  const zoneGeometry = stringifyWKT({ type: 'Polygon', coordinates: [incidentOutline(zone)] }, 4326);
+
+  const shape = zone.shape === 'LINE'
+    ? { lineStart: toPointRequest(zone.start), lineEnd: toPointRequest(zone.end), bufferDistance: zone.widthM }
+    : zone.shape === 'CIRCLE'
+      ? { center: toPointRequest(zone.center), bufferDistance: zone.radiusM }
+      : { polygon: zone.ring.map(toPointRequest), bufferDistance: 0 };
+
+  return {
+    type: incident.type,
+    zoneType: zone.shape,
+    ...shape,
+    zoneGeometry,
+    description: incident.description,
+  };
+};
+
+/**
+ * Path between two consecutive stops of a tour
+ */
+async function fetchTourLeg(
+  vehicle: SimulatedVehicle,
+  from: TourStop,
+  to: TourStop,
+  parcels: Map<string, SimulatedParcel>
+): Promise<TourLeg> {
+  if (from.hubId === to.hubId) return { routeId: null, path: [] };
+
+  // Pickup directly followed by its delivery: the parcel route is already known
+  const parcel = parcels.get(to.parcelId);
+  if (from.parcelId === to.parcelId && from.type === 'PICKUP' && parcel?.route) {
+    return { routeId: parcel.route.id, path: routePathOf(parcel.route) };
+  }
+
+  // Other legs are requested for the parcel of the arrival stop
+  const route = await LogisticsService.calculateRoute({
+    parcelId: to.parcelId,
+    startHubId: from.hubId,
+    endHubId: to.hubId,
+    driverId: vehicle.driverId,
+    constraints: { algorithm: 'OSRM', vehicleType: vehicle.vehicleType },
+  });
+  return { routeId: route.id, path: routePathOf(route) };
+}
 
 // ============================================================================
-// REDUCER
+// HOOK
 // ============================================================================
 
-const initialState: SimulationState = {
-  parcels: new Map(),
-  incidents: new Map(),
-  hubs: [],
-  isPlaying: false,
-  speed: 1,
-  incidentPlacementMode: false,
-  selectedIncidentType: null,
-  selectedParcelId: null,
-};
+export function useSimulation() {
+  const [state, dispatchView] = useReducer(simulationViewReducer, undefined, createInitialSimulationView);
+  const workerRef = useRef<Worker | null>(null);
+  // Same view, updated as each action or frame arrives rather than at render:
+  // two frames may come in before React renders the first one
+  const stateRef = useRef(state);
+  const eventHandlerRef = useRef<
+    (
+      events: SimulationEvent[],
+      parcels: Map<string, SimulatedParcel>,
+      vehicles: Map<string, SimulatedVehicle>,
+      incidents: Map<string, Incident>
+    ) => void
+  >(() => {});
+
+  const dispatch = useCallback((action: SimulationAction) => {
+    stateRef.current = simulationViewReducer(stateRef.current, action);
+    dispatchView(action);
+  }, []);
 
-function simulationReducer(
-  state: SimulationState,
-  action: SimulationAction
-): SimulationState {
-  switch (action.type) {
-    case 'SET_HUBS':
-      return { ...state, hubs: action.payload };
-
-    case 'ADD_PARCEL': {
-      const newParcels = new Map(state.parcels);
-      newParcels.set(action.payload.id, action.payload);
-      return { ...state, parcels: newParcels };
-    }
+  // ===== SIMULATION WORKER =====
+
+  const postToWorker = useCallback((command: WorkerCommand) => {
+    workerRef.current?.postMessage(command);
+  }, []);
+
+  /**
+   * Dispatch an action that changes the simulated world to the worker, which
+   * owns the simulation and answers with a frame; controls apply at once
+   */
+  const send = useCallback((action: SimulationAction) => {
+    dispatch(action);
+    postToWorker({ type: 'DISPATCH', action });
+  }, [dispatch, postToWorker]);
+
+  useEffect(() => {
+    const worker = new Worker(
+      new URL('../workers/simulation.worker.ts', import.meta.url)
+    );
+
+    worker.onmessage = (e: MessageEvent<WorkerMessage>) => {
+      const message = e.data;
 
-    case 'UPDATE_PARCEL': {
-      const newParcels = new Map(state.parcels);
-      const existing = newParcels.get(action.payload.id);
-      if (existing) {
-        newParcels.set(action.payload.id, { ...existing, ...action.payload.updates });
+      if (message.type === 'FRAME') {
+        const action: SimulationAction = { type: 'APPLY_FRAME', payload: message.frame };
+        dispatch(action);
+
+        if (message.frame.events.length > 0) {
+          const { parcels, vehicles, incidents } = stateRef.current;
+          eventHandlerRef.current(message.frame.events, parcels, vehicles, incidents);
+        }
+      } else if (message.type === 'SNAPSHOT') {
+        dispatch({ type: 'LOAD_SNAPSHOT', payload: message.snapshot });
       }
-      return { ...state, parcels: newParcels };
-    }
+    };
 
-    case 'REMOVE_PARCEL': {
-      const newParcels = new Map(state.parcels);
-      newParcels.delete(action.payload);
-      return { ...state, parcels: newParcels };
-    }
+    workerRef.current = worker;
+    return () => {
+      worker.terminate();
+      workerRef.current = null;
+    };
+  }, [dispatch]);
+
+  /**
+   * Recalculate the leg to the next stop of a blocked tour
+   * On failure, the vehicle's policy sets the next attempt or waits for the
+   * incident to be lifted
+   */
+  const handleVehicleRecalculation = async (
+    vehicle: SimulatedVehicle,
+    incident: Incident
+  ) => {
+    const nextStop = vehicle.stops[vehicle.nextStopIndex];
+    const algorithm = nextRecalculationAlgorithm(vehicle, incident.id);
 
-    case 'ADD_INCIDENT': {
-      const newIncidents = new Map(state.incidents);
-      newIncidents.set(action.payload.id, action.payload);
-      return { ...state, incidents: newIncidents };
-    }
+    toast.loading('Recalcul de la tournée...', { id: `recalc-${vehicle.id}` });
 
-    case 'RESOLVE_INCIDENT': {
-      const newIncidents = new Map(state.incidents);
-      const incident = newIncidents.get(action.payload);
-      if (incident) {
-        newIncidents.set(action.payload, { ...incident, resolved: true });
+    try {
+      if (!nextStop?.routeId) {
+        throw new Error(`Aucun itinéraire à recalculer pour ${vehicle.driverName}`);
       }
-      return { ...state, incidents: newIncidents };
+
+      const newRoute = await LogisticsService.recalculateRoute(nextStop.routeId, {
+        ...toIncidentRequest(incident),
+        algorithm: algorithm ?? undefined,
+      });
+
+      send({
+        type: 'RECORD_VEHICLE_RECALCULATION',
+        payload: { id: vehicle.id, incidentId: incident.id, algorithm, error: null },
+      });
+      send({
+        type: 'REROUTE_VEHICLE',
+        payload: { id: vehicle.id, legPath: routePathOf(newRoute) },
+      });
+
+      toast.success('Tournée recalculée', { id: `recalc-${vehicle.id}` });
+    } catch (error) {
+      console.error('Tour recalculation failed:', error);
+
+      const outcome = recalculationFailureOutcome(vehicle, incident.id);
+      send({
+        type: 'RECORD_VEHICLE_RECALCULATION',
+        payload: {
+          id: vehicle.id,
+          incidentId: incident.id,
+          algorithm,
+          error: error instanceof Error ? error.message : String(error),
+        },
+      });
+
+      toast.error(
+        outcome === 'RETRY'
+          ? `Échec du recalcul (${RECALCULATION_STRATEGY_LABELS[vehicle.recalculationPolicy.strategy]})`
+          : `Échec du recalcul: ${vehicle.driverName} attend la levée de l'incident`,
+        { id: `recalc-${vehicle.id}` }
+      );
     }
+  };
 
-    case 'PLAY':
-      return { ...state, isPlaying: true };
+  /**
+   * Route a parcel whose delivery attempts all failed back to its pickup hub
+   * Falls back to its own route driven backwards when the backend has none
+   */
+  const handleReturnToHub = async (
+    parcel: SimulatedParcel,
+    vehicles: Map<string, SimulatedVehicle>
+  ) => {
+    // Tour parcels were dropped by their vehicle: its driver brings them back
+    const driverId = Array.from(vehicles.values())
+      .find(v => v.stops.some(s => s.parcelId === parcel.id))?.driverId ?? '';
 
-    case 'PAUSE':
-      return { ...state, isPlaying: false };
+    toast.loading(`Retour au hub: ${parcel.trackingCode}`, { id: `return-${parcel.id}` });
 
-    case 'SET_SPEED':
-      return { ...state, speed: action.payload };
+    let returnLeg;
+    try {
+      const route = await LogisticsService.calculateRoute({
+        parcelId: parcel.id,
+        startHubId: parcel.parcelData.deliveryLocation,
+        endHubId: parcel.parcelData.pickupLocation,
+        driverId,
+        constraints: { algorithm: 'OSRM', vehicleType: parcel.vehicleType },
+      });
+      returnLeg = { route, routePath: routePathOf(route) };
+    } catch (error) {
+      console.error('Return route calculation failed:', error);
+      returnLeg = createReturnRoute(parcel);
+    }
 
-    case 'TOGGLE_INCIDENT_MODE':
-      return {
-        ...state,
-        incidentPlacementMode: action.payload.active,
-        selectedIncidentType: action.payload.type,
-      };
+    if (!returnLeg) {
+      send({
+        type: 'UPDATE_PARCEL',
+        payload: { id: parcel.id, updates: { state: 'FAILED', returningToHub: false } },
+      });
+      toast.error(`Échec de livraison: ${parcel.trackingCode}`, { id: `return-${parcel.id}` });
+      return;
+    }
 
-    case 'SELECT_PARCEL':
-      return { ...state, selectedParcelId: action.payload };
+    send({ type: 'REROUTE_PARCEL', payload: { id: parcel.id, ...returnLeg } });
+    toast.success(`${parcel.trackingCode} repart vers son hub d'enlèvement`, { id: `return-${parcel.id}` });
+  };
 
-    case 'UPDATE_ALL_PARCELS':
-      return { ...state, parcels: action.payload };
+  /**
+   * Propose a route recalculated from the parcel's current position, now that
+   * the incident is lifted. The reducer only switches when it is shorter.
+   * Falls back to an approximate rejoin of its route before the detour when
+   * the backend has none
+   */
+  const handleRouteRestoration = async (parcel: SimulatedParcel, incidentId: string) => {
+    if (!parcel.detour) return;
 
-    default:
-      return state;
-  }
-}
+    let candidate;
+    try {
+      const route = await LogisticsService.calculateRoute({
+        parcelId: parcel.id,
+        startHubId: parcel.parcelData.pickupLocation,
+        endHubId: parcel.parcelData.deliveryLocation,
+        startPosition: toPointRequest(parcel.currentPosition),
+        driverId: '',
+        constraints: {
+          algorithm: parcel.detour.baseRoute.routingService ?? 'OSRM',
+          vehicleType: parcel.vehicleType,
+        },
+      });
+      candidate = { route, routePath: routePathOf(route) };
+    } catch (error) {
+      console.error('Rejoin route calculation failed:', error);
+      candidate = createRejoinRoute(parcel);
+    }
+    if (!candidate || candidate.routePath.length < 2) return;
 
-// ============================================================================
-// HOOK
-// ============================================================================
+    send({ type: 'RESTORE_ROUTE', payload: { id: parcel.id, incidentId, ...candidate } });
+    toast(`🛣️ ${parcel.trackingCode}: incident levé, itinéraire réévalué`);
+  };
 
-export function useSimulation() {
-  const [state, dispatch] = useReducer(simulationReducer, initialState);
-  const lastUpdateRef = useRef<number>(Date.now());
-  const animationFrameRef = useRef<number | undefined>(undefined);
-
-  // ===== SIMULATION LOOP =====
-
-  const simulationLoop = useCallback(() => {
-    if (!state.isPlaying) return;
-
-    const now = Date.now();
-    const deltaTimeMs = now - lastUpdateRef.current;
-    lastUpdateRef.current = now;
-
-    // Update all parcels in transit
-    const updatedParcels = new Map(state.parcels);
-    let hasChanges = false;
-
-    for (const [id, parcel] of updatedParcels.entries()) {
-      if (parcel.state === 'TRANSIT') {
-        // Update position
-        const updated = SimulationEngine.updateParcelPosition(
-          parcel,
-          deltaTimeMs,
-          state.speed
-        );
+  /**
+   * Side effects of the events produced by the worker
+   */
+  const handleSimulationEvents = (
+    events: SimulationEvent[],
+    parcels: Map<string, SimulatedParcel>,
+    vehicles: Map<string, SimulatedVehicle>,
+    incidents: Map<string, Incident>
+  ) => {
+    for (const event of events) {
+      if ('vehicleId' in event && event.type !== 'PARCEL_PICKED_UP') {
+        const vehicle = vehicles.get(event.vehicleId);
+        if (!vehicle) continue;
+
+        if (event.type === 'VEHICLE_BLOCKED' || event.type === 'VEHICLE_RECALCULATION_RETRY') {
+          const incident = incidents.get(event.incidentId);
+          if (incident) handleVehicleRecalculation(vehicle, incident);
+        } else if (event.type === 'VEHICLE_INCIDENT_LIFTED') {
+          toast.success(`${vehicle.driverName}: incident levé, reprise de la tournée`, { id: `recalc-${vehicle.id}` });
+        } else if (event.type === 'VEHICLE_BROKEN_DOWN') {
+          toast.error(`🔧 Panne: véhicule de ${vehicle.driverName} immobilisé`, { id: `breakdown-${vehicle.id}` });
+        } else if (event.type === 'VEHICLE_RESUMED') {
+          toast.success(`🔧 Réparé: ${vehicle.driverName} reprend sa tournée`, { id: `breakdown-${vehicle.id}` });
+        } else if (event.type === 'TOUR_COMPLETED') {
+          toast.success(`🚚 Tournée terminée: ${vehicle.driverName}`);
+        }
+        continue;
+      }
 
-        // Check for incident collision
-        const collidingIncident = SimulationEngine.checkIncidentCollision(
-          updated,
-          state.incidents
-        );
+      if (event.type === 'INCIDENT_ACTIVATED' || event.type === 'INCIDENT_EXPIRED') {
+        const incident = incidents.get(event.incidentId);
+        if (!incident) continue;
 
-        if (collidingIncident) {
-          console.log('🔥 COLLISION DETECTED!', {
-            parcelId: id,
-            incidentId: collidingIncident.id,
-            parcelPosition: updated.currentPosition,
-            incidentLineStart: collidingIncident.startPosition,
-            incidentLineEnd: collidingIncident.endPosition,
-          });
-
-          // Mark as incident and trigger recalculation
-          const markedParcel = SimulationEngine.markParcelIncident(
-            updated,
-            collidingIncident.id
-          );
-          updatedParcels.set(id, markedParcel);
-          hasChanges = true;
-
-          // Trigger recalculation (async)
-          handleIncidentRecalculation(markedParcel, collidingIncident);
-        } else if (updated !== parcel) {
-          // Check if state changed to DELIVERED in this update
-          if (updated.state === 'DELIVERED' && parcel.state === 'TRANSIT') {
-            const petriNetId = updated.parcelData?.petriNetId;
-            if (petriNetId) {
-              PetriNetService.triggerTransition(petriNetId, 'T_TRANSIT_TO_DELIVERED');
-            }
-          }
-
-          updatedParcels.set(id, updated);
-          hasChanges = true;
+        if (event.type === 'INCIDENT_ACTIVATED') {
+          toast.error(`⚠️ Incident actif: ${incident.description}`);
+        } else {
+          toast.success(`Incident terminé: ${incident.description}`);
         }
+        continue;
       }
-    }
 
-    if (hasChanges) {
-      dispatch({ type: 'UPDATE_ALL_PARCELS', payload: updatedParcels });
-    }
+      const parcel = parcels.get(event.parcelId);
+      if (!parcel) continue;
 
-    animationFrameRef.current = requestAnimationFrame(simulationLoop);
-  }, [state.isPlaying, state.parcels, state.incidents, state.speed]);
+      if (event.type === 'INCIDENT_COLLISION' || event.type === 'INCIDENT_AHEAD') {
+        const incident = incidents.get(event.incidentId);
+        if (!incident) continue;
 
-  // Start/stop simulation loop
-  useEffect(() => {
-    if (state.isPlaying) {
-      lastUpdateRef.current = Date.now();
-      animationFrameRef.current = requestAnimationFrame(simulationLoop);
-    } else {
-      if (animationFrameRef.current) {
-        cancelAnimationFrame(animationFrameRef.current);
+        if (event.type === 'INCIDENT_AHEAD') {
+          toast(`🚧 ${parcel.trackingCode}: route barrée plus loin, déviation anticipée`);
+        }
+
+        console.log(event.type === 'INCIDENT_AHEAD' ? '🚧 CLOSURE AHEAD' : '🔥 COLLISION DETECTED!', {
+          parcelId: parcel.id,
+          incidentId: incident.id,
+          parcelPosition: parcel.currentPosition,
+          incidentZone: incident.zone,
+        });
+
+        // Trigger recalculation (async)
+        handleIncidentRecalculation(parcel, incident);
+      } else if (event.type === 'VEHICLE_IMMOBILIZED') {
+        toast.error(`🔧 Panne: ${parcel.trackingCode} immobilisé`, { id: `breakdown-${parcel.id}` });
+      } else if (event.type === 'VEHICLE_REPAIRED') {
+        toast.success(`🔧 Réparé: ${parcel.trackingCode} reprend sa route`, { id: `breakdown-${parcel.id}` });
+      } else if (event.type === 'PARCEL_PICKED_UP') {
+        const petriNetId = parcel.parcelData?.petriNetId;
+        if (petriNetId) {
+          PetriNetService.triggerTransition(petriNetId, 'T_PLAN_TO_PICKUP')
+            .then(() => PetriNetService.triggerTransition(petriNetId, 'T_PICKUP_TO_IN_TRANSIT'));
+        }
+      } else if (event.type === 'PARCEL_DELIVERED') {
+        const petriNetId = parcel.parcelData?.petriNetId;
+        if (petriNetId) {
+          PetriNetService.triggerTransition(petriNetId, 'T_TRANSIT_TO_DELIVERED');
+        }
+      } else if (event.type === 'DELIVERY_FAILED') {
+        toast(`🚪 ${parcel.trackingCode}: destinataire absent (tentative ${event.attempt}/${parcel.deliveryPolicy.maxAttempts})`);
+      } else if (event.type === 'RECALCULATION_RETRY') {
+        const incident = incidents.get(event.incidentId);
+        if (incident) handleIncidentRecalculation(parcel, incident);
+      } else if (event.type === 'INCIDENT_LIFTED') {
+        toast.success(`${parcel.trackingCode}: incident levé, reprise de l'itinéraire`, { id: `recalc-${parcel.id}` });
+      } else if (event.type === 'SLA_BREACHED') {
+        toast.error(`⏰ ${parcel.trackingCode}: échéance de livraison intenable`, { id: `sla-${parcel.id}` });
+      } else if (event.type === 'INCIDENT_CLEARED') {
+        handleRouteRestoration(parcel, event.incidentId);
+      } else if (event.type === 'DELIVERY_ABANDONED') {
+        handleReturnToHub(parcel, vehicles);
+      } else if (event.type === 'PARCEL_RETURNED') {
+        toast.error(`↩️ ${parcel.trackingCode} revenu au hub d'enlèvement`);
+        const petriNetId = parcel.parcelData?.petriNetId;
+        if (petriNetId) {
+          PetriNetService.triggerTransition(petriNetId, 'T_TRANSIT_TO_FAILED');
+        }
       }
     }
+  };
 
-    return () => {
-      if (animationFrameRef.current) {
-        cancelAnimationFrame(animationFrameRef.current);
-      }
-    };
-  }, [state.isPlaying, simulationLoop]);
+  useEffect(() => {
+    eventHandlerRef.current = handleSimulationEvents;
+  });
 
   // ===== ACTIONS =====
 
@@ -229,30 +429,29 @@ export function useSimulation() {
       console.error('Failed to load hubs:', error);
       toast.error('Erreur lors du chargement des hubs');
     }
-  }, []);
+  }, [dispatch]);
 
   const addParcel = useCallback(
-    async (parcelData: ParcelResponse, route: RouteResponse | null) => {
+    async (
+      parcelData: ParcelResponse,
+      route: RouteResponse | null,
+      serviceLevel: ServiceLevel | null = null,
+      vehicleType: VehicleType = DEFAULT_VEHICLE_TYPE
+    ) => {
       // If there is a valid route, create a simulated parcel with path and auto-start
       if (route) {
-        // Validate route geometry before parsing
+        // Validate route geometry before decoding
         if (!route.routeGeometry) {
           console.error('Route missing geometry:', route);
           toast.error('Itinéraire invalide: géométrie manquante');
           return;
         }
 
-        if (!route.routeGeometry.toUpperCase().includes('LINESTRING')) {
-          console.error('Invalid route geometry format:', route.routeGeometry);
-          toast.error('Itinéraire invalide: format de géométrie incorrect');
-          return;
-        }
-
-        const routePath = parseWKTLineString(route.routeGeometry);
+        const routePath = routePathOf(route);
 
         if (routePath.length === 0) {
-          console.error('Failed to parse route geometry:', route.routeGeometry);
-          toast.error('Impossible de tracer l\'itinéraire (parsing WKT échoué)');
+          console.error('Failed to decode route geometry:', route.routeGeometry);
+          toast.error('Impossible de tracer l\'itinéraire (géométrie illisible)');
           return;
         }
 
@@ -262,17 +461,26 @@ export function useSimulation() {
           return;
         }
 
-        const simulatedParcel = SimulationEngine.createSimulatedParcel(
-          parcelData,
-          route,
-          routePath
+        const simulatedParcel = withServiceLevel(
+          SimulationEngine.createSimulatedParcel(
+            parcelData,
+            route,
+            routePath,
+            state.clock,
+            state.deliveryPolicy,
+            state.recalculationPolicy,
+            vehicleType
+          ),
+          serviceLevel,
+          state.serviceLevels,
+          state.clock
         );
 
         // Auto-start immediately
-        simulatedParcel.state = 'TRANSIT';
-        simulatedParcel.startTime = new Date();
-
-        dispatch({ type: 'ADD_PARCEL', payload: simulatedParcel });
+        send({
+          type: 'ADD_PARCEL',
+          payload: SimulationEngine.startParcel(simulatedParcel, state.clock),
+        });
 
         // Trigger Petri Net transitions for starting the journey
         const petriNetId = parcelData.petriNetId;
@@ -288,7 +496,7 @@ export function useSimulation() {
         let startPos: Position = { lat: 4.05, lng: 9.7 };
 
         // Try to place parcel at pickup hub coordinates if available
-        const pickupHub = state.hubs.find(h => h.id === parcelData.pickupLocation);
+        const pickupHub = findLocationHub(parcelData.pickupLocation, state.hubs);
         if (pickupHub) {
           startPos = { lat: pickupHub.latitude, lng: pickupHub.longitude };
         }
@@ -299,30 +507,117 @@ export function useSimulation() {
           parcelData,
           route: null,
           routePath: [],
+          cumulativeDistances: [],
           currentPosition: startPos,
           state: 'PLANNED',
           progress: 0,
+          distanceTravelledKm: 0,
+          odometerKm: 0,
           pathIndex: 0,
           startTime: null,
           estimatedArrival: null,
           actualArrival: null,
-          speed: 30,
+          vehicleType,
+          speed: VEHICLE_CATALOG[vehicleType].cruiseSpeedKmh,
+          speedFactor: 1,
+          immobilizedUntil: null,
+          onHold: false,
           affectedByIncidents: [],
+          vehicleId: null,
+          deliveryPolicy: state.deliveryPolicy,
+          deliveryAttempts: 0,
+          nextAttemptAt: null,
+          returningToHub: false,
+          detour: null,
+          routeDecisions: [],
+          routeHistory: [],
+          recalculationPolicy: state.recalculationPolicy,
+          recalculationAttempts: [],
+          pendingRecalculation: null,
+          serviceLevel: null,
+          deliveryDeadline: null,
+          slackMin: null,
+          slaBreached: false,
+          arrivalProjection: null,
         };
 
-        dispatch({ type: 'ADD_PARCEL', payload: simulatedParcel });
+        send({
+          type: 'ADD_PARCEL',
+          payload: withServiceLevel(simulatedParcel, serviceLevel, state.serviceLevels, state.clock),
+        });
         console.info('Parcel added without route (will remain PLANNED):', simulatedParcel.id);
       }
     },
-    [state.hubs]
+    [state.hubs, state.clock, state.deliveryPolicy, state.recalculationPolicy, state.serviceLevels, send]
   );
 
-  const startParcel = useCallback((parcelId: string) => {
+  /**
+   * Ask the backend again for the route of a parcel created without one
+   * The parcel keeps its policies and delivery deadline, and stays PLANNED
+   */
+  const routeParcel = useCallback(async (parcel: SimulatedParcel) => {
+    const pickupHub = findLocationHub(parcel.parcelData.pickupLocation, state.hubs);
+    const deliveryHub = findLocationHub(parcel.parcelData.deliveryLocation, state.hubs);
+    if (!pickupHub || !deliveryHub) {
+      toast.error(`Hubs introuvables pour ${parcel.trackingCode}`);
+      return null;
+    }
+
+    try {
+      const route = await LogisticsService.calculateRoute({
+        parcelId: parcel.id,
+        startHubId: pickupHub.id,
+        endHubId: deliveryHub.id,
+        driverId: '',
+        constraints: { algorithm: 'OSRM', vehicleType: parcel.vehicleType },
+      });
+      const routePath = routePathOf(route);
+      if (routePath.length < 2) {
+        toast.error('Itinéraire invalide: moins de 2 points');
+        return null;
+      }
+
+      const routed: SimulatedParcel = {
+        ...SimulationEngine.createSimulatedParcel(
+          parcel.parcelData,
+          route,
+          routePath,
+          stateRef.current.clock,
+          parcel.deliveryPolicy,
+          parcel.recalculationPolicy,
+          parcel.vehicleType
+        ),
+        serviceLevel: parcel.serviceLevel,
+        deliveryDeadline: parcel.deliveryDeadline,
+      };
+      send({ type: 'ADD_PARCEL', payload: routed });
+      return routed;
+    } catch (error) {
+      console.error('Route retry failed:', error);
+      return null;
+    }
+  }, [state.hubs, send]);
+
+  const retryRouting = useCallback(async (parcelId: string) => {
     const parcel = state.parcels.get(parcelId);
+    if (!parcel || parcel.state !== 'PLANNED') return;
+
+    await routeParcel(parcel);
+  }, [state.parcels, routeParcel]);
+
+  const startParcel = useCallback(async (parcelId: string) => {
+    let parcel = state.parcels.get(parcelId);
     if (!parcel) return;
 
-    const started = SimulationEngine.startParcel(parcel);
-    dispatch({
+    // No route yet: it is requested first
+    if (!parcel.route) {
+      const routed = await routeParcel(parcel);
+      if (!routed) return;
+      parcel = routed;
+    }
+
+    const started = SimulationEngine.startParcel(parcel, stateRef.current.clock);
+    send({
       type: 'UPDATE_PARCEL',
       payload: { id: parcelId, updates: started },
     });
@@ -335,24 +630,217 @@ export function useSimulation() {
     }
 
     toast.success(`Livraison démarrée: ${parcel.trackingCode}`);
-  }, [state.parcels]);
+  }, [state.parcels, routeParcel, send]);
+
+  // ===== PARCEL CONTROLS =====
+
+  const holdParcel = useCallback((parcelId: string) => {
+    const parcel = state.parcels.get(parcelId);
+    if (!parcel || parcel.state !== 'TRANSIT' || parcel.vehicleId) return;
+
+    send({ type: 'UPDATE_PARCEL', payload: { id: parcelId, updates: { onHold: true } } });
+    toast(`⏸ ${parcel.trackingCode} arrêté sur place`);
+  }, [state.parcels, send]);
+
+  const resumeParcel = useCallback((parcelId: string) => {
+    const parcel = state.parcels.get(parcelId);
+    if (!parcel?.onHold) return;
+
+    send({ type: 'UPDATE_PARCEL', payload: { id: parcelId, updates: { onHold: false } } });
+    toast(`▶ ${parcel.trackingCode} reprend sa route`);
+  }, [state.parcels, send]);
+
+  /**
+   * Withdraw a parcel from the loading vehicle that was to carry it
+   */
+  const withdrawParcelFromTour = useCallback((parcel: SimulatedParcel) => {
+    const vehicle = parcel.vehicleId ? state.vehicles.get(parcel.vehicleId) : undefined;
+    if (vehicle?.state === 'LOADING') {
+      send({ type: 'ADD_VEHICLE', payload: withdrawFromTour(vehicle, parcel.id) });
+    }
+  }, [state.vehicles, send]);
+
+  /**
+   * Cancel the delivery on the backend, then stop the parcel where it is
+   */
+  const cancelParcel = useCallback(async (parcelId: string) => {
+    const parcel = state.parcels.get(parcelId);
+    if (!parcel) return;
+
+    try {
+      await LogisticsService.cancelParcel(parcelId);
+    } catch (error) {
+      console.error('Parcel cancellation failed:', error);
+      toast.error(`Annulation refusée pour ${parcel.trackingCode}`);
+      return;
+    }
+
+    const petriNetId = parcel.parcelData.petriNetId;
+    if (petriNetId) {
+      cancellationTransitions(parcel).reduce(
+        (fired, transition) => fired.then(() => PetriNetService.triggerTransition(petriNetId, transition)),
+        Promise.resolve()
+      );
+    }
+
+    send({ type: 'UPDATE_PARCEL', payload: { id: parcelId, updates: cancellationUpdates() } });
+    withdrawParcelFromTour(parcel);
+    toast(`✕ Livraison annulée: ${parcel.trackingCode}`);
+  }, [state.parcels, withdrawParcelFromTour, send]);
+
+  /**
+   * Drop the parcel from the simulation only (the backend keeps it)
+   */
+  const removeParcel = useCallback((parcelId: string) => {
+    const parcel = state.parcels.get(parcelId);
+    if (!parcel) return;
+
+    send({ type: 'REMOVE_PARCEL', payload: parcelId });
+    withdrawParcelFromTour(parcel);
+    if (state.selectedParcelId === parcelId) {
+      dispatch({ type: 'SELECT_PARCEL', payload: null });
+    }
+  }, [state.parcels, state.selectedParcelId, withdrawParcelFromTour, send, dispatch]);
+
+  // ===== TOURS =====
+
+  /**
+   * Add a parcel to the tour of its driver's vehicle
+   * A new vehicle is created at the pickup hub when none is loading for the driver
+   */
+  const addParcelToTour = useCallback(
+    (
+      parcelData: ParcelResponse,
+      route: RouteResponse | null,
+      assignment: TourAssignment,
+      serviceLevel: ServiceLevel | null = null
+    ) => {
+      const pickupHub = state.hubs.find(h => h.id === assignment.pickupHubId);
+      const deliveryHub = state.hubs.find(h => h.id === assignment.deliveryHubId);
+      if (!pickupHub || !deliveryHub) {
+        toast.error('Hub introuvable');
+        return;
+      }
+
+      const pickup = { hubId: pickupHub.id, position: { lat: pickupHub.latitude, lng: pickupHub.longitude } };
+      const delivery = { hubId: deliveryHub.id, position: { lat: deliveryHub.latitude, lng: deliveryHub.longitude } };
+
+      const vehicle = Array.from(state.vehicles.values()).find(
+        v => v.driverId === assignment.driverId && v.state === 'LOADING'
+      ) ?? createLoadingVehicle(
+        `vehicle-${assignment.driverId}-${Date.now()}`,
+        assignment.driverId,
+        assignment.driverName,
+        pickup.position,
+        assignment.vehicleType,
+        state.recalculationPolicy
+      );
+
+      // The driver's loading vehicle is the one that carries the parcel
+      if (vehicle.vehicleType !== assignment.vehicleType) {
+        toast.error(`${assignment.driverName} charge déjà un véhicule ${VEHICLE_CATALOG[vehicle.vehicleType].label}`);
+        return;
+      }
+
+      const loadKg = tourLoadKg(vehicle, state.parcels) + (parcelData.weightKg ?? 0);
+      if (exceedsCapacity(loadKg, vehicle.vehicleType)) {
+        const { label, capacityKg } = VEHICLE_CATALOG[vehicle.vehicleType];
+        toast.error(`Tournée trop lourde: ${loadKg} kg pour ${label} (${capacityKg} kg max)`);
+        return;
+      }
+
+      const stops = planTourStops([
+        ...getTourParcels(vehicle.stops),
+        { parcelId: parcelData.id, pickup, delivery },
+      ]);
+
+      send({
+        type: 'ADD_PARCEL',
+        payload: withServiceLevel(
+          createTourParcel(
+            parcelData,
+            route,
+            vehicle,
+            pickup.position,
+            state.deliveryPolicy,
+            state.recalculationPolicy
+          ),
+          serviceLevel,
+          state.serviceLevels,
+          state.clock
+        ),
+      });
+      send({ type: 'ADD_VEHICLE', payload: setPlannedStops(vehicle, stops) });
+      toast.success(`${parcelData.trackingCode} ajouté à la tournée de ${assignment.driverName}`);
+    },
+    [
+      state.hubs,
+      state.vehicles,
+      state.parcels,
+      state.clock,
+      state.deliveryPolicy,
+      state.recalculationPolicy,
+      state.serviceLevels,
+      send,
+    ]
+  );
+
+  /**
+   * Compute the legs of a loading vehicle's tour and start it
+   */
+  const dispatchVehicle = useCallback(async (vehicleId: string) => {
+    const vehicle = state.vehicles.get(vehicleId);
+    if (!vehicle || vehicle.state !== 'LOADING' || vehicle.stops.length === 0) return;
+
+    toast.loading('Calcul de la tournée...', { id: `tour-${vehicleId}` });
+
+    try {
+      const legs: TourLeg[] = [];
+      for (let i = 1; i < vehicle.stops.length; i++) {
+        legs.push(await fetchTourLeg(vehicle, vehicle.stops[i - 1], vehicle.stops[i], state.parcels));
+      }
+
+      send({
+        type: 'ADD_VEHICLE',
+        payload: startTour(vehicle, vehicle.stops, legs, stateRef.current.clock),
+      });
+      toast.success(
+        `Tournée démarrée: ${vehicle.driverName} (${vehicle.stops.length} arrêts)`,
+        { id: `tour-${vehicleId}` }
+      );
+    } catch (error) {
+      console.error('Tour calculation failed:', error);
+      toast.error('Échec du calcul de la tournée', { id: `tour-${vehicleId}` });
+    }
+  }, [state.vehicles, state.parcels, send]);
 
   const createIncident = useCallback(
-    async (startPosition: Position, endPosition: Position, type: IncidentType, description?: string) => {
+    async (zone: IncidentZone, type: IncidentType, description?: string) => {
+      let schedule;
+      try {
+        schedule = resolveIncidentSchedule(state.incidentSchedule, state.clock);
+      } catch (error) {
+        toast.error(error instanceof Error ? error.message : 'Programmation invalide');
+        return;
+      }
+
       const incident: Incident = {
         id: `incident-${Date.now()}`,
         type,
-        startPosition,
-        endPosition,
-        width: type === 'ROAD_CLOSURE' ? 50 : 20, // meters (largeur de chaque côté)
+        zone,
         affectedRouteIds: [],
-        timestamp: new Date(),
+        timestamp: clockDate(state.clock),
+        ...schedule,
         resolved: false,
         description: description || `Incident: ${type}`,
       };
 
-      dispatch({ type: 'ADD_INCIDENT', payload: incident });
-      toast.error(`⚠️ Incident créé: ${type}`);
+      send({ type: 'ADD_INCIDENT', payload: incident });
+      if (schedule.startsAt.getTime() > state.clock.currentTime) {
+        toast(`🕒 Incident programmé: ${type}`);
+      } else {
+        toast.error(`⚠️ Incident créé: ${type}`);
+      }
 
       // Turn off placement mode
       dispatch({
@@ -360,13 +848,41 @@ export function useSimulation() {
         payload: { active: false, type: null },
       });
     },
-    []
+    [state.clock, state.incidentSchedule, send, dispatch]
   );
 
+  /**
+   * Seed hubs and incidents from a GeoJSON FeatureCollection (QGIS export);
+   * hubs with a known id are replaced
+   */
+  const importGeoData = useCallback((collection: unknown) => {
+    let imported;
+    try {
+      imported = importGeoJSON(collection, stateRef.current.clock);
+    } catch (error) {
+      toast.error(`Import GeoJSON impossible: ${error instanceof Error ? error.message : String(error)}`);
+      return;
+    }
+
+    if (imported.hubs.length > 0) {
+      const importedIds = new Set(imported.hubs.map(h => h.id));
+      dispatch({
+        type: 'SET_HUBS',
+        payload: [...stateRef.current.hubs.filter(h => !importedIds.has(h.id)), ...imported.hubs],
+      });
+    }
+    imported.incidents.forEach(incident => send({ type: 'ADD_INCIDENT', payload: incident }));
+
+    toast.success(
+      `${imported.hubs.length} hub(s) et ${imported.incidents.length} incident(s) importés`
+      + (imported.skipped > 0 ? ` • ${imported.skipped} objet(s) ignoré(s)` : '')
+    );
+  }, [send, dispatch]);
+
   const resolveIncident = useCallback((incidentId: string) => {
-    dispatch({ type: 'RESOLVE_INCIDENT', payload: incidentId });
+    send({ type: 'RESOLVE_INCIDENT', payload: incidentId });
     toast.success('Incident résolu');
-  }, []);
+  }, [send]);
 
   const handleIncidentRecalculation = async (
     parcel: SimulatedParcel,
@@ -382,23 +898,14 @@ export function useSimulation() {
 
     toast.loading('Recalcul de l\'itinéraire...', { id: `recalc-${parcel.id}` });
 
+    // Set by the failure policy after a failed attempt (SWITCH_ALGORITHM)
+    const algorithm = nextRecalculationAlgorithm(parcel, incident.id);
+
     try {
-      const newRoute = await LogisticsService.recalculateRoute(
-        parcel.route.id,
-        {
-          type: incident.type,
-          lineStart: {
-            latitude: incident.startPosition.lat,
-            longitude: incident.startPosition.lng,
-          },
-          lineEnd: {
-            latitude: incident.endPosition.lat,
-            longitude: incident.endPosition.lng,
-          },
-          bufferDistance: incident.width,
-          description: incident.description,
-        }
-      );
+      const newRoute = await LogisticsService.recalculateRoute(parcel.route.id, {
+        ...toIncidentRequest(incident),
+        algorithm: algorithm ?? undefined,
+      });
 
       console.log('=== FRONTEND: Recalculation response ===');
       console.log('New routing service:', newRoute.routingService);
@@ -406,36 +913,106 @@ export function useSimulation() {
       console.log('New geometry (first 100 chars):', newRoute.routeGeometry?.substring(0, 100));
       console.log('Geometries are same?', parcel.route.routeGeometry === newRoute.routeGeometry);
 
-      const newRoutePath = parseWKTLineString(newRoute.routeGeometry);
+      const newRoutePath = routePathOf(newRoute);
       console.log('New route path points:', newRoutePath.length);
 
-      const updated = SimulationEngine.updateParcelRoute(
-        parcel,
-        newRoute,
-        newRoutePath
-      );
-
-      dispatch({
-        type: 'UPDATE_PARCEL',
-        payload: { id: parcel.id, updates: updated },
+      // The reducer applies the new route at the current simulated time
+      send({
+        type: 'RECORD_RECALCULATION',
+        payload: { id: parcel.id, incidentId: incident.id, algorithm, error: null },
+      });
+      send({
+        type: 'REROUTE_PARCEL',
+        payload: { id: parcel.id, route: newRoute, routePath: newRoutePath, incidentId: incident.id },
       });
 
       toast.success('Itinéraire recalculé', { id: `recalc-${parcel.id}` });
     } catch (error) {
       console.error('Recalculation failed:', error);
-      toast.error('Échec du recalcul', { id: `recalc-${parcel.id}` });
+
+      // The reducer applies the parcel's failure policy
+      const outcome = recalculationFailureOutcome(parcel, incident.id);
+      send({
+        type: 'RECORD_RECALCULATION',
+        payload: {
+          id: parcel.id,
+          incidentId: incident.id,
+          algorithm,
+          error: error instanceof Error ? error.message : String(error),
+        },
+      });
+
+      if (outcome === 'FAILED') {
+        toast.error(`Échec du recalcul: ${parcel.trackingCode} en échec`, { id: `recalc-${parcel.id}` });
+        const petriNetId = parcel.parcelData?.petriNetId;
+        if (petriNetId) {
+          PetriNetService.triggerTransition(petriNetId, 'T_TRANSIT_TO_FAILED');
+        }
+      } else {
+        const strategy = RECALCULATION_STRATEGY_LABELS[parcel.recalculationPolicy.strategy];
+        toast.error(`Échec du recalcul (${strategy})`, { id: `recalc-${parcel.id}` });
+      }
     }
   };
 
-  const play = useCallback(() => dispatch({ type: 'PLAY' }), []);
-  const pause = useCallback(() => dispatch({ type: 'PAUSE' }), []);
+  const play = useCallback(() => send({ type: 'PLAY' }), [send]);
+  const pause = useCallback(() => send({ type: 'PAUSE' }), [send]);
+  const step = useCallback(() => postToWorker({ type: 'STEP' }), [postToWorker]);
+  const jumpToNextEvent = useCallback(
+    () => postToWorker({ type: 'JUMP_TO_NEXT_EVENT' }),
+    [postToWorker]
+  );
+
+  // ===== TIMELINE =====
+
+  // Replaying the journal happens in the worker, which answers with a snapshot
+  const seek = useCallback(
+    (targetTime: number) => postToWorker({ type: 'SEEK', time: targetTime }),
+    [postToWorker]
+  );
+
+  const rewind = useCallback(() => {
+    seek(state.journalOrigin.currentTime);
+  }, [seek, state.journalOrigin]);
+
   const setSpeed = useCallback(
-    (speed: number) => dispatch({ type: 'SET_SPEED', payload: speed }),
-    []
+    (speed: number) => send({ type: 'SET_SPEED', payload: speed }),
+    [send]
   );
   const selectParcel = useCallback(
     (id: string | null) => dispatch({ type: 'SELECT_PARCEL', payload: id }),
-    []
+    [dispatch]
+  );
+
+  const setIncidentShape = useCallback(
+    (shape: IncidentShape) => dispatch({ type: 'SET_INCIDENT_SHAPE', payload: shape }),
+    [dispatch]
+  );
+
+  const setIncidentSchedule = useCallback(
+    (schedule: IncidentSchedule) => dispatch({ type: 'SET_INCIDENT_SCHEDULE', payload: schedule }),
+    [dispatch]
+  );
+
+  const setDeliveryPolicy = useCallback(
+    (policy: DeliveryPolicy) => dispatch({ type: 'SET_DELIVERY_POLICY', payload: policy }),
+    [dispatch]
+  );
+
+  const setRecalculationPolicy = useCallback(
+    (policy: RecalculationPolicy) => dispatch({ type: 'SET_RECALCULATION_POLICY', payload: policy }),
+    [dispatch]
+  );
+
+  const setServiceLevels = useCallback(
+    (durations: ServiceLevelDurations) => dispatch({ type: 'SET_SERVICE_LEVELS', payload: durations }),
+    [dispatch]
+  );
+
+  // Changes the running simulation: journaled and forwarded to the worker
+  const setTrafficProfile = useCallback(
+    (profile: TrafficProfile) => send({ type: 'SET_TRAFFIC_PROFILE', payload: profile }),
+    [send]
   );
 
   const toggleIncidentMode = useCallback((type: IncidentType | null) => {
@@ -443,21 +1020,40 @@ export function useSimulation() {
       type: 'TOGGLE_INCIDENT_MODE',
       payload: { active: type !== null, type },
     });
-  }, []);
+  }, [dispatch]);
 
   return {
     state,
+    isReplaying: state.replayCursor < state.journalMarkers.length,
     actions: {
       loadHubs,
       addParcel,
       startParcel,
+      retryRouting,
+      holdParcel,
+      resumeParcel,
+      cancelParcel,
+      removeParcel,
       createIncident,
       resolveIncident,
+      importGeoData,
       play,
       pause,
+      step,
+      jumpToNextEvent,
+      seek,
+      rewind,
       setSpeed,
       selectParcel,
       toggleIncidentMode,
+      setIncidentShape,
+      setIncidentSchedule,
+      setDeliveryPolicy,
+      setRecalculationPolicy,
+      setServiceLevels,
+      setTrafficProfile,
+      addParcelToTour,
+      dispatchVehicle,
     },
   };
 }
\ No newline at end of file
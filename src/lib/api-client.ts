@@ -5,7 +5,8 @@
 
 import axios, { AxiosError } from 'axios';
 import { toast } from 'react-hot-toast';
-import { PetriNetState } from './type';
+import { PetriNetState, RouteGeometryFormat } from './type';
+import { detectRouteGeometryFormat, encodeRouteGeometry, toRoutePath } from './route-geometry';
 
 const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:8080/api/v1';
 
@@ -182,6 +183,7 @@ export interface RouteCalculationRequest {
   parcelId?: string;
   startHubId: string;
   endHubId: string;
+  startPosition?: LatLngRequest; // Start here rather than at the start hub (parcel on its way)
   driverId: string;
   constraints?: {
     algorithm?: string;
@@ -191,12 +193,14 @@ export interface RouteCalculationRequest {
 
 export interface RouteResponse {
   id: string;
-  routeGeometry: string; // WKT LineString
+  routeGeometry: string; // Geometry (WKT LineString by default, encoded polyline once adapted)
+  routeGeometryFormat?: RouteGeometryFormat; // Default: WKT
   totalDistanceKm: number;
   estimatedDurationMin: number;
   routingService?: string; // Algorithm used (BASIC, OSRM, DIJKSTRA, A_STAR)
   trafficFactor?: number;
   isActive?: boolean;
+  approximate?: boolean; // Built offline by the simulator, not by the routing service
 }
 
 export interface DriverResponse {
@@ -204,22 +208,76 @@ export interface DriverResponse {
   name: string;
   status: string;
   currentLocation?: GeoPointResponse;
+  vehicleType?: string; // MOTO_TAXI, VAN ou TRUCK (défaut: TRUCK)
+}
+
+export interface LatLngRequest {
+  latitude: number;
+  longitude: number;
 }
 
 export interface IncidentRequest {
   type: 'ROAD_CLOSURE' | 'TRAFFIC' | 'VEHICLE_BREAKDOWN' | 'WEATHER';
-  lineStart: {
-    latitude: number;
-    longitude: number;
-  };
-  lineEnd: {
-    latitude: number;
-    longitude: number;
-  };
-  bufferDistance: number; // Buffer width in meters
+  zoneType: 'LINE' | 'POLYGON' | 'CIRCLE';
+  lineStart?: LatLngRequest;  // LINE
+  lineEnd?: LatLngRequest;    // LINE
+  polygon?: LatLngRequest[];  // POLYGON: closed ring
+  center?: LatLngRequest;     // CIRCLE
+  bufferDistance: number; // Meters: buffer width (LINE), radius (CIRCLE), 0 (POLYGON)
+  zoneGeometry: string; // EWKT polygon (SRID=4326) of the whole zone, for PostGIS
   description?: string;
+  algorithm?: string; // Routing algorithm of the new route (default: the route's own)
 }
 
+/**
+ * Adapt a backend route DTO to `RouteResponse`, its geometry kept as an
+ * encoded polyline
+ *
+ * The geometry may come as `path` (GeoPoint[]), `polyline` or `geometry`
+ * (encoded polyline, precision from `polylinePrecision`, default 5),
+ * `geometry` as a GeoJSON LineString, or `routeGeometry` (WKT). Polylines are
+ * kept as sent, the other forms are checked and re-encoded as a precision 6
+ * polyline. The path itself is decoded by whoever follows the route.
+ */
+const adaptRouteGeometry = (data: unknown, missingMessage: string): RouteResponse => {
+  const dto = { ...(data as Record<string, unknown>) };
+  const polylineFormat: RouteGeometryFormat = dto.polylinePrecision === 6 ? 'POLYLINE6' : 'POLYLINE5';
+
+  let raw: unknown;
+  let format: RouteGeometryFormat;
+  if (Array.isArray(dto.path)) {
+    [raw, format] = [dto.path, 'POINTS'];
+  } else if (typeof dto.polyline === 'string') {
+    [raw, format] = [dto.polyline, polylineFormat];
+  } else if (typeof dto.geometry === 'string') {
+    [raw, format] = [dto.geometry, polylineFormat];
+  } else if (dto.geometry && typeof dto.geometry === 'object') {
+    [raw, format] = [dto.geometry, 'GEOJSON'];
+  } else if (typeof dto.routeGeometry === 'string' && dto.routeGeometry) {
+    raw = dto.routeGeometry;
+    format = detectRouteGeometryFormat(dto.routeGeometry) === 'WKT' ? 'WKT' : polylineFormat;
+  } else {
+    console.error('Backend returned route without geometry:', data);
+    throw new Error(missingMessage);
+  }
+
+  const routePath = toRoutePath(raw, format);
+  if (format !== 'POLYLINE5' && format !== 'POLYLINE6') {
+    ({ routeGeometry: raw, routeGeometryFormat: format } = encodeRouteGeometry(routePath));
+  }
+
+  // The raw forms are not kept twice
+  delete dto.path;
+  delete dto.polyline;
+  delete dto.geometry;
+
+  return {
+    ...dto,
+    routeGeometry: raw as string,
+    routeGeometryFormat: format,
+  } as RouteResponse;
+};
+
 // ============================================================================
 // LOGISTICS SERVICE
 // ============================================================================
@@ -283,6 +341,11 @@ export const LogisticsService = {
     return response.data;
   },
 
+  cancelParcel: async (id: string): Promise<ParcelResponse> => {
+    const response = await apiClient.post<ParcelResponse>(`/parcels/${id}/cancel`);
+    return response.data;
+  },
+
   // ===== ROUTES & DELIVERIES =====
 
   calculateRoute: async (data: RouteCalculationRequest): Promise<RouteResponse> => {
@@ -301,26 +364,10 @@ export const LogisticsService = {
       // Send as an object (axios will handle JSON serialization)
       const response = await apiClient.post<any>('/routes/calculate', data);
 
-      // Adapt Backend DTO (path: GeoPoint[]) to Frontend Type (routeGeometry: WKT)
-      if (response.data?.path && Array.isArray(response.data.path)) {
-        const coordinates = response.data.path.map((p: any) => `${p.longitude} ${p.latitude}`).join(', ');
-        response.data.routeGeometry = `LINESTRING(${coordinates})`;
-      }
-
-      // Validate response data
-      if (!response.data?.routeGeometry) {
-        console.error('Backend returned route without geometry:', response.data);
-        throw new Error('Route geometry missing from server response');
-      }
-
-      // Validate that routeGeometry is a valid WKT string
-      if (!response.data.routeGeometry.toUpperCase().startsWith('LINESTRING')) {
-        console.error('Invalid routeGeometry format:', response.data.routeGeometry);
-        throw new Error('Invalid route geometry format from server');
-      }
+      const route = adaptRouteGeometry(response.data, 'Route geometry missing from server response');
 
       toast.success('Itinéraire calculé avec succès');
-      return response.data;
+      return route;
     } catch (error) {
       // Log backend validation/error payload to help debugging (use warn for client errors)
       const axiosErr = error as AxiosError;
@@ -361,20 +408,10 @@ export const LogisticsService = {
         incident
       );
 
-      // Adapt Backend DTO (path: GeoPoint[]) to Frontend Type (routeGeometry: WKT)
-      if (response.data?.path && Array.isArray(response.data.path)) {
-        const coordinates = response.data.path.map((p: any) => `${p.longitude} ${p.latitude}`).join(', ');
-        response.data.routeGeometry = `LINESTRING(${coordinates})`;
-      }
-
-      // Validate response data
-      if (!response.data?.routeGeometry) {
-        console.error('Backend returned route without geometry:', response.data);
-        throw new Error('Route geometry missing from recalculated route');
-      }
+      const route = adaptRouteGeometry(response.data, 'Route geometry missing from recalculated route');
 
       toast.success('Itinéraire recalculé');
-      return response.data;
+      return route;
     } catch (error) {
       toast.error('Erreur lors du recalcul');
       throw error;
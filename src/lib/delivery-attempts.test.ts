@@ -0,0 +1,102 @@
+/**
+ * Absent recipients: re-attempts at the address, then the way back to the
+ * pickup hub
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { DeliveryPolicy, Position, SimulatedParcel } from './type';
+import { SimulationEngine } from './simulation-engine';
+import { advanceClock, createSimulationClock } from './simulation-clock';
+import { attemptDelivery, createReturnRoute, isRecipientAbsent, resolveArrival } from './delivery-attempts';
+import { encodeRouteGeometry, routePathOf } from './route-geometry';
+import { calculatePathDistance } from './wkt-parser';
+
+const path: Position[] = [
+  { lat: 4.05, lng: 9.7 },
+  { lat: 4.06, lng: 9.71 },
+  { lat: 4.07, lng: 9.7 },
+];
+
+const clock = createSimulationClock({ currentTime: Date.UTC(2026, 0, 15, 7) });
+
+function createParcel(policy: Partial<DeliveryPolicy> = {}): SimulatedParcel {
+  const route = {
+    id: 'route-1',
+    ...encodeRouteGeometry(path),
+    totalDistanceKm: calculatePathDistance(path),
+    estimatedDurationMin: 10,
+  };
+  const parcel = SimulationEngine.createSimulatedParcel(
+    { id: 'parcel-1', trackingCode: 'PKG-1' },
+    route,
+    path,
+    clock,
+    { absenceProbability: 0, maxAttempts: 3, retryDelayMin: 30, seed: 1, ...policy }
+  );
+  return SimulationEngine.startParcel(parcel, clock);
+}
+
+describe('attemptDelivery', () => {
+  it('delivers when the recipient is present', () => {
+    const { parcel, event } = attemptDelivery(createParcel(), clock);
+
+    assert.equal(parcel.state, 'DELIVERED');
+    assert.equal(parcel.deliveryAttempts, 1);
+    assert.deepEqual(parcel.actualArrival, new Date(clock.currentTime));
+    assert.deepEqual(event, { type: 'PARCEL_DELIVERED', parcelId: 'parcel-1' });
+  });
+
+  it('waits at the address, then gives up after the last attempt', () => {
+    let parcel = createParcel({ absenceProbability: 1 });
+    let now = clock;
+
+    for (const attempt of [1, 2]) {
+      const result = attemptDelivery(parcel, now);
+      assert.deepEqual(result.event, { type: 'DELIVERY_FAILED', parcelId: 'parcel-1', attempt });
+      assert.deepEqual(result.parcel.nextAttemptAt, new Date(now.currentTime + 30 * 60 * 1000));
+
+      parcel = result.parcel;
+      now = advanceClock(now, 30 * 60 * 1000);
+    }
+
+    const { parcel: abandoned, event } = attemptDelivery(parcel, now);
+    assert.deepEqual(event, { type: 'DELIVERY_ABANDONED', parcelId: 'parcel-1' });
+    assert.equal(abandoned.deliveryAttempts, 3);
+    assert.equal(abandoned.returningToHub, true);
+    assert.equal(abandoned.nextAttemptAt, null);
+    assert.deepEqual(abandoned.routePath, []);
+    assert.equal(abandoned.routeHistory.length, 1);
+  });
+
+  it('draws the same absences on every run', () => {
+    const attempts = [1, 2, 3, 4, 5, 6, 7, 8];
+    const drawsOf = (seed: number) => {
+      const parcel = createParcel({ absenceProbability: 0.5, seed });
+      return attempts.map(attempt => isRecipientAbsent(parcel, attempt));
+    };
+
+    assert.deepEqual(drawsOf(42), drawsOf(42));
+    assert.notDeepEqual(drawsOf(42), drawsOf(7));
+  });
+});
+
+describe('return to the pickup hub', () => {
+  it('drives the parcel route backwards when the backend has none', () => {
+    const returnLeg = createReturnRoute(createParcel());
+
+    assert.ok(returnLeg);
+    assert.equal(returnLeg.route.id, 'route-1-return');
+    assert.deepEqual(returnLeg.routePath, [...path].reverse());
+    assert.deepEqual(routePathOf(returnLeg.route), returnLeg.routePath);
+  });
+
+  it('fails the parcel once it is back', () => {
+    const returning = { ...createParcel(), returningToHub: true };
+    const { parcel, event } = resolveArrival(returning, clock);
+
+    assert.equal(parcel.state, 'FAILED');
+    assert.equal(parcel.returningToHub, false);
+    assert.deepEqual(event, { type: 'PARCEL_RETURNED', parcelId: 'parcel-1' });
+  });
+});
@@ -0,0 +1,130 @@
+/**
+ * Delivery Attempts
+ * Absent recipients, re-attempts and return of the parcel to its pickup hub
+ */
+
+import {
+  DeliveryPolicy,
+  Position,
+  RouteResponse,
+  SimulatedParcel,
+  SimulationClock,
+  SimulationEvent,
+} from './type';
+import { clockDate } from './simulation-clock';
+import { encodeRouteGeometry, routePathOf } from './route-geometry';
+import { hashToUnit } from './seeded-random';
+import { leaveRoute } from './route-history';
+
+export const DEFAULT_DELIVERY_POLICY: DeliveryPolicy = {
+  absenceProbability: 0, // Désactivé par défaut : toutes les livraisons réussissent
+  maxAttempts: 3,
+  retryDelayMin: 30,
+  seed: 1,
+};
+
+/**
+ * True when the recipient is absent for the given attempt (1-based)
+ *
+ * The draw is derived from the seed, parcel and attempt number: replaying the
+ * journal gives the same outcome without storing any random state.
+ */
+export function isRecipientAbsent(
+  parcel: Pick<SimulatedParcel, 'id' | 'deliveryPolicy'>,
+  attempt: number
+): boolean {
+  const { absenceProbability, seed } = parcel.deliveryPolicy;
+  return hashToUnit(`${seed}:${parcel.id}:${attempt}`) < absenceProbability;
+}
+
+/**
+ * Try to hand the parcel over at its delivery address
+ *
+ * - recipient present: DELIVERED
+ * - absent, attempts left: wait `retryDelayMin` at the address
+ * - absent, no attempt left: the parcel must go back to its pickup hub and
+ *   waits (without a path) for the return route
+ */
+export function attemptDelivery(
+  parcel: SimulatedParcel,
+  clock: SimulationClock
+): { parcel: SimulatedParcel; event: SimulationEvent } {
+  const attempt = parcel.deliveryAttempts + 1;
+  const attempted = { ...parcel, deliveryAttempts: attempt, nextAttemptAt: null };
+
+  if (!isRecipientAbsent(parcel, attempt)) {
+    return {
+      parcel: {
+        ...attempted,
+        state: 'DELIVERED',
+        progress: 1,
+        actualArrival: clockDate(clock),
+      },
+      event: { type: 'PARCEL_DELIVERED', parcelId: parcel.id },
+    };
+  }
+
+  if (attempt < parcel.deliveryPolicy.maxAttempts) {
+    return {
+      parcel: {
+        ...attempted,
+        nextAttemptAt: clockDate(clock, parcel.deliveryPolicy.retryDelayMin * 60 * 1000),
+      },
+      event: { type: 'DELIVERY_FAILED', parcelId: parcel.id, attempt },
+    };
+  }
+
+  return {
+    parcel: {
+      ...attempted,
+      returningToHub: true,
+      routeHistory: leaveRoute(attempted, clock),
+      routePath: [],
+      cumulativeDistances: [],
+      distanceTravelledKm: 0,
+      pathIndex: 0,
+      progress: 0,
+    },
+    event: { type: 'DELIVERY_ABANDONED', parcelId: parcel.id },
+  };
+}
+
+/**
+ * Handle a parcel reaching the end of its path: delivery attempt, or end of
+ * the return leg (FAILED)
+ */
+export function resolveArrival(
+  parcel: SimulatedParcel,
+  clock: SimulationClock
+): { parcel: SimulatedParcel; event: SimulationEvent } {
+  if (!parcel.returningToHub) {
+    return attemptDelivery(parcel, clock);
+  }
+
+  return {
+    parcel: { ...parcel, state: 'FAILED', progress: 1, returningToHub: false },
+    event: { type: 'PARCEL_RETURNED', parcelId: parcel.id },
+  };
+}
+
+/**
+ * Return leg built offline from the parcel's own route, driven backwards
+ * Used when the backend cannot compute the way back
+ */
+export function createReturnRoute(
+  parcel: SimulatedParcel
+): { route: RouteResponse; routePath: Position[] } | null {
+  if (!parcel.route) return null;
+
+  const routePath = [...routePathOf(parcel.route)].reverse();
+  if (routePath.length < 2) return null;
+
+  return {
+    route: {
+      ...parcel.route,
+      id: `${parcel.route.id}-return`,
+      ...encodeRouteGeometry(routePath),
+    },
+    routePath,
+  };
+}
@@ -0,0 +1,233 @@
+/**
+ * Demand Generator
+ * Stochastic parcel arrivals across hubs: Poisson arrivals per hub,
+ * origin-destination weights and parcel weight distribution
+ */
+
+import { GeoPointResponse, ParcelResponse, RouteResponse } from './type';
+import { nextRandom } from './seeded-random';
+import { haversineDistance } from './wkt-parser';
+import { encodeRouteGeometry } from './route-geometry';
+
+export type WeightDistribution =
+  | { type: 'UNIFORM'; minKg: number; maxKg: number }
+  | { type: 'NORMAL'; meanKg: number; stdDevKg: number; minKg: number }; // Tronquée à minKg
+
+export interface HubDemand {
+  hubId: string;
+  ratePerHour: number; // Intensité du processus de Poisson (colis/h au départ du hub)
+}
+
+export interface DemandModel {
+  hubs: HubDemand[];
+  // Poids origine → destination (relatifs, hubs quelconques). Sans entrée pour
+  // une origine, les autres hubs de `hubs` sont équiprobables.
+  odWeights?: Record<string, Record<string, number>>;
+  weightDistribution: WeightDistribution;
+  seed: number;
+}
+
+export interface DemandArrival {
+  sequence: number;  // Numéro de la demande (1, 2, ...)
+  time: number;      // Temps simulé d'arrivée (ms epoch)
+  originHubId: string;
+  destinationHubId: string;
+  weightKg: number;
+}
+
+// État du générateur : sérialisable, pour reprendre le tirage où il s'est arrêté
+export interface DemandGeneratorState {
+  rng: number;
+  nextArrivals: Record<string, number>; // Prochaine arrivée par hub d'origine
+  generated: number;
+}
+
+export const DEFAULT_WEIGHT_DISTRIBUTION: WeightDistribution = {
+  type: 'UNIFORM',
+  minKg: 0.5,
+  maxKg: 20,
+};
+
+const LOCAL_ROUTE_SPEED_KMH = 40;
+
+// ============================================================================
+// Draws
+// ============================================================================
+
+/**
+ * Exponential inter-arrival time (ms) for a Poisson process of `ratePerHour`
+ */
+function drawInterArrivalMs(rng: number, ratePerHour: number): { value: number; rng: number } {
+  const { value, state } = nextRandom(rng);
+  const hours = -Math.log(1 - value) / ratePerHour;
+  return { value: hours * 60 * 60 * 1000, rng: state };
+}
+
+/**
+ * Destination drawn from the origin-destination weights
+ */
+function drawDestination(
+  rng: number,
+  model: DemandModel,
+  originHubId: string,
+  hubIds: string[]
+): { value: string | null; rng: number } {
+  const weights = model.odWeights?.[originHubId];
+  const candidates = (weights
+    ? Object.entries(weights).map(([id, weight]) => ({ id, weight }))
+    : hubIds.map(id => ({ id, weight: 1 })))
+    .filter(c => c.id !== originHubId && c.weight > 0);
+
+  const total = candidates.reduce((sum, c) => sum + c.weight, 0);
+  if (total === 0) return { value: null, rng };
+
+  const { value, state } = nextRandom(rng);
+  let threshold = value * total;
+  for (const candidate of candidates) {
+    threshold -= candidate.weight;
+    if (threshold < 0) return { value: candidate.id, rng: state };
+  }
+  return { value: candidates[candidates.length - 1].id, rng: state };
+}
+
+/**
+ * Parcel weight (kg, rounded to 100 g) from the weight distribution
+ */
+function drawWeight(rng: number, distribution: WeightDistribution): { value: number; rng: number } {
+  const first = nextRandom(rng);
+  let weightKg: number;
+  let state = first.state;
+
+  if (distribution.type === 'UNIFORM') {
+    weightKg = distribution.minKg + first.value * (distribution.maxKg - distribution.minKg);
+  } else {
+    // Box-Muller
+    const second = nextRandom(state);
+    state = second.state;
+    const gaussian = Math.sqrt(-2 * Math.log(1 - first.value)) * Math.cos(2 * Math.PI * second.value);
+    weightKg = Math.max(distribution.meanKg + gaussian * distribution.stdDevKg, distribution.minKg);
+  }
+
+  return { value: Math.round(weightKg * 10) / 10, rng: state };
+}
+
+// ============================================================================
+// Generator
+// ============================================================================
+
+/**
+ * Start the generator at `startTime`: first arrival drawn for every hub
+ */
+export function createDemandGenerator(model: DemandModel, startTime: number): DemandGeneratorState {
+  let rng = model.seed | 0;
+  const nextArrivals: Record<string, number> = {};
+
+  for (const hub of model.hubs) {
+    if (hub.ratePerHour <= 0) continue;
+
+    const draw = drawInterArrivalMs(rng, hub.ratePerHour);
+    rng = draw.rng;
+    nextArrivals[hub.hubId] = startTime + draw.value;
+  }
+
+  return { rng, nextArrivals, generated: 0 };
+}
+
+/**
+ * Draw every arrival up to `untilTime` (inclusive), in time order
+ */
+export function drawArrivals(
+  model: DemandModel,
+  generator: DemandGeneratorState,
+  untilTime: number
+): { generator: DemandGeneratorState; arrivals: DemandArrival[] } {
+  const hubIds = model.hubs.map(h => h.hubId);
+  const nextArrivals = { ...generator.nextArrivals };
+  const arrivals: DemandArrival[] = [];
+  let { rng, generated } = generator;
+
+  for (;;) {
+    // Earliest pending arrival over all hubs
+    const due = Object.entries(nextArrivals)
+      .filter(([, time]) => time <= untilTime)
+      .sort((a, b) => a[1] - b[1])[0];
+    if (!due) break;
+
+    const [originHubId, time] = due;
+    const hub = model.hubs.find(h => h.hubId === originHubId);
+    if (!hub) {
+      delete nextArrivals[originHubId];
+      continue;
+    }
+
+    const destination = drawDestination(rng, model, originHubId, hubIds);
+    const weight = drawWeight(destination.rng, model.weightDistribution);
+    const interArrival = drawInterArrivalMs(weight.rng, hub.ratePerHour);
+    rng = interArrival.rng;
+    nextArrivals[originHubId] = time + interArrival.value;
+
+    if (destination.value) {
+      arrivals.push({
+        sequence: ++generated,
+        time,
+        originHubId,
+        destinationHubId: destination.value,
+        weightKg: weight.value,
+      });
+    }
+  }
+
+  return { generator: { rng, nextArrivals, generated }, arrivals };
+}
+
+/**
+ * Every arrival of `model` between `startTime` and `endTime`
+ */
+export function generateDemand(model: DemandModel, startTime: number, endTime: number): DemandArrival[] {
+  return drawArrivals(model, createDemandGenerator(model, startTime), endTime).arrivals;
+}
+
+// ============================================================================
+// Local stand-in (no backend)
+// ============================================================================
+
+/**
+ * Parcel built locally for a generated arrival
+ */
+export function createLocalParcel(arrival: DemandArrival): ParcelResponse {
+  const sequence = String(arrival.sequence).padStart(4, '0');
+
+  return {
+    id: `demand-${sequence}`,
+    trackingCode: `DEM-${sequence}`,
+    currentState: 'PLANNED',
+    pickupLocation: arrival.originHubId,
+    deliveryLocation: arrival.destinationHubId,
+    senderName: 'Demande simulée',
+    recipientName: 'Demande simulée',
+    weightKg: arrival.weightKg,
+  };
+}
+
+/**
+ * Straight-line route between two hubs, driven at the local average speed
+ */
+export function createLocalRoute(
+  id: string,
+  origin: GeoPointResponse,
+  destination: GeoPointResponse
+): RouteResponse {
+  const path = [
+    { lat: origin.latitude, lng: origin.longitude },
+    { lat: destination.latitude, lng: destination.longitude },
+  ];
+  const totalDistanceKm = haversineDistance(path[0], path[1]);
+
+  return {
+    id,
+    ...encodeRouteGeometry(path),
+    totalDistanceKm,
+    estimatedDurationMin: (totalDistanceKm / LOCAL_ROUTE_SPEED_KMH) * 60,
+    routingService: 'LOCAL',
+  };
+}
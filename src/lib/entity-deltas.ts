@@ -0,0 +1,69 @@
+/**
+ * Entity Deltas
+ * Compact diff of parcels and vehicles between two frames, posted by the
+ * simulation worker to the view
+ */
+
+import { EntityDelta } from './type';
+
+/**
+ * List the fields that changed for each entity updated between two frames
+ *
+ * Only top-level references are compared: the engine always returns new
+ * objects for what it modifies, so unchanged routes and paths are never sent.
+ */
+export function computeDeltas<T extends { id: string }>(
+  previous: Map<string, T>,
+  next: Map<string, T>
+): EntityDelta<T>[] {
+  const deltas: EntityDelta<T>[] = [];
+
+  for (const [id, entity] of next.entries()) {
+    const before = previous.get(id);
+    if (before === entity) continue;
+
+    const delta = { id } as EntityDelta<T>;
+    for (const key of Object.keys(entity) as (keyof T)[]) {
+      if (!before || before[key] !== entity[key]) {
+        (delta as Record<string, unknown>)[key as string] = entity[key];
+      }
+    }
+    deltas.push(delta);
+  }
+
+  return deltas;
+}
+
+/**
+ * Ids of the entities present in the previous frame only
+ */
+export function removedIds<T extends { id: string }>(
+  previous: Map<string, T>,
+  next: Map<string, T>
+): string[] {
+  if (previous === next) return [];
+  return [...previous.keys()].filter(id => !next.has(id));
+}
+
+/**
+ * Merge deltas into an entity map: the delta of an unknown entity is the
+ * whole entity, as `computeDeltas` lists every field of a new one
+ */
+export function applyDeltas<T extends { id: string }>(
+  entities: Map<string, T>,
+  deltas: EntityDelta<T>[],
+  removed: string[] = []
+): Map<string, T> {
+  if (deltas.length === 0 && removed.length === 0) return entities;
+
+  const updated = new Map(entities);
+  for (const delta of deltas) {
+    const existing = updated.get(delta.id);
+    updated.set(delta.id, existing ? { ...existing, ...delta } : delta as T);
+  }
+  for (const id of removed) {
+    updated.delete(id);
+  }
+
+  return updated;
+}
@@ -0,0 +1,120 @@
+/**
+ * Upcoming events in time order, and the ticks a jump needs to reach them
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Incident, Position, SimulatedParcel } from './type';
+import { SimulationEngine } from './simulation-engine';
+import { createSimulationClock } from './simulation-clock';
+import { MAX_JUMP_MS, SchedulerState, nextScheduledEvent, ticksUntil, upcomingEvents } from './event-scheduler';
+import { DEFAULT_TRAFFIC_PROFILE } from './traffic-profiles';
+import { encodeRouteGeometry } from './route-geometry';
+import { calculatePathDistance } from './wkt-parser';
+
+const path: Position[] = [
+  { lat: 4.05, lng: 9.7 },
+  { lat: 4.06, lng: 9.71 },
+  { lat: 4.07, lng: 9.7 },
+];
+
+const clock = createSimulationClock({ currentTime: Date.UTC(2026, 0, 15, 7), tickMs: 100 });
+const minutes = (count: number) => count * 60 * 1000;
+
+function createParcel(): SimulatedParcel {
+  const route = {
+    id: 'route-1',
+    ...encodeRouteGeometry(path),
+    totalDistanceKm: calculatePathDistance(path),
+    estimatedDurationMin: 10,
+  };
+  const parcel = SimulationEngine.createSimulatedParcel(
+    { id: 'parcel-1', trackingCode: 'PKG-1' },
+    route,
+    path,
+    clock
+  );
+  return SimulationEngine.startParcel(parcel, clock);
+}
+
+function createIncident(startsInMin: number, endsInMin: number | null): Incident {
+  return {
+    id: 'incident-1',
+    type: 'TRAFFIC',
+    zone: { shape: 'LINE', start: { lat: 4.1, lng: 9.8 }, end: { lat: 4.11, lng: 9.8 }, widthM: 50 },
+    affectedRouteIds: [],
+    timestamp: new Date(clock.currentTime),
+    startsAt: new Date(clock.currentTime + minutes(startsInMin)),
+    endsAt: endsInMin === null ? null : new Date(clock.currentTime + minutes(endsInMin)),
+    resolved: false,
+    description: 'Embouteillage',
+  };
+}
+
+function schedulerState(parcels: SimulatedParcel[], incidents: Incident[] = []): SchedulerState {
+  return {
+    parcels: new Map(parcels.map(p => [p.id, p])),
+    vehicles: new Map(),
+    incidents: new Map(incidents.map(i => [i.id, i])),
+    clock,
+    journal: [],
+    replayCursor: 0,
+    trafficProfile: { ...DEFAULT_TRAFFIC_PROFILE, enabled: false },
+  };
+}
+
+describe('upcomingEvents', () => {
+  it('lists incident changes and arrivals soonest first', () => {
+    const events = upcomingEvents(schedulerState([createParcel()], [createIncident(1, 120)]));
+
+    assert.deepEqual(events.map(e => e.kind), ['INCIDENT_START', 'ARRIVAL', 'INCIDENT_END']);
+    assert.ok(events.every((e, i) => i === 0 || events[i - 1].time <= e.time));
+  });
+
+  it('leaves out what already happened', () => {
+    const events = upcomingEvents(schedulerState([], [createIncident(-5, 10)]));
+    assert.deepEqual(events.map(e => e.kind), ['INCIDENT_END']);
+  });
+});
+
+describe('nextScheduledEvent', () => {
+  it('waits for a failed recalculation to be retried', () => {
+    const parcel: SimulatedParcel = {
+      ...createParcel(),
+      state: 'INCIDENT',
+      pendingRecalculation: { incidentId: 'incident-1', retryAt: new Date(clock.currentTime + minutes(2)) },
+    };
+    const next = nextScheduledEvent(schedulerState([parcel]));
+
+    assert.equal(next?.kind, 'DEPARTURE');
+    assert.equal(next?.time, clock.currentTime + minutes(2));
+  });
+
+  it('finds nothing when nothing will happen on its own', () => {
+    const waiting: SimulatedParcel = {
+      ...createParcel(),
+      state: 'INCIDENT',
+      pendingRecalculation: { incidentId: 'incident-1', retryAt: null },
+    };
+    assert.equal(nextScheduledEvent(schedulerState([waiting], [createIncident(-5, null)])), null);
+  });
+});
+
+describe('ticksUntil', () => {
+  const state = schedulerState([]);
+
+  it('reaches a scheduled event exactly', () => {
+    const event = { kind: 'INCIDENT_START' as const, time: clock.currentTime + minutes(1), label: '' };
+    assert.equal(ticksUntil(state, event), 600);
+  });
+
+  it('runs past an estimated arrival to stop on the actual one', () => {
+    const event = { kind: 'ARRIVAL' as const, time: clock.currentTime + minutes(1), label: '' };
+    assert.equal(ticksUntil(state, event), 1200);
+  });
+
+  it('never jumps further than a day', () => {
+    const event = { kind: 'INCIDENT_START' as const, time: clock.currentTime + 3 * MAX_JUMP_MS, label: '' };
+    assert.equal(ticksUntil(state, event), MAX_JUMP_MS / clock.tickMs);
+  });
+});
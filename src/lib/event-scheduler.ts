@@ -0,0 +1,143 @@
+/**
+ * Event Scheduler
+ * Upcoming discrete events of the simulation, so quiet stretches can be
+ * skipped instead of waited out
+ */
+
+import { ScheduledEvent, SimulatedParcel, SimulatedVehicle, SimulationState } from './type';
+import { estimateTravelMs, trafficFactorAt } from './traffic-profiles';
+import { speedFactorAt } from './incident-effects';
+
+// Un saut vers le prochain événement ne dépasse jamais cette durée simulée
+export const MAX_JUMP_MS = 24 * 60 * 60 * 1000;
+
+// Les arrivées sont estimées : le saut les dépasse de cette marge et
+// s'arrête sur l'événement moteur de l'arrivée réelle
+const ARRIVAL_MARGIN_MS = 60 * 1000;
+
+export type SchedulerState = Pick<
+  SimulationState,
+  'parcels' | 'vehicles' | 'incidents' | 'clock' | 'journal' | 'replayCursor' | 'trafficProfile'
+>;
+
+/**
+ * Time at which a parcel on its own next changes by itself, or null while it
+ * waits for the operator (held, planned) or is finished
+ */
+function parcelEvent(parcel: SimulatedParcel, state: SchedulerState): ScheduledEvent | null {
+  if (parcel.vehicleId || parcel.onHold) return null;
+  const now = state.clock.currentTime;
+
+  if (parcel.state === 'INCIDENT' && parcel.immobilizedUntil) {
+    return { kind: 'DEPARTURE', time: parcel.immobilizedUntil.getTime(), label: `Fin de réparation ${parcel.trackingCode}` };
+  }
+
+  if (parcel.pendingRecalculation) {
+    const { retryAt } = parcel.pendingRecalculation;
+    return retryAt
+      ? { kind: 'DEPARTURE', time: retryAt.getTime(), label: `Nouvel essai de recalcul ${parcel.trackingCode}` }
+      : null;
+  }
+
+  if (parcel.nextAttemptAt) {
+    return { kind: 'DEPARTURE', time: parcel.nextAttemptAt.getTime(), label: `Nouvelle tentative ${parcel.trackingCode}` };
+  }
+
+  if (parcel.state !== 'TRANSIT') return null;
+
+  const travelMs = estimateTravelMs(parcel, now, state.incidents, state.trafficProfile);
+  return { kind: 'ARRIVAL', time: now + travelMs, label: `Arrivée ${parcel.trackingCode}` };
+}
+
+/**
+ * Repair end, next recalculation attempt or arrival at the next stop of a tour
+ *
+ * The arrival is estimated at the vehicle's current speed; the jump stops on
+ * the engine event of the actual stop.
+ */
+function vehicleEvent(vehicle: SimulatedVehicle, state: SchedulerState): ScheduledEvent | null {
+  if (vehicle.state === 'INCIDENT' && vehicle.immobilizedUntil) {
+    return { kind: 'DEPARTURE', time: vehicle.immobilizedUntil.getTime(), label: `Fin de réparation ${vehicle.driverName}` };
+  }
+
+  if (vehicle.pendingRecalculation) {
+    const { retryAt } = vehicle.pendingRecalculation;
+    return retryAt
+      ? { kind: 'DEPARTURE', time: retryAt.getTime(), label: `Nouvel essai de recalcul ${vehicle.driverName}` }
+      : null;
+  }
+
+  const stop = vehicle.stops[vehicle.nextStopIndex];
+  if (vehicle.state !== 'EN_ROUTE' || !stop) return null;
+
+  const now = state.clock.currentTime;
+  const speed = vehicle.speed
+    * trafficFactorAt(vehicle.currentPosition, now, state.trafficProfile)
+    * speedFactorAt(vehicle.currentPosition, state.incidents, now);
+  if (speed <= 0) return null;
+
+  const remainingKm = Math.max(stop.distanceKm - vehicle.distanceTravelledKm, 0);
+  const stopLabel = stop.type === 'PICKUP' ? 'Enlèvement' : 'Livraison';
+  return {
+    kind: 'ARRIVAL',
+    time: now + (remainingKm / speed) * 60 * 60 * 1000,
+    label: `${stopLabel} ${vehicle.driverName}`,
+  };
+}
+
+/**
+ * Every event still ahead of the clock, soonest first
+ */
+export function upcomingEvents(state: SchedulerState): ScheduledEvent[] {
+  const now = state.clock.currentTime;
+  const events: ScheduledEvent[] = [];
+
+  for (const parcel of state.parcels.values()) {
+    const event = parcelEvent(parcel, state);
+    if (event) events.push(event);
+
+    const finished = parcel.state === 'DELIVERED' || parcel.state === 'FAILED' || parcel.state === 'CANCELLED';
+    if (parcel.deliveryDeadline && !parcel.slaBreached && !finished) {
+      events.push({ kind: 'SLA_DEADLINE', time: parcel.deliveryDeadline.getTime(), label: `Échéance ${parcel.trackingCode}` });
+    }
+  }
+
+  for (const vehicle of state.vehicles.values()) {
+    const event = vehicleEvent(vehicle, state);
+    if (event) events.push(event);
+  }
+
+  for (const incident of state.incidents.values()) {
+    if (incident.resolved) continue;
+    events.push({ kind: 'INCIDENT_START', time: incident.startsAt.getTime(), label: `Début : ${incident.description}` });
+    if (incident.endsAt) {
+      events.push({ kind: 'INCIDENT_END', time: incident.endsAt.getTime(), label: `Fin : ${incident.description}` });
+    }
+  }
+
+  // Recorded actions still to replay, in journal order
+  const nextEntry = state.journal[state.replayCursor];
+  if (nextEntry) {
+    events.push({ kind: 'JOURNAL', time: nextEntry.simTime, label: `Action rejouée : ${nextEntry.action.type}` });
+  }
+
+  return events
+    .filter(e => e.time > now)
+    .sort((a, b) => a.time - b.time);
+}
+
+/**
+ * Soonest upcoming event, or null when nothing will happen on its own
+ */
+export function nextScheduledEvent(state: SchedulerState): ScheduledEvent | null {
+  return upcomingEvents(state)[0] ?? null;
+}
+
+/**
+ * Ticks needed to reach the event, capped to `MAX_JUMP_MS`
+ */
+export function ticksUntil(state: SchedulerState, event: ScheduledEvent): number {
+  const time = event.kind === 'ARRIVAL' ? event.time + ARRIVAL_MARGIN_MS : event.time;
+  const deltaMs = Math.min(time - state.clock.currentTime, MAX_JUMP_MS);
+  return Math.max(Math.ceil(deltaMs / state.clock.tickMs), 1);
+}
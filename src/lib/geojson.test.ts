@@ -0,0 +1,132 @@
+/**
+ * Hubs and incidents exported to GeoJSON read back as they were, and routes
+ * and trajectories exported for display only
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { GeoPointResponse, Incident, IncidentZone, Position, SimulatedParcel } from './type';
+import { SimulationEngine } from './simulation-engine';
+import { clockDate, createSimulationClock } from './simulation-clock';
+import { circleZone, lineZone, polygonZone } from './incident-effects';
+import { exportGeoJSON, importGeoJSON } from './geojson';
+import { encodeRouteGeometry } from './route-geometry';
+import { calculatePathDistance, haversineDistance } from './wkt-parser';
+
+const clock = createSimulationClock({ currentTime: Date.UTC(2026, 0, 15, 7) });
+
+const hubs: GeoPointResponse[] = [
+  { id: 'hub-deido', address: 'Deido', latitude: 4.0631, longitude: 9.7112, type: 'HUB' },
+  { id: 'hub-bonaberi', address: 'Bonabéri', latitude: 4.0759, longitude: 9.6695, type: 'DEPOT' },
+];
+
+function createIncident(id: string, zone: IncidentZone, overrides: Partial<Incident> = {}): Incident {
+  return {
+    id,
+    type: 'ROAD_CLOSURE',
+    zone,
+    affectedRouteIds: [],
+    // Set to the import time on the way back
+    timestamp: clockDate(clock),
+    startsAt: new Date(clock.currentTime + 10 * 60 * 1000),
+    endsAt: new Date(clock.currentTime + 70 * 60 * 1000),
+    resolved: false,
+    description: id,
+    // Read back as explicit properties
+    speedFactor: undefined,
+    repairDurationMin: undefined,
+    ...overrides,
+  };
+}
+
+const incidents: Incident[] = [
+  createIncident('bridge', lineZone({ lat: 4.06, lng: 9.685 }, { lat: 4.062, lng: 9.695 }, 'ROAD_CLOSURE')),
+  createIncident('rain', circleZone({ lat: 4.05, lng: 9.7 }, 800), { type: 'WEATHER', speedFactor: 0.6, endsAt: null }),
+  createIncident(
+    'flood',
+    polygonZone([
+      { lat: 4.04, lng: 9.7 },
+      { lat: 4.04, lng: 9.71 },
+      { lat: 4.05, lng: 9.71 },
+      { lat: 4.04, lng: 9.7 },
+    ]),
+    { type: 'TRAFFIC', speedFactor: 0.3, resolved: true }
+  ),
+  createIncident('breakdown', circleZone({ lat: 4.07, lng: 9.69 }, 30), { type: 'VEHICLE_BREAKDOWN', repairDurationMin: 20 }),
+];
+
+function movedParcel(): SimulatedParcel {
+  const path: Position[] = [
+    { lat: 4.0631, lng: 9.7112 },
+    { lat: 4.066, lng: 9.69 },
+    { lat: 4.0759, lng: 9.6695 },
+  ];
+  const route = {
+    id: 'route-1',
+    ...encodeRouteGeometry(path),
+    totalDistanceKm: calculatePathDistance(path),
+    estimatedDurationMin: 15,
+  };
+  const parcel = SimulationEngine.startParcel(
+    SimulationEngine.createSimulatedParcel({ id: 'parcel-1', trackingCode: 'PKG-1' }, route, path, clock),
+    clock
+  );
+  const position = { lat: 4.068, lng: 9.686 };
+  return {
+    ...parcel,
+    pathIndex: 1,
+    currentPosition: position,
+    distanceTravelledKm: parcel.cumulativeDistances[1] + haversineDistance(path[1], position),
+  };
+}
+
+// Exported as a file would be: through JSON text
+function roundTrip(source: Parameters<typeof exportGeoJSON>[0]) {
+  return importGeoJSON(JSON.parse(JSON.stringify(exportGeoJSON(source))), clock);
+}
+
+describe('GeoJSON round trip', () => {
+  it('reads hubs back as they were', () => {
+    const imported = roundTrip({ hubs, parcels: new Map(), vehicles: new Map(), incidents: new Map() });
+
+    assert.deepEqual(imported.hubs, hubs);
+    assert.deepEqual(imported.incidents, []);
+    assert.equal(imported.skipped, 0);
+  });
+
+  it('reads every incident shape back as it was drawn', () => {
+    const imported = roundTrip({
+      hubs: [],
+      parcels: new Map(),
+      vehicles: new Map(),
+      incidents: new Map(incidents.map(i => [i.id, i])),
+    });
+
+    assert.deepEqual(imported.incidents, incidents);
+  });
+
+  it('skips the routes and trajectories it exported', () => {
+    const parcel = movedParcel();
+    const exported = exportGeoJSON({
+      hubs: [],
+      parcels: new Map([[parcel.id, parcel]]),
+      vehicles: new Map(),
+      incidents: new Map(),
+    });
+
+    const layers = exported.features.map(f => f.properties?.layer);
+    assert.deepEqual(layers, ['route', 'trajectory']);
+
+    const trajectory = exported.features[1].geometry;
+    assert.deepEqual(trajectory, {
+      type: 'LineString',
+      coordinates: [
+        ...parcel.routePath.slice(0, 2).map(p => [p.lng, p.lat]),
+        [parcel.currentPosition.lng, parcel.currentPosition.lat],
+      ],
+    });
+
+    const imported = importGeoJSON(exported, clock);
+    assert.deepEqual(imported, { hubs: [], incidents: [], skipped: 2 });
+  });
+});
@@ -0,0 +1,366 @@
+/**
+ * GeoJSON
+ * Exchange of hubs, routes, incidents and trajectories with GIS tools (QGIS)
+ * as RFC 7946 FeatureCollections
+ */
+
+import {
+  GeoCoordinate,
+  GeoJSONFeature,
+  GeoJSONFeatureCollection,
+  GeoJSONGeometry,
+  GeoJSONLayer,
+  GeoJSONPosition,
+  GeoPointResponse,
+  Geometry,
+  Incident,
+  IncidentType,
+  IncidentZone,
+  Position,
+  SimulationClock,
+  SimulationState,
+} from './type';
+import { circleZone, incidentOutline, lineZone, polygonZone } from './incident-effects';
+import { clockDate } from './simulation-clock';
+import { drivenPath, parcelTrajectory } from './route-history';
+
+const INCIDENT_TYPES: IncidentType[] = ['ROAD_CLOSURE', 'TRAFFIC', 'VEHICLE_BREAKDOWN', 'WEATHER'];
+
+export type GeoJSONSource = Pick<SimulationState, 'hubs' | 'parcels' | 'vehicles' | 'incidents'>;
+
+// Objets à ajouter à la simulation après lecture d'une FeatureCollection
+export interface GeoJSONImport {
+  hubs: GeoPointResponse[];
+  incidents: Incident[];
+  skipped: number; // Objets ignorés (itinéraires, trajectoires, géométries non prises en charge)
+}
+
+// ============================================================================
+// GEOMETRY CONVERSION
+// ============================================================================
+
+function toGeoJSONPosition(coordinate: GeoCoordinate): GeoJSONPosition {
+  return coordinate.z !== undefined
+    ? [coordinate.lng, coordinate.lat, coordinate.z]
+    : [coordinate.lng, coordinate.lat];
+}
+
+function fromGeoJSONPosition(position: GeoJSONPosition): GeoCoordinate {
+  const [lng, lat, z] = position;
+  if (typeof lng !== 'number' || typeof lat !== 'number') {
+    throw new Error(`Invalid GeoJSON position: ${JSON.stringify(position)}`);
+  }
+  return z !== undefined ? { lat, lng, z } : { lat, lng };
+}
+
+/**
+ * GeoJSON geometry of a parsed WKT geometry; M ordinates have no GeoJSON
+ * equivalent and are dropped, an empty point gives null
+ */
+export function toGeoJSONGeometry(geometry: Geometry): GeoJSONGeometry | null {
+  switch (geometry.type) {
+    case 'Point':
+      return geometry.coordinates
+        ? { type: 'Point', coordinates: toGeoJSONPosition(geometry.coordinates) }
+        : null;
+    case 'LineString':
+    case 'MultiPoint':
+      return { type: geometry.type, coordinates: geometry.coordinates.map(toGeoJSONPosition) };
+    case 'Polygon':
+    case 'MultiLineString':
+      return { type: geometry.type, coordinates: geometry.coordinates.map(line => line.map(toGeoJSONPosition)) };
+    case 'MultiPolygon':
+      return {
+        type: 'MultiPolygon',
+        coordinates: geometry.coordinates.map(polygon => polygon.map(ring => ring.map(toGeoJSONPosition))),
+      };
+    case 'GeometryCollection':
+      return {
+        type: 'GeometryCollection',
+        geometries: geometry.geometries
+          .map(toGeoJSONGeometry)
+          .filter((g): g is GeoJSONGeometry => g !== null),
+      };
+  }
+}
+
+/**
+ * Typed geometry of a GeoJSON geometry, as `parseWKT` would return it
+ */
+export function fromGeoJSONGeometry(geometry: GeoJSONGeometry): Geometry {
+  switch (geometry.type) {
+    case 'Point':
+      return { type: 'Point', coordinates: fromGeoJSONPosition(geometry.coordinates) };
+    case 'LineString':
+    case 'MultiPoint':
+      return { type: geometry.type, coordinates: geometry.coordinates.map(fromGeoJSONPosition) };
+    case 'Polygon':
+    case 'MultiLineString':
+      return { type: geometry.type, coordinates: geometry.coordinates.map(line => line.map(fromGeoJSONPosition)) };
+    case 'MultiPolygon':
+      return {
+        type: 'MultiPolygon',
+        coordinates: geometry.coordinates.map(polygon => polygon.map(ring => ring.map(fromGeoJSONPosition))),
+      };
+    case 'GeometryCollection':
+      return { type: 'GeometryCollection', geometries: geometry.geometries.map(fromGeoJSONGeometry) };
+  }
+}
+
+function lineGeometry(path: Position[]): GeoJSONGeometry {
+  return { type: 'LineString', coordinates: path.map(p => [p.lng, p.lat]) };
+}
+
+// ============================================================================
+// EXPORT
+// ============================================================================
+
+function feature(layer: GeoJSONLayer, geometry: GeoJSONGeometry, properties: Record<string, unknown>): GeoJSONFeature {
+  return { type: 'Feature', geometry, properties: { layer, ...properties } };
+}
+
+/**
+ * Parameters of the zone, to read the incident back as it was drawn
+ */
+function zoneProperties(zone: IncidentZone): Record<string, unknown> {
+  switch (zone.shape) {
+    case 'LINE':
+      return { centerline: [[zone.start.lng, zone.start.lat], [zone.end.lng, zone.end.lat]], widthM: zone.widthM };
+    case 'CIRCLE':
+      return { center: [zone.center.lng, zone.center.lat], radiusM: zone.radiusM };
+    case 'POLYGON':
+      return {};
+  }
+}
+
+function incidentFeature(incident: Incident): GeoJSONFeature {
+  const ring = incidentOutline(incident.zone);
+
+  return feature('incident', { type: 'Polygon', coordinates: [ring.map(p => [p.lng, p.lat])] }, {
+    id: incident.id,
+    incidentType: incident.type,
+    description: incident.description,
+    shape: incident.zone.shape,
+    ...zoneProperties(incident.zone),
+    startsAt: incident.startsAt.toISOString(),
+    endsAt: incident.endsAt?.toISOString() ?? null,
+    resolved: incident.resolved,
+    speedFactor: incident.speedFactor ?? null,
+    repairDurationMin: incident.repairDurationMin ?? null,
+  });
+}
+
+/**
+ * FeatureCollection of the current simulation
+ *
+ * Every feature carries a `layer` property: hubs (points), routes (current
+ * ones and every route a parcel left before), incidents (their zone of
+ * effect as a polygon) and the trajectories driven so far, across reroutes.
+ */
+export function exportGeoJSON(source: GeoJSONSource): GeoJSONFeatureCollection {
+  const features: GeoJSONFeature[] = [];
+
+  for (const hub of source.hubs) {
+    features.push(feature('hub', { type: 'Point', coordinates: [hub.longitude, hub.latitude] }, {
+      id: hub.id,
+      address: hub.address,
+      hubType: hub.type,
+    }));
+  }
+
+  for (const parcel of source.parcels.values()) {
+    const parcelProperties = { parcelId: parcel.id, trackingCode: parcel.trackingCode, state: parcel.state };
+
+    if (parcel.routePath.length >= 2) {
+      features.push(feature('route', lineGeometry(parcel.routePath), {
+        ...parcelProperties,
+        routeId: parcel.route?.id ?? null,
+        routingService: parcel.route?.routingService ?? null,
+        status: 'current',
+      }));
+    }
+    parcel.routeHistory.forEach((leg, legIndex) => {
+      features.push(feature('route', lineGeometry(leg.routePath), {
+        ...parcelProperties,
+        routeId: leg.route?.id ?? null,
+        routingService: leg.route?.routingService ?? null,
+        status: 'previous',
+        legIndex,
+        distanceKm: leg.distanceTravelledKm,
+        endedAt: leg.endedAt.toISOString(),
+      }));
+    });
+
+    const trajectory = parcelTrajectory(parcel);
+    if (trajectory.length >= 2) {
+      features.push(feature('trajectory', lineGeometry(trajectory), {
+        ...parcelProperties,
+        distanceKm: parcel.distanceTravelledKm,
+        odometerKm: parcel.odometerKm,
+      }));
+    }
+  }
+
+  for (const vehicle of source.vehicles.values()) {
+    const vehicleProperties = { vehicleId: vehicle.id, driverName: vehicle.driverName, vehicleType: vehicle.vehicleType };
+
+    if (vehicle.routePath.length >= 2) {
+      features.push(feature('route', lineGeometry(vehicle.routePath), { ...vehicleProperties, status: 'current' }));
+    }
+
+    const trajectory = drivenPath(vehicle, vehicle.currentPosition);
+    if (trajectory.length >= 2) {
+      features.push(feature('trajectory', lineGeometry(trajectory), {
+        ...vehicleProperties,
+        distanceKm: vehicle.distanceTravelledKm,
+      }));
+    }
+  }
+
+  for (const incident of source.incidents.values()) {
+    features.push(incidentFeature(incident));
+  }
+
+  return { type: 'FeatureCollection', features };
+}
+
+// ============================================================================
+// IMPORT
+// ============================================================================
+
+function stringProperty(properties: Record<string, unknown>, key: string): string | null {
+  const value = properties[key];
+  return typeof value === 'string' && value !== '' ? value : null;
+}
+
+function numberProperty(properties: Record<string, unknown>, key: string): number | null {
+  const value = properties[key];
+  return typeof value === 'number' && Number.isFinite(value) ? value : null;
+}
+
+function dateProperty(properties: Record<string, unknown>, key: string): Date | null {
+  const value = stringProperty(properties, key);
+  if (!value) return null;
+
+  const date = new Date(value);
+  if (isNaN(date.getTime())) throw new Error(`Invalid date in "${key}": ${value}`);
+  return date;
+}
+
+/**
+ * Zone of an incident feature: a drawn line (first to last point), a point
+ * with a `radiusM`, a drawn polygon (outer ring), or a zone exported by
+ * `exportGeoJSON` read back from its `centerline` or `center`
+ */
+function incidentZone(
+  geometry: GeoJSONGeometry,
+  properties: Record<string, unknown>,
+  type: IncidentType
+): IncidentZone | null {
+  const widthM = numberProperty(properties, 'widthM') ?? undefined;
+  const radiusM = numberProperty(properties, 'radiusM');
+  const { centerline, center } = properties;
+
+  switch (geometry.type) {
+    case 'LineString': {
+      const coordinates = geometry.coordinates;
+      if (coordinates.length < 2) return null;
+      return lineZone(fromGeoJSONPosition(coordinates[0]), fromGeoJSONPosition(coordinates[coordinates.length - 1]), type, widthM);
+    }
+    case 'Point':
+      return radiusM ? circleZone(fromGeoJSONPosition(geometry.coordinates), radiusM) : null;
+    case 'Polygon':
+      if (Array.isArray(centerline) && centerline.length === 2) {
+        return lineZone(fromGeoJSONPosition(centerline[0]), fromGeoJSONPosition(centerline[1]), type, widthM);
+      }
+      if (Array.isArray(center) && radiusM) {
+        return circleZone(fromGeoJSONPosition(center), radiusM);
+      }
+      return geometry.coordinates[0]?.length >= 4
+        ? polygonZone(geometry.coordinates[0].map(fromGeoJSONPosition))
+        : null;
+    default:
+      return null;
+  }
+}
+
+function readIncident(
+  geometry: GeoJSONGeometry,
+  properties: Record<string, unknown>,
+  index: number,
+  clock: SimulationClock
+): Incident | null {
+  const typeProperty = stringProperty(properties, 'incidentType');
+  const type = INCIDENT_TYPES.find(t => t === typeProperty) ?? 'ROAD_CLOSURE';
+
+  const zone = incidentZone(geometry, properties, type);
+  if (!zone) return null;
+
+  return {
+    id: stringProperty(properties, 'id') ?? `incident-geojson-${index}`,
+    type,
+    zone,
+    affectedRouteIds: [],
+    timestamp: clockDate(clock),
+    startsAt: dateProperty(properties, 'startsAt') ?? clockDate(clock),
+    endsAt: dateProperty(properties, 'endsAt'),
+    resolved: properties.resolved === true,
+    description: stringProperty(properties, 'description') ?? `Incident: ${type}`,
+    speedFactor: numberProperty(properties, 'speedFactor') ?? undefined,
+    repairDurationMin: numberProperty(properties, 'repairDurationMin') ?? undefined,
+  };
+}
+
+/**
+ * Hubs and incidents to seed the simulation with, from a FeatureCollection
+ *
+ * Points become hubs (`id`, `address` or `name`, `hubType`), unless they
+ * carry an `incidentType`. Lines, polygons and points with an `incidentType`
+ * become incidents (`widthM` or `radiusM`, `startsAt`, `endsAt`...); an
+ * incident without `startsAt` starts now. Exported routes and trajectories
+ * are skipped.
+ *
+ * @throws Error when the input is not a FeatureCollection or holds invalid
+ * positions or dates
+ */
+export function importGeoJSON(input: unknown, clock: SimulationClock): GeoJSONImport {
+  const collection = input as Partial<GeoJSONFeatureCollection> | null;
+  if (collection?.type !== 'FeatureCollection' || !Array.isArray(collection.features)) {
+    throw new Error('Expected a GeoJSON FeatureCollection');
+  }
+
+  const result: GeoJSONImport = { hubs: [], incidents: [], skipped: 0 };
+
+  collection.features.forEach((item, index) => {
+    const geometry = item?.geometry;
+    const properties = item?.properties ?? {};
+    const layer = stringProperty(properties, 'layer');
+
+    if (!geometry || layer === 'route' || layer === 'trajectory') {
+      result.skipped++;
+      return;
+    }
+
+    if (geometry.type === 'Point' && !stringProperty(properties, 'incidentType')) {
+      const { lat, lng } = fromGeoJSONPosition(geometry.coordinates);
+      const id = stringProperty(properties, 'id') ?? (item.id !== undefined ? String(item.id) : `hub-geojson-${index}`);
+      result.hubs.push({
+        id,
+        address: stringProperty(properties, 'address') ?? stringProperty(properties, 'name') ?? id,
+        latitude: lat,
+        longitude: lng,
+        type: stringProperty(properties, 'hubType') ?? 'HUB',
+      });
+      return;
+    }
+
+    const incident = readIncident(geometry, properties, index, clock);
+    if (incident) {
+      result.incidents.push(incident);
+    } else {
+      result.skipped++;
+    }
+  });
+
+  return result;
+}
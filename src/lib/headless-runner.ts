@@ -0,0 +1,575 @@
+/**
+ * Headless Simulation Runner
+ * Runs a scenario to completion in fast-forward, without React or a browser
+ */
+
+import {
+  DeliveryPolicy,
+  GeoPointResponse,
+  Incident,
+  IncidentType,
+  IncidentZone,
+  KpiSample,
+  ParcelResponse,
+  Position,
+  RecalculationAttempt,
+  RecalculationPolicy,
+  RouteDecision,
+  RouteResponse,
+  ServiceLevel,
+  ServiceLevelDurations,
+  SimulatedParcel,
+  SimulationAction,
+  SimulationState,
+  SimulationStats,
+  TrafficProfile,
+  VehicleType,
+} from './type';
+import { DEFAULT_LOOK_AHEAD_KM, SimulationEngine } from './simulation-engine';
+import { createSimulationClock } from './simulation-clock';
+import { applySimulationAction, createInitialSimulationState } from './simulation-reducer';
+import { routePathOf } from './route-geometry';
+import { circleZone, lineZone, polygonZone } from './incident-effects';
+import { DEFAULT_DELIVERY_POLICY, createReturnRoute } from './delivery-attempts';
+import { createRejoinRoute } from './route-restoration';
+import { DEFAULT_KPI_SAMPLE_INTERVAL_MS, isSampleDue, sampleKpis } from './kpi-series';
+import { DEFAULT_SERVICE_LEVELS, withServiceLevel } from './service-levels';
+import { DEFAULT_VEHICLE_TYPE, exceedsCapacity } from './vehicle-catalog';
+import { DEFAULT_TRAFFIC_PROFILE } from './traffic-profiles';
+import { DEFAULT_RECALCULATION_POLICY, nextRecalculationAlgorithm } from './recalculation-policy';
+import {
+  DemandModel,
+  createLocalParcel,
+  createLocalRoute,
+  generateDemand,
+} from './demand-generator';
+
+// ============================================================================
+// Scenario & Report Types
+// ============================================================================
+
+export interface ScenarioParcel {
+  parcel: ParcelResponse;
+  route: RouteResponse;
+  departureOffsetMin?: number; // Départ après le début du scénario (défaut: 0)
+  deliveryPolicy?: Partial<DeliveryPolicy>; // Surcharge la politique du scénario
+  serviceLevel?: ServiceLevel; // Échéance promise au départ (défaut: aucune)
+  vehicleType?: VehicleType; // Vitesse et capacité du véhicule (défaut: TRUCK)
+}
+
+// Zone : ligne (startPosition → endPosition), polygone ou cercle (center + radiusM)
+export interface ScenarioIncident {
+  id?: string;
+  type: IncidentType;
+  startPosition?: Position;
+  endPosition?: Position;
+  width?: number; // mètres, de chaque côté de la ligne
+  polygon?: Position[];
+  center?: Position;
+  radiusM?: number;
+  description?: string;
+  speedFactor?: number;
+  repairDurationMin?: number;
+  activationOffsetMin: number;
+  resolutionOffsetMin?: number;
+}
+
+// Demande générée : colis créés localement (trajet en ligne droite entre hubs)
+export interface ScenarioDemand extends DemandModel {
+  durationMin: number; // Durée de génération depuis le début du scénario
+  serviceLevel?: ServiceLevel; // Niveau de service des colis générés
+}
+
+export interface Scenario {
+  name: string;
+  startTime?: string; // ISO 8601 (défaut: aujourd'hui 08:00)
+  hubs?: GeoPointResponse[];
+  parcels: ScenarioParcel[];
+  incidents?: ScenarioIncident[];
+  deliveryPolicy?: Partial<DeliveryPolicy>; // Échecs de livraison (défaut: DEFAULT_DELIVERY_POLICY)
+  recalculationPolicy?: Partial<RecalculationPolicy>; // Échecs du recalcul (défaut: DEFAULT_RECALCULATION_POLICY)
+  serviceLevels?: Partial<ServiceLevelDurations>; // Délais promis en minutes (défaut: DEFAULT_SERVICE_LEVELS)
+  trafficProfile?: Partial<TrafficProfile>; // Congestion horaire (défaut: profil de Douala, { enabled: false } pour la désactiver)
+  demand?: ScenarioDemand;
+}
+
+export interface RerouteResult {
+  route: RouteResponse;
+  routePath: Position[];
+}
+
+export interface HeadlessRunOptions {
+  tickMs?: number;          // Pas de simulation (défaut: 1000 ms)
+  maxDurationMin?: number;  // Arrêt forcé (défaut: 24 h simulées)
+  lookAheadKm?: number;     // Anticipation des fermetures (défaut: DEFAULT_LOOK_AHEAD_KM, 0 = désactivée)
+  kpiSampleIntervalMin?: number; // Pas d'échantillonnage des indicateurs (défaut: 1 min)
+  // Recalcul d'itinéraire après collision. Sans callback, un résultat null ou
+  // une exception est un échec du recalcul, traité selon la politique du
+  // colis (nouvel essai, attente de la levée ou FAILED). `algorithm` est imposé par
+  // la politique SWITCH_ALGORITHM (null : celui de l'itinéraire).
+  reroute?: (
+    parcel: SimulatedParcel,
+    incident: Incident,
+    algorithm: string | null
+  ) => Promise<RerouteResult | null>;
+  // Itinéraire retour vers le hub d'enlèvement après des tentatives
+  // infructueuses. Sans callback, la route d'origine est parcourue à l'envers.
+  returnRoute?: (parcel: SimulatedParcel) => Promise<RerouteResult | null>;
+  // Nouvel itinéraire proposé quand l'incident d'une déviation est levé. Sans
+  // callback, le colis rejoint son itinéraire d'avant la déviation.
+  restoreRoute?: (parcel: SimulatedParcel) => Promise<RerouteResult | null>;
+}
+
+export interface ParcelReport {
+  id: string;
+  trackingCode: string;
+  state: SimulatedParcel['state'];
+  startTime: string | null;
+  estimatedArrival: string | null;
+  actualArrival: string | null;
+  deliveryTimeMin: number | null;
+  delayMin: number | null;
+  distanceKm: number;
+  plannedDistanceKm: number;   // Longueur de l'itinéraire initial
+  travelledKm: number;         // Distance réellement parcourue (déviations, retour compris)
+  detourKm: number;            // travelledKm - plannedDistanceKm
+  incidents: string[];
+  reroutes: number;
+  deliveryAttempts: number;
+  vehicleType: VehicleType;
+  routeDecisions: (Omit<RouteDecision, 'decidedAt'> & { decidedAt: string })[];
+  recalculationAttempts: (Omit<RecalculationAttempt, 'attemptedAt'> & { attemptedAt: string })[];
+  serviceLevel: ServiceLevel | null;
+  deliveryDeadline: string | null;
+  slackMin: number | null;     // Marge restante à la fin du run (négative : retard)
+  slaBreached: boolean;
+}
+
+export interface ReportEvent {
+  time: string;
+  type: string;
+  parcelId?: string;
+  incidentId?: string;
+  vehicleId?: string;
+}
+
+export interface SimulationReport {
+  scenario: string;
+  startTime: string;
+  endTime: string;
+  simulatedDurationMin: number;
+  ticks: number;
+  completed: boolean; // false si maxDurationMin a été atteint
+  stats: SimulationStats;
+  parcels: ParcelReport[];
+  kpiSeries: KpiSample[];
+  events: ReportEvent[];
+}
+
+const DEFAULT_TICK_MS = 1000;
+const DEFAULT_MAX_DURATION_MIN = 24 * 60;
+
+// ============================================================================
+// Runner
+// ============================================================================
+
+interface ScheduledAction {
+  time: number;
+  action: SimulationAction;
+}
+
+const minutes = (min: number) => min * 60 * 1000;
+
+const toIso = (date: Date | null) => (date ? date.toISOString() : null);
+
+// Zone of a scenario incident, from whichever shape it describes
+function scenarioIncidentZone(incident: ScenarioIncident, id: string): IncidentZone {
+  if (incident.polygon) {
+    if (incident.polygon.length < 3) throw new Error(`Incident ${id}: a polygon needs at least 3 vertices`);
+    return polygonZone(incident.polygon);
+  }
+  if (incident.center) {
+    if (!incident.radiusM || incident.radiusM <= 0) throw new Error(`Incident ${id}: a circle needs a positive radiusM`);
+    return circleZone(incident.center, incident.radiusM);
+  }
+  if (incident.startPosition && incident.endPosition) {
+    return lineZone(incident.startPosition, incident.endPosition, incident.type, incident.width);
+  }
+  throw new Error(`Incident ${id} needs startPosition and endPosition, a polygon or a center`);
+}
+
+/**
+ * Turn the scenario into time-ordered reducer actions
+ */
+function scheduleScenario(scenario: Scenario, state: SimulationState): ScheduledAction[] {
+  const origin = state.clock.currentTime;
+  const scheduled: ScheduledAction[] = [];
+  const serviceLevels = { ...DEFAULT_SERVICE_LEVELS, ...scenario.serviceLevels };
+
+  const scheduleParcel = (
+    parcel: ParcelResponse,
+    route: RouteResponse,
+    time: number,
+    deliveryPolicy?: Partial<DeliveryPolicy>,
+    serviceLevel: ServiceLevel | null = null,
+    vehicleType: VehicleType = DEFAULT_VEHICLE_TYPE
+  ) => {
+    const routePath = routePathOf(route);
+    if (routePath.length < 2) {
+      throw new Error(`Invalid route geometry for parcel ${parcel.id}`);
+    }
+    if (parcel.weightKg !== undefined && exceedsCapacity(parcel.weightKg, vehicleType)) {
+      throw new Error(`Parcel ${parcel.id} (${parcel.weightKg} kg) exceeds the capacity of a ${vehicleType}`);
+    }
+
+    const clock = { ...state.clock, currentTime: time };
+    const simulated = withServiceLevel(
+      SimulationEngine.createSimulatedParcel(
+        parcel,
+        route,
+        routePath,
+        clock,
+        { ...DEFAULT_DELIVERY_POLICY, ...scenario.deliveryPolicy, ...deliveryPolicy },
+        { ...DEFAULT_RECALCULATION_POLICY, ...scenario.recalculationPolicy },
+        vehicleType
+      ),
+      serviceLevel,
+      serviceLevels,
+      clock
+    );
+
+    scheduled.push({
+      time,
+      action: { type: 'ADD_PARCEL', payload: SimulationEngine.startParcel(simulated, clock) },
+    });
+  };
+
+  for (const { parcel, route, departureOffsetMin = 0, deliveryPolicy, serviceLevel, vehicleType } of scenario.parcels) {
+    scheduleParcel(parcel, route, origin + minutes(departureOffsetMin), deliveryPolicy, serviceLevel, vehicleType);
+  }
+
+  // Generated demand, routed locally between the scenario hubs
+  if (scenario.demand) {
+    const hubs = scenario.hubs ?? [];
+    const arrivals = generateDemand(scenario.demand, origin, origin + minutes(scenario.demand.durationMin));
+
+    for (const arrival of arrivals) {
+      const originHub = hubs.find(h => h.id === arrival.originHubId);
+      const destinationHub = hubs.find(h => h.id === arrival.destinationHubId);
+      if (!originHub || !destinationHub) {
+        throw new Error(`Unknown hub in demand model: ${arrival.originHubId} → ${arrival.destinationHubId}`);
+      }
+
+      const parcel = createLocalParcel(arrival);
+      scheduleParcel(
+        parcel,
+        createLocalRoute(`route-${parcel.id}`, originHub, destinationHub),
+        arrival.time,
+        undefined,
+        scenario.demand.serviceLevel
+      );
+    }
+  }
+
+  // Incidents are known from the start and activate / expire on their own
+  (scenario.incidents ?? []).forEach((incident, index) => {
+    const id = incident.id ?? `incident-${index + 1}`;
+
+    scheduled.push({
+      time: origin,
+      action: {
+        type: 'ADD_INCIDENT',
+        payload: {
+          id,
+          type: incident.type,
+          zone: scenarioIncidentZone(incident, id),
+          affectedRouteIds: [],
+          timestamp: new Date(origin),
+          startsAt: new Date(origin + minutes(incident.activationOffsetMin)),
+          endsAt: incident.resolutionOffsetMin !== undefined
+            ? new Date(origin + minutes(incident.resolutionOffsetMin))
+            : null,
+          resolved: false,
+          description: incident.description || `Incident: ${incident.type}`,
+          speedFactor: incident.speedFactor,
+          repairDurationMin: incident.repairDurationMin,
+        },
+      },
+    });
+  });
+
+  // Tri stable : à temps égal, l'ordre du scénario est conservé
+  return scheduled.sort((a, b) => a.time - b.time);
+}
+
+function buildParcelReport(
+  parcel: SimulatedParcel,
+  reroutes: number,
+  plannedDistanceKm: number,
+  travelledKm: number
+): ParcelReport {
+  const deliveryTimeMin = parcel.startTime && parcel.actualArrival
+    ? (parcel.actualArrival.getTime() - parcel.startTime.getTime()) / 60000
+    : null;
+  const delayMin = parcel.estimatedArrival && parcel.actualArrival
+    ? (parcel.actualArrival.getTime() - parcel.estimatedArrival.getTime()) / 60000
+    : null;
+
+  return {
+    id: parcel.id,
+    trackingCode: parcel.trackingCode,
+    state: parcel.state,
+    startTime: toIso(parcel.startTime),
+    estimatedArrival: toIso(parcel.estimatedArrival),
+    actualArrival: toIso(parcel.actualArrival),
+    deliveryTimeMin,
+    delayMin,
+    distanceKm: parcel.route?.totalDistanceKm ?? 0,
+    plannedDistanceKm,
+    travelledKm,
+    detourKm: travelledKm - plannedDistanceKm,
+    incidents: parcel.affectedByIncidents,
+    reroutes,
+    deliveryAttempts: parcel.deliveryAttempts,
+    vehicleType: parcel.vehicleType,
+    routeDecisions: parcel.routeDecisions.map(d => ({ ...d, decidedAt: d.decidedAt.toISOString() })),
+    recalculationAttempts: parcel.recalculationAttempts.map(a => ({
+      ...a,
+      attemptedAt: a.attemptedAt.toISOString(),
+    })),
+    serviceLevel: parcel.serviceLevel,
+    deliveryDeadline: toIso(parcel.deliveryDeadline),
+    slackMin: parcel.slackMin,
+    slaBreached: parcel.slaBreached,
+  };
+}
+
+/**
+ * Run a scenario to completion and return a JSON-serialisable report
+ */
+export async function runScenario(
+  scenario: Scenario,
+  options: HeadlessRunOptions = {}
+): Promise<SimulationReport> {
+  const tickMs = options.tickMs ?? DEFAULT_TICK_MS;
+  const maxDurationMin = options.maxDurationMin ?? DEFAULT_MAX_DURATION_MIN;
+  const lookAheadKm = options.lookAheadKm ?? DEFAULT_LOOK_AHEAD_KM;
+  const sampleIntervalMs = options.kpiSampleIntervalMin !== undefined
+    ? minutes(options.kpiSampleIntervalMin)
+    : DEFAULT_KPI_SAMPLE_INTERVAL_MS;
+
+  let state: SimulationState = {
+    ...createInitialSimulationState(),
+    hubs: scenario.hubs ?? [],
+    clock: createSimulationClock({
+      currentTime: scenario.startTime ? new Date(scenario.startTime).getTime() : undefined,
+      tickMs,
+    }),
+    trafficProfile: { ...DEFAULT_TRAFFIC_PROFILE, ...scenario.trafficProfile },
+  };
+
+  const origin = state.clock.currentTime;
+  const deadline = origin + minutes(maxDurationMin);
+  const scheduled = scheduleScenario(scenario, state);
+  const reroutes = new Map<string, number>();
+  const plannedKm = new Map<string, number>();
+  const previousLegsKm = new Map<string, number>(); // Distance parcourue sur les itinéraires remplacés
+  const events: ReportEvent[] = [];
+  const kpiSeries: KpiSample[] = [];
+  let cursor = 0;
+  let ticks = 0;
+
+  const log = (type: string, parcelId?: string, incidentId?: string, vehicleId?: string) => {
+    events.push({
+      time: new Date(state.clock.currentTime).toISOString(),
+      type,
+      parcelId,
+      incidentId,
+      vehicleId,
+    });
+  };
+
+  // Replace the parcel's route, keeping track of the distance already driven
+  const applyReroute = (parcel: SimulatedParcel, leg: RerouteResult, incidentId?: string) => {
+    previousLegsKm.set(parcel.id, (previousLegsKm.get(parcel.id) ?? 0) + parcel.distanceTravelledKm);
+    state = applySimulationAction(state, {
+      type: 'REROUTE_PARCEL',
+      payload: { id: parcel.id, ...leg, incidentId },
+    });
+  };
+
+  // Reroute a parcel stopped by a closure; failures go through its policy
+  const recalculate = async (parcel: SimulatedParcel, incident: Incident) => {
+    const algorithm = nextRecalculationAlgorithm(parcel, incident.id);
+
+    let rerouted: RerouteResult | null;
+    let error: string | null = null;
+    try {
+      rerouted = options.reroute ? await options.reroute(parcel, incident, algorithm) : null;
+      // No alternative: a failure too, the closure is never driven through
+      if (!rerouted) error = 'No alternative route';
+    } catch (thrown) {
+      rerouted = null;
+      error = thrown instanceof Error ? thrown.message : String(thrown);
+    }
+
+    state = applySimulationAction(state, {
+      type: 'RECORD_RECALCULATION',
+      payload: { id: parcel.id, incidentId: incident.id, algorithm, error },
+    });
+
+    if (rerouted) {
+      applyReroute(parcel, rerouted, incident.id);
+      reroutes.set(parcel.id, (reroutes.get(parcel.id) ?? 0) + 1);
+      log('PARCEL_REROUTED', parcel.id, incident.id);
+    } else {
+      log('RECALCULATION_FAILED', parcel.id, incident.id);
+    }
+  };
+
+  // Finished once every parcel has departed and reached a final state
+  const isFinished = () =>
+    !scheduled.slice(cursor).some(s => s.action.type === 'ADD_PARCEL') &&
+    Array.from(state.parcels.values()).every(p => p.state === 'DELIVERED' || p.state === 'FAILED');
+
+  for (;;) {
+    // Apply scenario actions that fall due
+    while (cursor < scheduled.length && scheduled[cursor].time <= state.clock.currentTime) {
+      const { action } = scheduled[cursor++];
+      state = applySimulationAction(state, action);
+
+      if (action.type === 'ADD_PARCEL') {
+        plannedKm.set(action.payload.id, SimulationEngine.getPathLength(action.payload));
+        log('PARCEL_STARTED', action.payload.id);
+      }
+    }
+
+    if (isFinished() || state.clock.currentTime >= deadline) break;
+
+    const result = SimulationEngine.tick(
+      state.parcels,
+      state.vehicles,
+      state.incidents,
+      state.clock,
+      lookAheadKm,
+      state.trafficProfile
+    );
+    const previousTime = state.clock.currentTime;
+    state = {
+      ...state,
+      parcels: result.parcels,
+      vehicles: result.vehicles,
+      incidents: result.incidents,
+      clock: result.clock,
+    };
+    ticks++;
+
+    if (isSampleDue(previousTime, state.clock.currentTime, sampleIntervalMs)) {
+      kpiSeries.push(sampleKpis(state.parcels, state.vehicles, state.clock.currentTime));
+    }
+
+    for (const event of result.events) {
+      if (event.type === 'VEHICLE_BLOCKED') {
+        // Tours are not rerouted headless: the vehicle waits for the closure
+        // to end (VEHICLE_RESUMED), or stays blocked if it has no end
+        log(event.type, undefined, event.incidentId, event.vehicleId);
+        const vehicle = state.vehicles.get(event.vehicleId);
+        const incident = state.incidents.get(event.incidentId);
+        if (vehicle && incident?.endsAt) {
+          state = applySimulationAction(state, {
+            type: 'ADD_VEHICLE',
+            payload: { ...vehicle, immobilizedUntil: incident.endsAt },
+          });
+        }
+        continue;
+      }
+
+      if (event.type === 'DELIVERY_ABANDONED') {
+        log(event.type, event.parcelId);
+        const parcel = state.parcels.get(event.parcelId);
+        if (!parcel) continue;
+
+        const returnLeg = options.returnRoute
+          ? await options.returnRoute(parcel)
+          : createReturnRoute(parcel);
+        if (returnLeg) {
+          applyReroute(parcel, returnLeg);
+        } else {
+          // No way back: the parcel fails where it stands
+          state = applySimulationAction(state, {
+            type: 'UPDATE_PARCEL',
+            payload: { id: parcel.id, updates: { state: 'FAILED', returningToHub: false } },
+          });
+        }
+        continue;
+      }
+
+      if (event.type === 'INCIDENT_CLEARED') {
+        log(event.type, event.parcelId, event.incidentId);
+        const parcel = state.parcels.get(event.parcelId);
+        if (!parcel) continue;
+
+        const candidate = options.restoreRoute
+          ? await options.restoreRoute(parcel)
+          : createRejoinRoute(parcel);
+        if (!candidate) continue;
+
+        state = applySimulationAction(state, {
+          type: 'RESTORE_ROUTE',
+          payload: { id: parcel.id, incidentId: event.incidentId, ...candidate },
+        });
+
+        const decisions = state.parcels.get(parcel.id)?.routeDecisions ?? [];
+        if (decisions[decisions.length - 1]?.reverted) {
+          previousLegsKm.set(parcel.id, (previousLegsKm.get(parcel.id) ?? 0) + parcel.distanceTravelledKm);
+          log('ROUTE_RESTORED', parcel.id, event.incidentId);
+        }
+        continue;
+      }
+
+      if (
+        event.type !== 'INCIDENT_COLLISION'
+        && event.type !== 'INCIDENT_AHEAD'
+        && event.type !== 'RECALCULATION_RETRY'
+      ) {
+        log(
+          event.type,
+          'parcelId' in event ? event.parcelId : undefined,
+          'incidentId' in event ? event.incidentId : undefined,
+          'vehicleId' in event ? event.vehicleId : undefined
+        );
+        continue;
+      }
+
+      log(event.type, event.parcelId, event.incidentId);
+      const parcel = state.parcels.get(event.parcelId);
+      const incident = state.incidents.get(event.incidentId);
+      if (parcel && incident) await recalculate(parcel, incident);
+    }
+  }
+
+  const parcels = Array.from(state.parcels.values());
+
+  // Closing sample at the end of the run
+  if (kpiSeries[kpiSeries.length - 1]?.time !== state.clock.currentTime) {
+    kpiSeries.push(sampleKpis(state.parcels, state.vehicles, state.clock.currentTime));
+  }
+
+  return {
+    scenario: scenario.name,
+    startTime: new Date(origin).toISOString(),
+    endTime: new Date(state.clock.currentTime).toISOString(),
+    simulatedDurationMin: (state.clock.currentTime - origin) / 60000,
+    ticks,
+    completed: isFinished(),
+    stats: SimulationEngine.getSimulationStats(state.parcels, state.vehicles),
+    parcels: parcels.map(p => buildParcelReport(
+      p,
+      reroutes.get(p.id) ?? 0,
+      plannedKm.get(p.id) ?? 0,
+      (previousLegsKm.get(p.id) ?? 0) + p.distanceTravelledKm
+    )),
+    kpiSeries,
+    events,
+  };
+}
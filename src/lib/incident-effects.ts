@@ -0,0 +1,225 @@
+/**
+ * Incident Effects
+ * Type-specific consequences of incidents on the parcels that cross them
+ */
+
+import { Incident, IncidentType, IncidentZone, Position } from './type';
+import {
+  circleRing,
+  doesSegmentCrossPolygon,
+  isPointInPolygon,
+  isSegmentWithinLineBuffer,
+  isWithinLineBuffer,
+  isWithinRadius,
+  lineBufferRing,
+} from './wkt-parser';
+import { isIncidentActive } from './incident-schedule';
+
+export interface IncidentEffectConfig {
+  trafficSpeedFactor: number;   // Vitesse dans un embouteillage (fraction de la vitesse normale)
+  weatherSpeedFactor: number;   // Vitesse sous intempéries
+  breakdownRepairMin: number;   // Durée d'immobilisation après une panne
+  widthMeters: Record<IncidentType, number>; // Largeur par défaut de la zone (de chaque côté)
+}
+
+export const DEFAULT_INCIDENT_EFFECTS: IncidentEffectConfig = {
+  trafficSpeedFactor: 0.3,
+  weatherSpeedFactor: 0.6,
+  breakdownRepairMin: 20,
+  widthMeters: {
+    ROAD_CLOSURE: 50,
+    TRAFFIC: 20,
+    VEHICLE_BREAKDOWN: 20,
+    WEATHER: 300, // La météo touche un secteur entier
+  },
+};
+
+/**
+ * Only a road closure makes the current route unusable
+ */
+export function requiresReroute(incident: Incident): boolean {
+  return incident.type === 'ROAD_CLOSURE';
+}
+
+/**
+ * Speed multiplier applied inside the incident zone (1 = no slowdown)
+ */
+export function getIncidentSpeedFactor(
+  incident: Incident,
+  config: IncidentEffectConfig = DEFAULT_INCIDENT_EFFECTS
+): number {
+  switch (incident.type) {
+    case 'TRAFFIC':
+      return incident.speedFactor ?? config.trafficSpeedFactor;
+    case 'WEATHER':
+      return incident.speedFactor ?? config.weatherSpeedFactor;
+    default:
+      return 1;
+  }
+}
+
+/**
+ * Repair duration (ms) for a vehicle breakdown
+ */
+export function getRepairDurationMs(
+  incident: Incident,
+  config: IncidentEffectConfig = DEFAULT_INCIDENT_EFFECTS
+): number {
+  return (incident.repairDurationMin ?? config.breakdownRepairMin) * 60 * 1000;
+}
+
+/**
+ * Short French description of the effect, for the UI
+ */
+export function describeIncidentEffect(incident: Incident): string {
+  switch (incident.type) {
+    case 'ROAD_CLOSURE':
+      return 'Recalcul d\'itinéraire obligatoire';
+    case 'TRAFFIC':
+    case 'WEATHER':
+      return `Vitesse ×${getIncidentSpeedFactor(incident).toFixed(2)} dans la zone`;
+    case 'VEHICLE_BREAKDOWN':
+      return `Immobilisation ${Math.round(getRepairDurationMs(incident) / 60000)} min`;
+    default:
+      return '';
+  }
+}
+
+// ============================================================================
+// ZONES
+// ============================================================================
+
+/**
+ * Road segment between two points, `widthM` (default: the type's width) on
+ * each side
+ */
+export function lineZone(
+  start: Position,
+  end: Position,
+  type: IncidentType,
+  widthM: number = DEFAULT_INCIDENT_EFFECTS.widthMeters[type]
+): IncidentZone {
+  return { shape: 'LINE', start, end, widthM };
+}
+
+/**
+ * Area enclosed by the vertices; the ring is closed if it is not already
+ */
+export function polygonZone(vertices: Position[]): IncidentZone {
+  const first = vertices[0];
+  const last = vertices[vertices.length - 1];
+  const closed = first && last && first.lat === last.lat && first.lng === last.lng;
+
+  return { shape: 'POLYGON', ring: closed ? vertices : [...vertices, first] };
+}
+
+export function circleZone(center: Position, radiusM: number): IncidentZone {
+  return { shape: 'CIRCLE', center, radiusM };
+}
+
+/**
+ * Check whether a position lies inside the incident zone
+ */
+export function isInIncidentZone(position: Position, incident: Incident): boolean {
+  const { zone } = incident;
+
+  switch (zone.shape) {
+    case 'LINE':
+      return isWithinLineBuffer(position, zone.start, zone.end, zone.widthM / 1000); // Convert meters to km
+    case 'POLYGON':
+      return isPointInPolygon(position, zone.ring);
+    case 'CIRCLE':
+      return isWithinRadius(position, zone.center, zone.radiusM / 1000);
+  }
+}
+
+/**
+ * Check whether the path segment A-B passes through the incident zone
+ */
+export function doesSegmentCrossIncidentZone(
+  segmentStart: Position,
+  segmentEnd: Position,
+  incident: Incident
+): boolean {
+  const { zone } = incident;
+
+  switch (zone.shape) {
+    case 'LINE':
+      return isSegmentWithinLineBuffer(segmentStart, segmentEnd, zone.start, zone.end, zone.widthM / 1000);
+    case 'POLYGON':
+      return doesSegmentCrossPolygon(segmentStart, segmentEnd, zone.ring);
+    case 'CIRCLE':
+      // The segment comes within the radius of the center
+      return isWithinLineBuffer(zone.center, segmentStart, segmentEnd, zone.radiusM / 1000);
+  }
+}
+
+/**
+ * Outline of the zone as a closed ring (lines and circles approximated)
+ */
+export function incidentOutline(zone: IncidentZone): Position[] {
+  switch (zone.shape) {
+    case 'LINE':
+      return lineBufferRing(zone.start, zone.end, zone.widthM);
+    case 'POLYGON':
+      return zone.ring;
+    case 'CIRCLE':
+      return circleRing(zone.center, zone.radiusM);
+  }
+}
+
+/**
+ * Where to pin the incident marker: middle of the line, center of the circle,
+ * average vertex of the polygon
+ */
+export function incidentAnchor(zone: IncidentZone): Position {
+  switch (zone.shape) {
+    case 'LINE':
+      return { lat: (zone.start.lat + zone.end.lat) / 2, lng: (zone.start.lng + zone.end.lng) / 2 };
+    case 'CIRCLE':
+      return zone.center;
+    case 'POLYGON': {
+      const vertices = zone.ring.slice(0, -1);
+      return {
+        lat: vertices.reduce((sum, p) => sum + p.lat, 0) / vertices.length,
+        lng: vertices.reduce((sum, p) => sum + p.lng, 0) / vertices.length,
+      };
+    }
+  }
+}
+
+/**
+ * Short French description of the zone, for the UI
+ */
+export function describeIncidentZone(zone: IncidentZone): string {
+  switch (zone.shape) {
+    case 'LINE':
+      return `Largeur: ${zone.widthM}m`;
+    case 'POLYGON':
+      return `Secteur (${zone.ring.length - 1} sommets)`;
+    case 'CIRCLE':
+      return `Rayon: ${Math.round(zone.radiusM)}m`;
+  }
+}
+
+/**
+ * Combined slowdown of every traffic/weather zone active at `time` covering a position
+ */
+export function speedFactorAt(
+  position: Position,
+  incidents: Map<string, Incident>,
+  time: number
+): number {
+  let factor = 1;
+
+  for (const incident of incidents.values()) {
+    if (!isIncidentActive(incident, time)) continue;
+
+    const incidentFactor = getIncidentSpeedFactor(incident);
+    if (incidentFactor < 1 && isInIncidentZone(position, incident)) {
+      factor *= incidentFactor;
+    }
+  }
+
+  return factor;
+}
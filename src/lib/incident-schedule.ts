@@ -0,0 +1,95 @@
+/**
+ * Incident Schedule
+ * Planned activation, duration and automatic resolution in simulated time
+ */
+
+import { Incident, IncidentStatus, IncidentSchedule, SimulationClock } from './type';
+import { atSimulatedDayTime } from './simulation-clock';
+
+/**
+ * Lifecycle status of an incident at a given simulated time
+ */
+export function getIncidentStatus(incident: Incident, time: number): IncidentStatus {
+  if (incident.resolved) return 'EXPIRED';
+  if (time < incident.startsAt.getTime()) return 'PENDING';
+  if (incident.endsAt && time >= incident.endsAt.getTime()) return 'EXPIRED';
+  return 'ACTIVE';
+}
+
+export function isIncidentActive(incident: Incident, time: number): boolean {
+  return getIncidentStatus(incident, time) === 'ACTIVE';
+}
+
+/**
+ * Convert an "HH:MM" time (Douala) of the current simulated day into a timestamp
+ */
+function timeOfSimulatedDay(clock: SimulationClock, hhmm: string): number {
+  const [hours, minutes] = hhmm.split(':').map(Number);
+  return atSimulatedDayTime(clock.currentTime, hours, minutes);
+}
+
+/**
+ * Resolve a UI schedule into activation / resolution dates
+ *
+ * An empty start means "now"; an empty end means manual resolution. A start
+ * already in the past activates the incident immediately.
+ */
+export function resolveIncidentSchedule(
+  schedule: IncidentSchedule,
+  clock: SimulationClock
+): { startsAt: Date; endsAt: Date | null } {
+  const startsAt = schedule.startTime
+    ? Math.max(timeOfSimulatedDay(clock, schedule.startTime), clock.currentTime)
+    : clock.currentTime;
+
+  let endsAt: number | null = null;
+  if (schedule.endTime) {
+    endsAt = timeOfSimulatedDay(clock, schedule.endTime);
+    if (endsAt <= startsAt) {
+      throw new Error('La fin de l\'incident doit être après son début');
+    }
+  }
+
+  return {
+    startsAt: new Date(startsAt),
+    endsAt: endsAt !== null ? new Date(endsAt) : null,
+  };
+}
+
+/**
+ * Advance incident lifecycles over one tick, from `clock` to `nextClock`
+ *
+ * Incidents reaching their end time are marked resolved.
+ */
+export function updateIncidentLifecycles(
+  incidents: Map<string, Incident>,
+  clock: SimulationClock,
+  nextClock: SimulationClock
+): {
+  incidents: Map<string, Incident>;
+  activated: string[];
+  expired: string[];
+} {
+  const activated: string[] = [];
+  const expired: string[] = [];
+  let updated = incidents;
+
+  for (const incident of incidents.values()) {
+    if (incident.resolved) continue;
+
+    const previous = getIncidentStatus(incident, clock.currentTime);
+    const next = getIncidentStatus(incident, nextClock.currentTime);
+    if (previous === next) continue;
+
+    if (next === 'ACTIVE' || (previous === 'PENDING' && next === 'EXPIRED')) {
+      activated.push(incident.id);
+    }
+    if (next === 'EXPIRED') {
+      if (updated === incidents) updated = new Map(incidents);
+      updated.set(incident.id, { ...incident, resolved: true });
+      expired.push(incident.id);
+    }
+  }
+
+  return { incidents: updated, activated, expired };
+}
@@ -0,0 +1,81 @@
+/**
+ * KPI Time Series
+ * Samples the network indicators over simulated time, so a run can show when
+ * it got congested rather than only its current state
+ */
+
+import { KpiSample, SimulatedParcel, SimulatedVehicle } from './type';
+
+// Un échantillon par minute simulée
+export const DEFAULT_KPI_SAMPLE_INTERVAL_MS = 60 * 1000;
+
+export const KPI_LABELS: Record<Exclude<keyof KpiSample, 'time'>, string> = {
+  inTransit: 'En transit',
+  delivered: 'Livrés',
+  withIncidents: 'Affectés par un incident',
+  averageSpeed: 'Vitesse moyenne (km/h)',
+  cumulativeKm: 'Distance cumulée (km)',
+  onTimeRate: 'Livrés à l\'heure (%)',
+};
+
+/**
+ * Indicators of the network at `time`
+ */
+export function sampleKpis(
+  parcels: Map<string, SimulatedParcel>,
+  vehicles: Map<string, SimulatedVehicle>,
+  time: number
+): KpiSample {
+  const parcelsArray = Array.from(parcels.values());
+  const inTransit = parcelsArray.filter(p => p.state === 'TRANSIT');
+  const delivered = parcelsArray.filter(p => p.state === 'DELIVERED');
+  const onTime = delivered.filter(p =>
+    p.actualArrival && p.estimatedArrival && p.actualArrival.getTime() <= p.estimatedArrival.getTime()
+  );
+
+  // Parcels on a tour do not drive on their own: their vehicle's distance counts once
+  const cumulativeKm = parcelsArray.reduce((sum, p) => sum + p.odometerKm, 0)
+    + Array.from(vehicles.values()).reduce((sum, v) => sum + v.distanceTravelledKm, 0);
+
+  return {
+    time,
+    inTransit: inTransit.length,
+    delivered: delivered.length,
+    withIncidents: parcelsArray.filter(p => p.state === 'INCIDENT').length,
+    averageSpeed: inTransit.length > 0
+      ? inTransit.reduce((sum, p) => sum + p.speed * p.speedFactor, 0) / inTransit.length
+      : 0,
+    cumulativeKm,
+    onTimeRate: delivered.length > 0 ? onTime.length / delivered.length : null,
+  };
+}
+
+/**
+ * True when a tick from `previousTime` to `time` reaches a sampling instant
+ * (multiples of the interval, so replays sample at the same times)
+ */
+export function isSampleDue(
+  previousTime: number,
+  time: number,
+  intervalMs: number = DEFAULT_KPI_SAMPLE_INTERVAL_MS
+): boolean {
+  return Math.floor(time / intervalMs) > Math.floor(previousTime / intervalMs);
+}
+
+/**
+ * Series as CSV, one row per sample (ISO time)
+ */
+export function kpiSeriesToCsv(series: KpiSample[]): string {
+  const header = ['time', 'inTransit', 'delivered', 'withIncidents', 'averageSpeed', 'cumulativeKm', 'onTimeRate'];
+  const rows = series.map(s => [
+    new Date(s.time).toISOString(),
+    s.inTransit,
+    s.delivered,
+    s.withIncidents,
+    s.averageSpeed.toFixed(2),
+    s.cumulativeKm.toFixed(3),
+    s.onTimeRate === null ? '' : s.onTimeRate.toFixed(3),
+  ].join(','));
+
+  return [header.join(','), ...rows].join('\n');
+}
@@ -0,0 +1,52 @@
+/**
+ * Monte Carlo runs of the sample scenario: the incident jitter must show in
+ * the KPI distributions
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { Scenario, RerouteResult } from './headless-runner';
+import { runExperiment } from './monte-carlo';
+import { calculatePathDistance, positionsToWKT } from './wkt-parser';
+import { SimulatedParcel } from './type';
+
+const scenario: Scenario = JSON.parse(
+  readFileSync(join(process.cwd(), 'scenarios/deido-bonaberi.json'), 'utf8')
+);
+
+// Offline detour around the bridge, through a point north of the closure
+const detourNorth = async (parcel: SimulatedParcel): Promise<RerouteResult> => {
+  const destination = parcel.routePath[parcel.routePath.length - 1];
+  const routePath = [parcel.currentPosition, { lat: 4.075, lng: 9.688 }, destination];
+  const totalDistanceKm = calculatePathDistance(routePath);
+
+  return {
+    route: {
+      ...parcel.route!,
+      id: `${parcel.route!.id}-detour`,
+      routeGeometry: positionsToWKT(routePath),
+      totalDistanceKm,
+    },
+    routePath,
+  };
+};
+
+describe('runExperiment', () => {
+  it('spreads delivery times when parcels wait for the closure', async () => {
+    const report = await runExperiment(scenario, { runs: 5, baseSeed: 1, tickMs: 5000 });
+    const { deliveryTimeMin } = report.kpis;
+
+    assert.equal(deliveryTimeMin.samples, 10);
+    assert.ok(deliveryTimeMin.max! > deliveryTimeMin.min!, 'every run gave the same delivery times');
+  });
+
+  it('spreads detour distances when parcels are rerouted', async () => {
+    const report = await runExperiment(scenario, { runs: 5, baseSeed: 1, tickMs: 5000, reroute: detourNorth });
+    const { detourKm } = report.kpis;
+
+    assert.ok(detourKm.min! > 0, 'a rerouted parcel drove no extra distance');
+    assert.ok(detourKm.max! > detourKm.min!, 'every run gave the same detour');
+  });
+});
@@ -0,0 +1,233 @@
+/**
+ * Monte Carlo Experiments
+ * Runs the same scenario with different random seeds and summarises the KPIs
+ * as distributions instead of a single anecdotal run
+ */
+
+import { Position, SimulationStats } from './type';
+import {
+  HeadlessRunOptions,
+  Scenario,
+  ScenarioIncident,
+  SimulationReport,
+  runScenario,
+} from './headless-runner';
+import { nextRandom } from './seeded-random';
+
+export interface IncidentJitter {
+  positionM: number; // Déplacement maximal de la ligne d'incident (mètres)
+  timeMin: number;   // Décalage maximal de l'activation (minutes, ±)
+}
+
+export interface ExperimentOptions extends HeadlessRunOptions {
+  runs: number;
+  baseSeed?: number;              // Graine du premier run (défaut: 1), puis +1 par run
+  incidentJitter?: IncidentJitter; // Variation de placement des incidents (défaut: DEFAULT_INCIDENT_JITTER)
+}
+
+export interface KpiDistribution {
+  samples: number;
+  mean: number | null;
+  p50: number | null;
+  p95: number | null;
+  min: number | null;
+  max: number | null;
+}
+
+export interface ExperimentRun {
+  run: number;
+  seed: number;
+  completed: boolean;
+  simulatedDurationMin: number;
+  stats: SimulationStats;
+  incidentCount: number; // Rencontres colis / incident sur le run
+}
+
+export interface ExperimentReport {
+  scenario: string;
+  runCount: number;
+  baseSeed: number;
+  // Temps, retard et déviation : un échantillon par colis livré (tous runs
+  // confondus) ; incidents et respect des délais : un échantillon par run
+  kpis: {
+    deliveryTimeMin: KpiDistribution;
+    delayMin: KpiDistribution;
+    detourKm: KpiDistribution;
+    incidentCount: KpiDistribution;
+    slaComplianceRate: KpiDistribution; // Runs sans colis à échéance exclus
+  };
+  runs: ExperimentRun[];
+}
+
+export const DEFAULT_INCIDENT_JITTER: IncidentJitter = {
+  positionM: 200,
+  timeMin: 5,
+};
+
+const METERS_PER_DEGREE_LAT = 111_320;
+
+// ============================================================================
+// Statistics
+// ============================================================================
+
+/**
+ * Nearest-rank percentile of sorted values (`p` in 0-1)
+ */
+function percentile(sorted: number[], p: number): number {
+  const rank = Math.max(Math.ceil(p * sorted.length) - 1, 0);
+  return sorted[rank];
+}
+
+/**
+ * Mean, median, 95th percentile and range of the samples
+ */
+export function summarize(values: number[]): KpiDistribution {
+  if (values.length === 0) {
+    return { samples: 0, mean: null, p50: null, p95: null, min: null, max: null };
+  }
+
+  const sorted = [...values].sort((a, b) => a - b);
+
+  return {
+    samples: sorted.length,
+    mean: sorted.reduce((sum, v) => sum + v, 0) / sorted.length,
+    p50: percentile(sorted, 0.5),
+    p95: percentile(sorted, 0.95),
+    min: sorted[0],
+    max: sorted[sorted.length - 1],
+  };
+}
+
+// ============================================================================
+// Scenario variations
+// ============================================================================
+
+/**
+ * Move both ends of an incident line by the same random offset and shift its
+ * activation (the duration is kept)
+ */
+function jitterIncident(
+  incident: ScenarioIncident,
+  jitter: IncidentJitter,
+  rng: number
+): { incident: ScenarioIncident; rng: number } {
+  const angle = nextRandom(rng);
+  const distance = nextRandom(angle.state);
+  const shift = nextRandom(distance.state);
+
+  const offsetM = distance.value * jitter.positionM;
+  const north = Math.cos(2 * Math.PI * angle.value) * offsetM;
+  const east = Math.sin(2 * Math.PI * angle.value) * offsetM;
+  const move = (pos: Position): Position => ({
+    lat: pos.lat + north / METERS_PER_DEGREE_LAT,
+    lng: pos.lng + east / (METERS_PER_DEGREE_LAT * Math.cos((pos.lat * Math.PI) / 180)),
+  });
+
+  const shiftMin = Math.max(
+    (shift.value * 2 - 1) * jitter.timeMin,
+    -incident.activationOffsetMin
+  );
+
+  return {
+    incident: {
+      ...incident,
+      startPosition: incident.startPosition && move(incident.startPosition),
+      endPosition: incident.endPosition && move(incident.endPosition),
+      polygon: incident.polygon?.map(move),
+      center: incident.center && move(incident.center),
+      activationOffsetMin: incident.activationOffsetMin + shiftMin,
+      resolutionOffsetMin: incident.resolutionOffsetMin !== undefined
+        ? incident.resolutionOffsetMin + shiftMin
+        : undefined,
+    },
+    rng: shift.state,
+  };
+}
+
+/**
+ * Scenario of one run: demand, delivery failures and incident placement all
+ * drawn from the run seed
+ */
+export function createScenarioVariant(
+  scenario: Scenario,
+  seed: number,
+  jitter: IncidentJitter = DEFAULT_INCIDENT_JITTER
+): Scenario {
+  let rng = seed | 0;
+  const incidents = (scenario.incidents ?? []).map(incident => {
+    const jittered = jitterIncident(incident, jitter, rng);
+    rng = jittered.rng;
+    return jittered.incident;
+  });
+
+  return {
+    ...scenario,
+    incidents,
+    deliveryPolicy: { ...scenario.deliveryPolicy, seed },
+    parcels: scenario.parcels.map(p => (
+      p.deliveryPolicy ? { ...p, deliveryPolicy: { ...p.deliveryPolicy, seed } } : p
+    )),
+    demand: scenario.demand ? { ...scenario.demand, seed } : undefined,
+  };
+}
+
+// ============================================================================
+// Experiment
+// ============================================================================
+
+/**
+ * Run `options.runs` variants of the scenario and summarise their KPIs
+ */
+export async function runExperiment(
+  scenario: Scenario,
+  options: ExperimentOptions
+): Promise<ExperimentReport> {
+  const baseSeed = options.baseSeed ?? 1;
+  const jitter = options.incidentJitter ?? DEFAULT_INCIDENT_JITTER;
+
+  const deliveryTimes: number[] = [];
+  const delays: number[] = [];
+  const detours: number[] = [];
+  const runs: ExperimentRun[] = [];
+
+  for (let run = 0; run < options.runs; run++) {
+    const seed = baseSeed + run;
+    const report: SimulationReport = await runScenario(
+      createScenarioVariant(scenario, seed, jitter),
+      options
+    );
+
+    for (const parcel of report.parcels) {
+      if (parcel.state !== 'DELIVERED') continue;
+
+      if (parcel.deliveryTimeMin !== null) deliveryTimes.push(parcel.deliveryTimeMin);
+      if (parcel.delayMin !== null) delays.push(parcel.delayMin);
+      detours.push(parcel.detourKm);
+    }
+
+    runs.push({
+      run: run + 1,
+      seed,
+      completed: report.completed,
+      simulatedDurationMin: report.simulatedDurationMin,
+      stats: report.stats,
+      incidentCount: report.parcels.reduce((sum, p) => sum + p.incidents.length, 0),
+    });
+  }
+
+  return {
+    scenario: scenario.name,
+    runCount: options.runs,
+    baseSeed,
+    kpis: {
+      deliveryTimeMin: summarize(deliveryTimes),
+      delayMin: summarize(delays),
+      detourKm: summarize(detours),
+      incidentCount: summarize(runs.map(r => r.incidentCount)),
+      slaComplianceRate: summarize(
+        runs.map(r => r.stats.slaComplianceRate).filter((rate): rate is number => rate !== null)
+      ),
+    },
+    runs,
+  };
+}
@@ -0,0 +1,95 @@
+/**
+ * Parcel Controls
+ * Operator actions on a single parcel: hold, resume, cancel, remove, start
+ * and retry routing
+ */
+
+import { GeoPointResponse, SimulatedParcel, SimulatedVehicle } from './type';
+import { haversineDistance, parseWKTPoint } from './wkt-parser';
+import { getTourParcels, planTourStops, setPlannedStops } from './vehicle-tours';
+
+export type ParcelControl = 'HOLD' | 'RESUME' | 'CANCEL' | 'REMOVE' | 'START' | 'RETRY_ROUTING';
+
+// Un lieu en WKT correspond à un hub situé à moins de cette distance
+const HUB_MATCH_RADIUS_KM = 0.05;
+
+/**
+ * Actions the operator may take on the parcel in its current state
+ *
+ * Parcels on a tour move with their vehicle: they can only be withdrawn
+ * while the vehicle is still loading.
+ */
+export function availableControls(
+  parcel: SimulatedParcel,
+  vehicle: SimulatedVehicle | null = null
+): ParcelControl[] {
+  const finished = parcel.state === 'DELIVERED' || parcel.state === 'FAILED' || parcel.state === 'CANCELLED';
+  if (finished) return ['REMOVE'];
+
+  if (parcel.vehicleId) {
+    return vehicle?.state === 'LOADING' ? ['CANCEL', 'REMOVE'] : [];
+  }
+
+  switch (parcel.state) {
+    case 'PLANNED':
+      return parcel.route ? ['START', 'CANCEL', 'REMOVE'] : ['START', 'RETRY_ROUTING', 'CANCEL', 'REMOVE'];
+    case 'TRANSIT':
+      return [parcel.onHold ? 'RESUME' : 'HOLD', 'CANCEL', 'REMOVE'];
+    default:
+      return ['CANCEL', 'REMOVE'];
+  }
+}
+
+/**
+ * Parcel changes of a cancelled delivery: pending attempts, retries and
+ * detours are dropped so the engine leaves it alone
+ */
+export function cancellationUpdates(): Partial<SimulatedParcel> {
+  return {
+    state: 'CANCELLED',
+    onHold: false,
+    nextAttemptAt: null,
+    pendingRecalculation: null,
+    returningToHub: false,
+    immobilizedUntil: null,
+    detour: null,
+  };
+}
+
+/**
+ * Petri net transitions taking the token of a cancelled parcel to FAILED
+ *
+ * The net has no cancelled place and reaches FAILED from IN_TRANSIT only: a
+ * parcel cancelled before leaving goes through pickup and transit first.
+ */
+export function cancellationTransitions(parcel: SimulatedParcel): string[] {
+  return parcel.state === 'PLANNED'
+    ? ['T_PLAN_TO_PICKUP', 'T_PICKUP_TO_IN_TRANSIT', 'T_TRANSIT_TO_FAILED']
+    : ['T_TRANSIT_TO_FAILED'];
+}
+
+/**
+ * Loading vehicle without the parcel's stops, the rest of its tour replanned
+ */
+export function withdrawFromTour(vehicle: SimulatedVehicle, parcelId: string): SimulatedVehicle {
+  const remaining = getTourParcels(vehicle.stops).filter(p => p.parcelId !== parcelId);
+  return setPlannedStops(vehicle, planTourStops(remaining));
+}
+
+/**
+ * Hub of a parcel location, given either as a hub id or as a WKT point
+ */
+export function findLocationHub(
+  location: string,
+  hubs: GeoPointResponse[]
+): GeoPointResponse | null {
+  const byId = hubs.find(h => h.id === location);
+  if (byId) return byId;
+
+  const point = parseWKTPoint(location);
+  if (!point) return null;
+
+  return hubs.find(h =>
+    haversineDistance(point, { lat: h.latitude, lng: h.longitude }) <= HUB_MATCH_RADIUS_KM
+  ) ?? null;
+}
@@ -0,0 +1,169 @@
+/**
+ * Recalculation Policy
+ * What a parcel or a tour vehicle stopped by a closure does when its route
+ * cannot be recalculated
+ */
+
+import {
+  PendingRecalculation,
+  RecalculationPolicy,
+  RecalculationStrategy,
+  RouteResponse,
+  SimulatedParcel,
+  SimulatedVehicle,
+  SimulationClock,
+} from './type';
+import { clockDate } from './simulation-clock';
+
+export const DEFAULT_RECALCULATION_POLICY: RecalculationPolicy = {
+  strategy: 'RETRY_BACKOFF',
+  maxRetries: 3,
+  initialDelaySec: 30,
+  backoffFactor: 2,
+  algorithms: ['OSRM', 'DIJKSTRA', 'ASTAR', 'BASIC'],
+};
+
+export const RECALCULATION_STRATEGY_LABELS: Record<RecalculationStrategy, string> = {
+  RETRY_BACKOFF: 'Nouvel essai (délai croissant)',
+  SWITCH_ALGORITHM: 'Changer d\'algorithme',
+  WAIT_FOR_RESOLUTION: 'Attendre la levée de l\'incident',
+  MARK_FAILED: 'Colis en échec',
+};
+
+// Suite donnée à un recalcul échoué
+export type RecalculationFailureOutcome = 'RETRY' | 'WAIT' | 'FAILED';
+
+// Colis ou véhicule de tournée dont l'itinéraire se recalcule
+type RecalculationSubject = Pick<SimulatedParcel, 'recalculationPolicy' | 'recalculationAttempts'> & {
+  route?: RouteResponse | null;
+};
+
+// Tentative à enregistrer
+interface RecalculationAttemptInput {
+  incidentId: string;
+  algorithm: string | null;
+  error: string | null;
+}
+
+/**
+ * Failed attempts in a row for the incident, since its last successful one
+ */
+export function countConsecutiveFailures(subject: RecalculationSubject, incidentId: string): number {
+  let failures = 0;
+
+  for (let i = subject.recalculationAttempts.length - 1; i >= 0; i--) {
+    const attempt = subject.recalculationAttempts[i];
+    if (attempt.incidentId !== incidentId || attempt.error === null) break;
+    failures++;
+  }
+  return failures;
+}
+
+/**
+ * Algorithm to request for the next attempt
+ *
+ * The first attempt keeps the route's own algorithm (null); with
+ * SWITCH_ALGORITHM, each failure moves on to the next algorithm of the policy.
+ */
+export function nextRecalculationAlgorithm(subject: RecalculationSubject, incidentId: string): string | null {
+  const { strategy, algorithms } = subject.recalculationPolicy;
+  const failures = countConsecutiveFailures(subject, incidentId);
+  if (strategy !== 'SWITCH_ALGORITHM' || failures === 0) return null;
+
+  const candidates = algorithms.filter(a => a !== subject.route?.routingService);
+  return candidates.length > 0 ? candidates[(failures - 1) % candidates.length] : null;
+}
+
+/**
+ * What the policy does if the attempt being made fails
+ */
+export function recalculationFailureOutcome(
+  subject: RecalculationSubject,
+  incidentId: string
+): RecalculationFailureOutcome {
+  const { strategy, maxRetries } = subject.recalculationPolicy;
+
+  if (strategy === 'MARK_FAILED') return 'FAILED';
+  if (strategy === 'WAIT_FOR_RESOLUTION') return 'WAIT';
+  return countConsecutiveFailures(subject, incidentId) + 1 > maxRetries ? 'FAILED' : 'RETRY';
+}
+
+/**
+ * Next attempt after a failed one: after the backoff delay (RETRY) or once
+ * the incident is lifted (WAIT)
+ */
+function pendingRecalculationAfter(
+  subject: RecalculationSubject,
+  outcome: 'RETRY' | 'WAIT',
+  incidentId: string,
+  clock: SimulationClock
+): PendingRecalculation {
+  if (outcome === 'WAIT') return { incidentId, retryAt: null };
+
+  const { initialDelaySec, backoffFactor } = subject.recalculationPolicy;
+  const failures = countConsecutiveFailures(subject, incidentId);
+  const delayMs = initialDelaySec * Math.pow(backoffFactor, failures) * 1000;
+
+  return { incidentId, retryAt: clockDate(clock, delayMs) };
+}
+
+/**
+ * Record a recalculation attempt on the parcel and, when it failed, apply the
+ * policy: retry later, wait for the incident to be lifted, or FAILED
+ */
+export function recordRecalculation(
+  parcel: SimulatedParcel,
+  attempt: RecalculationAttemptInput,
+  clock: SimulationClock
+): SimulatedParcel {
+  const recorded: SimulatedParcel = {
+    ...parcel,
+    recalculationAttempts: [
+      ...parcel.recalculationAttempts,
+      { ...attempt, attemptedAt: clockDate(clock) },
+    ],
+    pendingRecalculation: null,
+  };
+
+  // Success, or the parcel is no longer stopped (incident lifted meanwhile)
+  if (attempt.error === null || parcel.state !== 'INCIDENT') return recorded;
+
+  const outcome = recalculationFailureOutcome(parcel, attempt.incidentId);
+  if (outcome === 'FAILED') {
+    return { ...recorded, state: 'FAILED' };
+  }
+
+  return {
+    ...recorded,
+    pendingRecalculation: pendingRecalculationAfter(parcel, outcome, attempt.incidentId, clock),
+  };
+}
+
+/**
+ * Same for the leg of a tour blocked by a closure
+ *
+ * A tour is not abandoned on the way with parcels on board: when the policy
+ * would mark it failed, the vehicle waits for the incident to be lifted.
+ */
+export function recordVehicleRecalculation(
+  vehicle: SimulatedVehicle,
+  attempt: RecalculationAttemptInput,
+  clock: SimulationClock
+): SimulatedVehicle {
+  const recorded: SimulatedVehicle = {
+    ...vehicle,
+    recalculationAttempts: [
+      ...vehicle.recalculationAttempts,
+      { ...attempt, attemptedAt: clockDate(clock) },
+    ],
+    pendingRecalculation: null,
+  };
+
+  if (attempt.error === null || vehicle.state !== 'INCIDENT') return recorded;
+
+  const outcome = recalculationFailureOutcome(vehicle, attempt.incidentId) === 'RETRY' ? 'RETRY' : 'WAIT';
+  return {
+    ...recorded,
+    pendingRecalculation: pendingRecalculationAfter(vehicle, outcome, attempt.incidentId, clock),
+  };
+}
@@ -0,0 +1,90 @@
+/**
+ * Encoded polylines against the reference example, encode / decode round
+ * trips, and decoding of every accepted route geometry to the same path
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Position } from './type';
+import {
+  decodePolyline,
+  detectRouteGeometryFormat,
+  encodePolyline,
+  encodeRouteGeometry,
+  routePathOf,
+  toRoutePath,
+} from './route-geometry';
+
+// Example of the Google polyline algorithm documentation
+const REFERENCE_PATH: Position[] = [
+  { lat: 38.5, lng: -120.2 },
+  { lat: 40.7, lng: -120.95 },
+  { lat: 43.252, lng: -126.453 },
+];
+const REFERENCE_POLYLINE = '_p~iF~ps|U_ulLnnqC_mqNvxq`@';
+
+// Deido to Bonabéri, across the Wouri bridge
+const DOUALA_PATH: Position[] = [
+  { lat: 4.063112, lng: 9.711245 },
+  { lat: 4.05871, lng: 9.69402 },
+  { lat: 4.062391, lng: 9.68577 },
+  { lat: 4.075903, lng: 9.669518 },
+];
+
+describe('encoded polylines', () => {
+  it('decodes the reference example', () => {
+    assert.deepEqual(decodePolyline(REFERENCE_POLYLINE), REFERENCE_PATH);
+  });
+
+  it('encodes the reference example', () => {
+    assert.equal(encodePolyline(REFERENCE_PATH), REFERENCE_POLYLINE);
+  });
+
+  it('round trips at precision 6 without loss', () => {
+    assert.deepEqual(decodePolyline(encodePolyline(DOUALA_PATH, 6), 6), DOUALA_PATH);
+  });
+
+  it('rounds to 5 decimals at precision 5', () => {
+    const decoded = decodePolyline(encodePolyline(DOUALA_PATH));
+    decoded.forEach((position, i) => {
+      assert.ok(Math.abs(position.lat - DOUALA_PATH[i].lat) <= 0.000005);
+      assert.ok(Math.abs(position.lng - DOUALA_PATH[i].lng) <= 0.000005);
+    });
+  });
+
+  it('rejects truncated and invalid input', () => {
+    assert.throws(() => decodePolyline(REFERENCE_POLYLINE.slice(0, -1)), /Truncated/);
+    assert.throws(() => decodePolyline('_p~iF ~ps|U'), /Invalid character/);
+  });
+});
+
+describe('route geometries', () => {
+  it('reads every accepted form to the same path', () => {
+    const wkt = `LINESTRING(${DOUALA_PATH.map(p => `${p.lng} ${p.lat}`).join(', ')})`;
+    const lineString = { type: 'LineString', coordinates: DOUALA_PATH.map(p => [p.lng, p.lat]) };
+
+    assert.deepEqual(toRoutePath(wkt), DOUALA_PATH);
+    assert.deepEqual(toRoutePath(`SRID=4326;${wkt}`), DOUALA_PATH);
+    assert.deepEqual(toRoutePath(encodePolyline(DOUALA_PATH, 6), 'POLYLINE6'), DOUALA_PATH);
+    assert.deepEqual(toRoutePath(lineString), DOUALA_PATH);
+    assert.deepEqual(toRoutePath({ type: 'Feature', geometry: lineString, properties: {} }), DOUALA_PATH);
+    assert.deepEqual(toRoutePath(JSON.stringify(lineString), 'GEOJSON'), DOUALA_PATH);
+    assert.deepEqual(toRoutePath(DOUALA_PATH.map(p => ({ latitude: p.lat, longitude: p.lng }))), DOUALA_PATH);
+  });
+
+  it('tells WKT from encoded polylines', () => {
+    assert.equal(detectRouteGeometryFormat('LINESTRING(9.7 4.06, 9.69 4.07)'), 'WKT');
+    assert.equal(detectRouteGeometryFormat(REFERENCE_POLYLINE), 'POLYLINE5');
+    assert.equal(detectRouteGeometryFormat([]), 'POINTS');
+  });
+
+  it('stores a path and reads it back unchanged', () => {
+    const route = {
+      id: 'route-1',
+      ...encodeRouteGeometry(DOUALA_PATH),
+      totalDistanceKm: 5,
+      estimatedDurationMin: 12,
+    };
+    assert.deepEqual(routePathOf(route), DOUALA_PATH);
+  });
+});
@@ -0,0 +1,185 @@
+/**
+ * Route Geometry
+ * Decoding of the route geometries the backend may send (WKT, encoded
+ * polylines, GeoJSON, point arrays) to the positions the simulation follows
+ */
+
+import { GeoJSONGeometry, Position, RouteGeometryFormat, RouteResponse } from './type';
+import { geometryToPath, parseWKT } from './wkt-parser';
+import { fromGeoJSONGeometry } from './geojson';
+
+// Une chaîne commençant par un de ces types est du WKT / EWKT, sinon une polyline encodée
+const WKT_LINE_PATTERN = /^\s*(SRID\s*=\s*\d+\s*;\s*)?(LINESTRING|MULTILINESTRING|GEOMETRYCOLLECTION)\b/i;
+
+const POLYLINE_PRECISION: Record<'POLYLINE5' | 'POLYLINE6', number> = {
+  POLYLINE5: 5,
+  POLYLINE6: 6,
+};
+
+// ============================================================================
+// ENCODED POLYLINES
+// ============================================================================
+
+/**
+ * Decode a Google / OSRM encoded polyline
+ *
+ * @param precision - Decimal digits of the coordinates: 5 (Google, OSRM
+ * default) or 6 (OSRM `polyline6`, Valhalla)
+ */
+export function decodePolyline(encoded: string, precision = 5): Position[] {
+  const factor = Math.pow(10, precision);
+  const path: Position[] = [];
+  let index = 0;
+  let lat = 0;
+  let lng = 0;
+
+  // Zigzag-encoded delta, in 5-bit chunks offset by 63
+  const readDelta = (): number => {
+    let result = 0;
+    let shift = 0;
+    let chunk: number;
+    do {
+      if (index >= encoded.length) {
+        throw new Error(`Truncated encoded polyline at character ${index}`);
+      }
+      chunk = encoded.charCodeAt(index++) - 63;
+      if (chunk < 0 || chunk > 63) {
+        throw new Error(`Invalid character '${encoded[index - 1]}' in encoded polyline at character ${index - 1}`);
+      }
+      result |= (chunk & 0x1f) << shift;
+      shift += 5;
+    } while (chunk >= 0x20);
+
+    return result & 1 ? ~(result >> 1) : result >> 1;
+  };
+
+  while (index < encoded.length) {
+    lat += readDelta();
+    lng += readDelta();
+    path.push({ lat: lat / factor, lng: lng / factor });
+  }
+
+  return path;
+}
+
+/**
+ * Encode positions as a Google / OSRM polyline
+ */
+export function encodePolyline(path: Position[], precision = 5): string {
+  const factor = Math.pow(10, precision);
+  let encoded = '';
+  let previousLat = 0;
+  let previousLng = 0;
+
+  const writeDelta = (delta: number) => {
+    let value = delta < 0 ? ~(delta << 1) : delta << 1;
+    while (value >= 0x20) {
+      encoded += String.fromCharCode((0x20 | (value & 0x1f)) + 63);
+      value >>= 5;
+    }
+    encoded += String.fromCharCode(value + 63);
+  };
+
+  for (const position of path) {
+    const lat = Math.round(position.lat * factor);
+    const lng = Math.round(position.lng * factor);
+    writeDelta(lat - previousLat);
+    writeDelta(lng - previousLng);
+    previousLat = lat;
+    previousLng = lng;
+  }
+
+  return encoded;
+}
+
+// ============================================================================
+// ADAPTER
+// ============================================================================
+
+/**
+ * Position of one point of an array: backend GeoPoint ({ latitude,
+ * longitude }), { lat, lng } or a GeoJSON [lng, lat] pair
+ */
+function toPosition(point: unknown, index: number): Position {
+  if (Array.isArray(point) && typeof point[0] === 'number' && typeof point[1] === 'number') {
+    return { lat: point[1], lng: point[0] };
+  }
+
+  const { latitude, longitude, lat, lng } = (point ?? {}) as Record<string, unknown>;
+  if (typeof latitude === 'number' && typeof longitude === 'number') {
+    return { lat: latitude, lng: longitude };
+  }
+  if (typeof lat === 'number' && typeof lng === 'number') {
+    return { lat, lng };
+  }
+
+  throw new Error(`Invalid route point at index ${index}`);
+}
+
+/**
+ * Form of a route geometry, guessed from its shape
+ *
+ * Strings are WKT when they start with a line keyword, encoded polylines of
+ * precision 5 otherwise: precision 6 cannot be told apart and must be given.
+ */
+export function detectRouteGeometryFormat(geometry: unknown): RouteGeometryFormat {
+  if (Array.isArray(geometry)) return 'POINTS';
+  if (typeof geometry === 'object' && geometry !== null) return 'GEOJSON';
+  if (typeof geometry === 'string' && WKT_LINE_PATTERN.test(geometry)) return 'WKT';
+  return 'POLYLINE5';
+}
+
+/**
+ * Decode a route geometry to the positions of its path
+ *
+ * Accepts WKT / EWKT lines, encoded polylines, GeoJSON LineStrings (object,
+ * Feature or JSON text) and point arrays. Throws on malformed input.
+ */
+export function toRoutePath(
+  geometry: unknown,
+  format: RouteGeometryFormat = detectRouteGeometryFormat(geometry)
+): Position[] {
+  switch (format) {
+    case 'WKT':
+      if (typeof geometry !== 'string') throw new Error('WKT route geometry must be a string');
+      return geometryToPath(parseWKT(geometry).geometry);
+    case 'POLYLINE5':
+    case 'POLYLINE6':
+      if (typeof geometry !== 'string') throw new Error('Encoded polyline must be a string');
+      return decodePolyline(geometry, POLYLINE_PRECISION[format]);
+    case 'GEOJSON': {
+      const parsed = typeof geometry === 'string' ? JSON.parse(geometry) : geometry;
+      const lineGeometry = parsed?.type === 'Feature' ? parsed.geometry : parsed;
+      if (typeof lineGeometry?.type !== 'string') throw new Error('GeoJSON route geometry has no type');
+      return geometryToPath(fromGeoJSONGeometry(lineGeometry as GeoJSONGeometry));
+    }
+    case 'POINTS':
+      if (!Array.isArray(geometry)) throw new Error('Route points must be an array');
+      return geometry.map(toPosition);
+  }
+}
+
+/**
+ * Stored form of a route path: a precision 6 encoded polyline
+ */
+export function encodeRouteGeometry(
+  path: Position[]
+): { routeGeometry: string; routeGeometryFormat: RouteGeometryFormat } {
+  return { routeGeometry: encodePolyline(path, 6), routeGeometryFormat: 'POLYLINE6' };
+}
+
+/**
+ * Path of a route, decoded from its geometry (WKT unless
+ * `routeGeometryFormat` says otherwise)
+ *
+ * Returns an empty path when the geometry cannot be read, like
+ * `parseWKTLineString`.
+ */
+export function routePathOf(route: RouteResponse): Position[] {
+  try {
+    return toRoutePath(route.routeGeometry, route.routeGeometryFormat ?? 'WKT');
+  } catch (error) {
+    console.error('Error decoding route geometry:', error);
+    return [];
+  }
+}
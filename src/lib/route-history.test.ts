@@ -0,0 +1,104 @@
+/**
+ * Trajectory of a parcel across the routes it left: the part driven on each,
+ * joined where the next route starts
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Position, SimulatedParcel } from './type';
+import { SimulationEngine } from './simulation-engine';
+import { advanceClock, createSimulationClock } from './simulation-clock';
+import { drivenPath, leaveRoute, parcelTrajectory } from './route-history';
+import { encodeRouteGeometry } from './route-geometry';
+import { calculatePathDistance, haversineDistance } from './wkt-parser';
+
+const path: Position[] = [
+  { lat: 4.05, lng: 9.7 },
+  { lat: 4.06, lng: 9.71 },
+  { lat: 4.07, lng: 9.7 },
+];
+
+// Left halfway between the second and last points of the route
+const leftAt: Position = { lat: 4.065, lng: 9.705 };
+const detourPath: Position[] = [leftAt, { lat: 4.07, lng: 9.72 }, { lat: 4.08, lng: 9.7 }];
+const onDetour: Position = { lat: 4.075, lng: 9.71 };
+
+const clock = createSimulationClock({ currentTime: Date.UTC(2026, 0, 15, 7) });
+
+function routeOf(id: string, routePath: Position[]) {
+  return {
+    id,
+    ...encodeRouteGeometry(routePath),
+    totalDistanceKm: calculatePathDistance(routePath),
+    estimatedDurationMin: 10,
+  };
+}
+
+// Parcel on its second segment, then moved to a detour it drove halfway along
+function rerouted(): { parcel: SimulatedParcel; detoured: SimulatedParcel } {
+  const started = SimulationEngine.startParcel(
+    SimulationEngine.createSimulatedParcel(
+      { id: 'parcel-1', trackingCode: 'PKG-1' },
+      routeOf('route-1', path),
+      path,
+      clock
+    ),
+    clock
+  );
+  const parcel: SimulatedParcel = {
+    ...started,
+    pathIndex: 1,
+    currentPosition: leftAt,
+    distanceTravelledKm: started.cumulativeDistances[1] + haversineDistance(path[1], leftAt),
+  };
+
+  const detoured = SimulationEngine.updateParcelRoute(
+    parcel,
+    routeOf('route-1-detour', detourPath),
+    detourPath,
+    advanceClock(clock, 5 * 60 * 1000)
+  );
+  return { parcel, detoured };
+}
+
+describe('leaveRoute', () => {
+  it('keeps the route left with the part driven on it', () => {
+    const { parcel, detoured } = rerouted();
+
+    assert.equal(detoured.routeHistory.length, 1);
+    const [leg] = detoured.routeHistory;
+    assert.equal(leg.route?.id, 'route-1');
+    assert.deepEqual(leg.leftAt, leftAt);
+    assert.equal(leg.distanceTravelledKm, parcel.distanceTravelledKm);
+    assert.deepEqual(leg.endedAt, new Date(clock.currentTime + 5 * 60 * 1000));
+  });
+
+  it('records nothing for a parcel without a path', () => {
+    const { parcel } = rerouted();
+    assert.deepEqual(leaveRoute({ ...parcel, routePath: [] }, clock), []);
+  });
+});
+
+describe('parcelTrajectory', () => {
+  it('ends where the route was left until the parcel moves on', () => {
+    const { detoured } = rerouted();
+    assert.deepEqual(parcelTrajectory(detoured), [path[0], path[1], leftAt]);
+  });
+
+  it('runs over the route left, then the detour, without repeating the junction', () => {
+    const { detoured } = rerouted();
+    const moved: SimulatedParcel = {
+      ...detoured,
+      pathIndex: 1,
+      currentPosition: onDetour,
+      distanceTravelledKm: detoured.cumulativeDistances[1] + haversineDistance(detourPath[1], onDetour),
+    };
+
+    assert.deepEqual(parcelTrajectory(moved), [path[0], path[1], leftAt, detourPath[1], onDetour]);
+  });
+
+  it('gives no driven part before departure', () => {
+    const { detoured } = rerouted();
+    assert.deepEqual(drivenPath(detoured, detoured.currentPosition), []);
+  });
+});
@@ -0,0 +1,56 @@
+/**
+ * Route History
+ * Routes a parcel has left (detours, return to the hub, rejoined routes),
+ * kept with the part driven on each to export the whole journey
+ */
+
+import { Position, RouteLeg, SimulatedParcel, SimulationClock } from './type';
+import { clockDate } from './simulation-clock';
+
+/**
+ * Route history of a parcel once it leaves its current route
+ * Unchanged when the parcel has no path to leave
+ */
+export function leaveRoute(parcel: SimulatedParcel, clock: SimulationClock): RouteLeg[] {
+  if (parcel.routePath.length < 2) return parcel.routeHistory;
+
+  return [
+    ...parcel.routeHistory,
+    {
+      route: parcel.route,
+      routePath: parcel.routePath,
+      pathIndex: parcel.pathIndex,
+      distanceTravelledKm: parcel.distanceTravelledKm,
+      leftAt: parcel.currentPosition,
+      endedAt: clockDate(clock),
+    },
+  ];
+}
+
+/**
+ * Part of a route driven, up to the given position
+ */
+export function drivenPath(
+  leg: Pick<RouteLeg, 'routePath' | 'pathIndex' | 'distanceTravelledKm'>,
+  position: Position
+): Position[] {
+  if (leg.distanceTravelledKm <= 0) return [];
+  return [...leg.routePath.slice(0, leg.pathIndex + 1), position];
+}
+
+/**
+ * Whole trajectory of a parcel: the part driven on every route it left, then
+ * on its current one (each new route starts where the last one was left)
+ */
+export function parcelTrajectory(parcel: SimulatedParcel): Position[] {
+  const positions = [
+    ...parcel.routeHistory.flatMap(leg => drivenPath(leg, leg.leftAt)),
+    ...drivenPath(parcel, parcel.currentPosition),
+  ];
+
+  return positions.filter((position, index) => {
+    const previous = positions[index - 1];
+    return !previous || previous.lat !== position.lat || previous.lng !== position.lng;
+  });
+}
+
@@ -0,0 +1,114 @@
+/**
+ * Route Restoration
+ * Once the incident behind a detour is lifted, propose the original route
+ * again and switch back to it when it is shorter
+ */
+
+import {
+  Incident,
+  Position,
+  RouteDecision,
+  RouteResponse,
+  SimulatedParcel,
+  SimulationClock,
+} from './type';
+import { SimulationEngine } from './simulation-engine';
+import { clockDate } from './simulation-clock';
+import { calculatePathDistance, haversineDistance } from './wkt-parser';
+import { encodeRouteGeometry } from './route-geometry';
+import { requiresReroute } from './incident-effects';
+import { isIncidentActive } from './incident-schedule';
+
+/**
+ * Approximate route from the parcel's current position: straight to the
+ * nearest point of the route it had before the detour, then along that route
+ * Built offline, for when the backend cannot route from where the parcel is
+ */
+export function createRejoinRoute(
+  parcel: SimulatedParcel
+): { route: RouteResponse; routePath: Position[] } | null {
+  if (!parcel.detour) return null;
+
+  const { baseRoute, basePath } = parcel.detour;
+  if (basePath.length < 2) return null;
+
+  let nearest = 0;
+  let nearestKm = Infinity;
+  basePath.forEach((position, index) => {
+    const distanceKm = haversineDistance(parcel.currentPosition, position);
+    if (distanceKm < nearestKm) {
+      nearest = index;
+      nearestKm = distanceKm;
+    }
+  });
+
+  const rest = basePath.slice(nearest);
+  const routePath = nearestKm > 0 ? [parcel.currentPosition, ...rest] : rest;
+  if (routePath.length < 2) return null;
+
+  const totalDistanceKm = calculatePathDistance(routePath);
+  const minPerKm = baseRoute.totalDistanceKm > 0
+    ? baseRoute.estimatedDurationMin / baseRoute.totalDistanceKm
+    : 0;
+
+  return {
+    route: {
+      ...baseRoute,
+      ...encodeRouteGeometry(routePath),
+      totalDistanceKm,
+      estimatedDurationMin: totalDistanceKm * minPerKm,
+      approximate: true,
+    },
+    routePath,
+  };
+}
+
+/**
+ * Compare the candidate route with what is left of the detour and record the
+ * decision on the parcel
+ *
+ * The parcel switches to the candidate only when it is shorter and no active
+ * closure lies on it.
+ */
+export function restoreRoute(
+  parcel: SimulatedParcel,
+  candidate: { incidentId: string; route: RouteResponse; routePath: Position[] },
+  incidents: Map<string, Incident>,
+  clock: SimulationClock
+): SimulatedParcel {
+  const detourRemainingKm = Math.max(
+    SimulationEngine.getPathLength(parcel) - parcel.distanceTravelledKm,
+    0
+  );
+  const candidateKm = calculatePathDistance(candidate.routePath);
+
+  const blocked = Array.from(incidents.values()).some(incident =>
+    requiresReroute(incident)
+    && isIncidentActive(incident, clock.currentTime)
+    && SimulationEngine.doesIncidentAffectRoute(incident, candidate.routePath)
+  );
+  const reason: RouteDecision['reason'] = blocked
+    ? 'BLOCKED'
+    : candidateKm < detourRemainingKm ? 'SHORTER' : 'NOT_SHORTER';
+
+  const decision: RouteDecision = {
+    incidentId: candidate.incidentId,
+    decidedAt: clockDate(clock),
+    detourRemainingKm,
+    candidateKm,
+    reverted: reason === 'SHORTER',
+    reason,
+  };
+
+  if (decision.reverted) {
+    return {
+      ...SimulationEngine.updateParcelRoute(parcel, candidate.route, candidate.routePath, clock),
+      routeDecisions: [...parcel.routeDecisions, decision],
+    };
+  }
+
+  // Kept: the detour ends with its last incident
+  const detour = parcel.detour && parcel.detour.incidentIds.length > 0 ? parcel.detour : null;
+
+  return { ...parcel, detour, routeDecisions: [...parcel.routeDecisions, decision] };
+}
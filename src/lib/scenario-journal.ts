@@ -0,0 +1,155 @@
+/**
+ * Scenario Journal
+ * Deterministic replay of the recorded simulation actions
+ */
+
+import { KpiSample, SimulationState, SimulationEvent } from './type';
+import { DEFAULT_LOOK_AHEAD_KM, SimulationEngine } from './simulation-engine';
+import { applySimulationAction } from './simulation-reducer';
+import { isSampleDue, sampleKpis } from './kpi-series';
+import { DEFAULT_TRAFFIC_PROFILE } from './traffic-profiles';
+
+export type SimulationSnapshot = Pick<
+  SimulationState,
+  'parcels' | 'vehicles' | 'incidents' | 'clock' | 'replayCursor' | 'trafficProfile'
+>;
+
+/**
+ * True while journal entries remain ahead of the current simulated time
+ */
+export function isReplaying(state: SimulationState): boolean {
+  return state.replayCursor < state.journal.length;
+}
+
+/**
+ * Apply every journal entry whose time has been reached
+ */
+function applyDueEntries(state: SimulationState): SimulationState {
+  let current = state;
+
+  while (
+    current.replayCursor < current.journal.length &&
+    current.journal[current.replayCursor].simTime <= current.clock.currentTime
+  ) {
+    current = applySimulationAction(
+      current,
+      current.journal[current.replayCursor].action
+    );
+    current = { ...current, replayCursor: current.replayCursor + 1 };
+  }
+
+  return current;
+}
+
+/**
+ * Advance the simulation by `count` ticks
+ *
+ * Journal entries falling due are re-applied between ticks. Events produced
+ * while entries remain ahead are dropped: their consequences (reroutes...)
+ * are already recorded in the journal. KPIs are sampled at every sampling
+ * instant the ticks reach. With `stopOnEvent`, the run ends after the first
+ * tick that produces events.
+ */
+export function advanceSimulation(
+  state: SimulationState,
+  count: number,
+  stopOnEvent = false
+): { snapshot: SimulationSnapshot; events: SimulationEvent[]; samples: KpiSample[] } {
+  let current = state;
+  const events: SimulationEvent[] = [];
+  const samples: KpiSample[] = [];
+
+  for (let i = 0; i < count; i++) {
+    current = applyDueEntries(current);
+    const previousTime = current.clock.currentTime;
+
+    const result = SimulationEngine.tick(
+      current.parcels,
+      current.vehicles,
+      current.incidents,
+      current.clock,
+      DEFAULT_LOOK_AHEAD_KM,
+      current.trafficProfile
+    );
+    current = {
+      ...current,
+      parcels: result.parcels,
+      vehicles: result.vehicles,
+      incidents: result.incidents,
+      clock: result.clock,
+    };
+
+    if (!isReplaying(current)) {
+      events.push(...result.events);
+    }
+
+    if (isSampleDue(previousTime, current.clock.currentTime)) {
+      samples.push(sampleKpis(current.parcels, current.vehicles, current.clock.currentTime));
+    }
+
+    if (stopOnEvent && events.length > 0) break;
+  }
+
+  return {
+    snapshot: {
+      parcels: current.parcels,
+      vehicles: current.vehicles,
+      incidents: current.incidents,
+      clock: current.clock,
+      replayCursor: current.replayCursor,
+      trafficProfile: current.trafficProfile,
+    },
+    events,
+    samples,
+  };
+}
+
+/**
+ * Rebuild the simulation as it was at `targetTime` by replaying the journal
+ * from its origin
+ */
+export function replayJournal(
+  state: SimulationState,
+  targetTime: number
+): SimulationSnapshot {
+  let current: SimulationState = {
+    ...state,
+    parcels: new Map(),
+    vehicles: new Map(),
+    incidents: new Map(),
+    clock: state.journalOrigin,
+    replayCursor: 0,
+    // Every change of profile is journaled: the origin runs on the default one
+    trafficProfile: DEFAULT_TRAFFIC_PROFILE,
+  };
+
+  for (;;) {
+    current = applyDueEntries(current);
+    if (current.clock.currentTime >= targetTime) break;
+
+    const result = SimulationEngine.tick(
+      current.parcels,
+      current.vehicles,
+      current.incidents,
+      current.clock,
+      DEFAULT_LOOK_AHEAD_KM,
+      current.trafficProfile
+    );
+    current = {
+      ...current,
+      parcels: result.parcels,
+      vehicles: result.vehicles,
+      incidents: result.incidents,
+      clock: result.clock,
+    };
+  }
+
+  return {
+    parcels: current.parcels,
+    vehicles: current.vehicles,
+    incidents: current.incidents,
+    clock: current.clock,
+    replayCursor: current.replayCursor,
+    trafficProfile: current.trafficProfile,
+  };
+}
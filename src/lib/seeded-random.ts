@@ -0,0 +1,34 @@
+/**
+ * Seeded Random
+ * Reproducible pseudo-random draws: the same seed always gives the same
+ * simulation, so runs can be replayed and compared
+ */
+
+/**
+ * Next value in [0, 1) of a mulberry32 sequence
+ *
+ * The generator state is an explicit 32-bit integer, returned with the value,
+ * so callers keep it in their own (serialisable) state.
+ */
+export function nextRandom(state: number): { value: number; state: number } {
+  const next = (state + 0x6d2b79f5) | 0;
+  let t = next;
+  t = Math.imul(t ^ (t >>> 15), t | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+
+  return { value: ((t ^ (t >>> 14)) >>> 0) / 0x100000000, state: next };
+}
+
+/**
+ * Stateless draw in [0, 1) derived from a key (FNV-1a hash)
+ */
+export function hashToUnit(key: string): number {
+  let hash = 0x811c9dc5;
+
+  for (let i = 0; i < key.length; i++) {
+    hash ^= key.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+
+  return (hash >>> 0) / 0x100000000;
+}
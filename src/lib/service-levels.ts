@@ -0,0 +1,196 @@
+/**
+ * Service Levels
+ * Promised delivery deadlines, slack tracking and SLA compliance
+ */
+
+import {
+  ArrivalProjection,
+  Incident,
+  ServiceLevel,
+  ServiceLevelDurations,
+  SimulatedParcel,
+  SimulationClock,
+  SimulationEvent,
+  TrafficProfile,
+} from './type';
+import { clockDate } from './simulation-clock';
+import { DEFAULT_TRAFFIC_PROFILE, estimateTravelMs } from './traffic-profiles';
+import { DEFAULT_KPI_SAMPLE_INTERVAL_MS } from './kpi-series';
+
+export const DEFAULT_SERVICE_LEVELS: ServiceLevelDurations = {
+  EXPRESS: 60,
+  STANDARD: 4 * 60,
+  ECONOMY: 24 * 60,
+};
+
+export const SERVICE_LEVEL_LABELS: Record<ServiceLevel, string> = {
+  EXPRESS: 'Express',
+  STANDARD: 'Standard',
+  ECONOMY: 'Économique',
+};
+
+// Marge (minutes) en dessous de laquelle un colis est signalé à risque
+export const AT_RISK_SLACK_MIN = 15;
+
+/**
+ * Promise a delivery window to the parcel, starting now
+ */
+export function withServiceLevel(
+  parcel: SimulatedParcel,
+  serviceLevel: ServiceLevel | null,
+  durations: ServiceLevelDurations,
+  clock: SimulationClock
+): SimulatedParcel {
+  if (!serviceLevel) return parcel;
+
+  return {
+    ...parcel,
+    serviceLevel,
+    deliveryDeadline: clockDate(clock, durations[serviceLevel] * 60 * 1000),
+  };
+}
+
+// Incidents ajoutés ou résolus : la projection le long du trajet est à refaire
+function incidentsKeyOf(incidents: Map<string, Incident>): string {
+  return Array.from(incidents.values(), i => `${i.id}:${i.resolved}`).join(',');
+}
+
+/**
+ * Arrival of a parcel driving alone, walked along the rest of its route
+ *
+ * The walk is costly: the last one is reused until a KPI sampling interval
+ * has passed or the immobilisation or incidents change. A new route clears it
+ * (`updateParcelRoute`).
+ */
+function walkedArrival(
+  parcel: SimulatedParcel,
+  now: number,
+  incidents: Map<string, Incident>,
+  trafficProfile: TrafficProfile
+): ArrivalProjection {
+  const immobilizedUntil = parcel.immobilizedUntil?.getTime() ?? null;
+  const incidentsKey = incidentsKeyOf(incidents);
+  const cached = parcel.arrivalProjection;
+  if (
+    cached
+    && now - cached.computedAt < DEFAULT_KPI_SAMPLE_INTERVAL_MS
+    && cached.immobilizedUntil === immobilizedUntil
+    && cached.incidentsKey === incidentsKey
+  ) {
+    return cached;
+  }
+
+  const repairMs = immobilizedUntil !== null ? Math.max(immobilizedUntil - now, 0) : 0;
+  return {
+    arrival: now + repairMs + estimateTravelMs(parcel, now + repairMs, incidents, trafficProfile),
+    computedAt: now,
+    immobilizedUntil,
+    incidentsKey,
+  };
+}
+
+/**
+ * Projected arrival (ms epoch), null when unknown, with the walked
+ * projection to keep on the parcel (null when none was needed)
+ *
+ * Parcels driving alone are projected from their remaining distance and the
+ * congestion ahead, so a parcel stopped by an incident sees its slack shrink
+ * while it waits.
+ */
+export function projectArrival(
+  parcel: SimulatedParcel,
+  clock: SimulationClock,
+  incidents: Map<string, Incident> = new Map(),
+  trafficProfile: TrafficProfile = DEFAULT_TRAFFIC_PROFILE
+): { arrival: number | null; projection: ArrivalProjection | null } {
+  const now = clock.currentTime;
+
+  if (parcel.state === 'DELIVERED') return { arrival: parcel.actualArrival?.getTime() ?? null, projection: null };
+  if (parcel.nextAttemptAt) return { arrival: parcel.nextAttemptAt.getTime(), projection: null };
+
+  // Waiting for departure, or carried by a tour vehicle
+  if (parcel.state === 'PLANNED' || parcel.vehicleId || parcel.routePath.length === 0) {
+    const arrival = parcel.estimatedArrival ? Math.max(parcel.estimatedArrival.getTime(), now) : null;
+    return { arrival, projection: null };
+  }
+
+  const projection = walkedArrival(parcel, now, incidents, trafficProfile);
+  return { arrival: projection.arrival, projection };
+}
+
+/**
+ * Refresh the parcel's slack and flag the breach the first time the deadline
+ * can no longer be met (late projection, failed delivery, return to hub)
+ */
+export function updateSla(
+  parcel: SimulatedParcel,
+  clock: SimulationClock,
+  incidents: Map<string, Incident> = new Map(),
+  trafficProfile: TrafficProfile = DEFAULT_TRAFFIC_PROFILE
+): { parcel: SimulatedParcel; event: SimulationEvent | null } {
+  if (!parcel.deliveryDeadline || parcel.state === 'CANCELLED') return { parcel, event: null };
+
+  const undeliverable = parcel.state === 'FAILED' || parcel.returningToHub;
+  const { arrival, projection } = undeliverable
+    ? { arrival: null, projection: null }
+    : projectArrival(parcel, clock, incidents, trafficProfile);
+  const slackMin = arrival === null
+    ? null
+    : Math.round((parcel.deliveryDeadline.getTime() - arrival) / 60000 * 10) / 10;
+  const breached = undeliverable || (slackMin !== null && slackMin < 0);
+
+  if (
+    slackMin === parcel.slackMin
+    && projection === parcel.arrivalProjection
+    && (parcel.slaBreached || !breached)
+  ) {
+    return { parcel, event: null };
+  }
+
+  const updated = {
+    ...parcel,
+    slackMin,
+    slaBreached: parcel.slaBreached || breached,
+    arrivalProjection: projection,
+  };
+  const event: SimulationEvent | null = breached && !parcel.slaBreached
+    ? { type: 'SLA_BREACHED', parcelId: parcel.id, slackMin }
+    : null;
+
+  return { parcel: updated, event };
+}
+
+/**
+ * True when the parcel still can make it but with little slack left
+ */
+export function isSlaAtRisk(parcel: SimulatedParcel): boolean {
+  return !parcel.slaBreached
+    && parcel.state !== 'DELIVERED'
+    && parcel.slackMin !== null
+    && parcel.slackMin < AT_RISK_SLACK_MIN;
+}
+
+/**
+ * Share of the finished parcels with a deadline that were delivered in time
+ * (null when none has finished yet)
+ */
+export function slaComplianceRate(parcels: Iterable<SimulatedParcel>): number | null {
+  let finished = 0;
+  let compliant = 0;
+
+  for (const parcel of parcels) {
+    if (!parcel.deliveryDeadline) continue;
+    if (parcel.state !== 'DELIVERED' && parcel.state !== 'FAILED') continue;
+
+    finished++;
+    if (
+      parcel.state === 'DELIVERED'
+      && parcel.actualArrival
+      && parcel.actualArrival.getTime() <= parcel.deliveryDeadline.getTime()
+    ) {
+      compliant++;
+    }
+  }
+
+  return finished > 0 ? compliant / finished : null;
+}
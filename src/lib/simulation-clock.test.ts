@@ -0,0 +1,74 @@
+/**
+ * Frame deltas turned into whole ticks with the remainder carried over, and
+ * Douala time of day whatever the host time zone
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  atSimulatedDayTime,
+  createSimulationClock,
+  simulatedDayTime,
+  ticksForFrame,
+} from './simulation-clock';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+describe('ticksForFrame', () => {
+  it('carries the remainder of a frame to the next one', () => {
+    const clock = createSimulationClock({ currentTime: 0, tickMs: 100, speedMultiplier: 1 });
+
+    const first = ticksForFrame(clock, 16, 0);
+    assert.deepEqual(first, { ticks: 0, carryMs: 16 });
+
+    // 7 frames of 16 ms: 112 ms, one tick and 12 ms left
+    let carryMs = 0;
+    let ticks = 0;
+    for (let i = 0; i < 7; i++) {
+      const frame = ticksForFrame(clock, 16, carryMs);
+      ticks += frame.ticks;
+      carryMs = frame.carryMs;
+    }
+    assert.equal(ticks, 1);
+    assert.equal(carryMs, 12);
+  });
+
+  it('runs simulated time at the speed multiplier on average', () => {
+    const clock = createSimulationClock({ currentTime: 0, tickMs: 100, speedMultiplier: 10 });
+
+    let carryMs = 0;
+    let ticks = 0;
+    for (let i = 0; i < 60; i++) {
+      const frame = ticksForFrame(clock, 16, carryMs);
+      ticks += frame.ticks;
+      carryMs = frame.carryMs;
+    }
+    // 60 frames of 16 ms at 10x: 9600 simulated ms
+    assert.equal(ticks * clock.tickMs + carryMs, 9600);
+  });
+
+  it('treats a long pause as the longest frame instead of catching up', () => {
+    const clock = createSimulationClock({ currentTime: 0, tickMs: 100, speedMultiplier: 1 });
+    assert.deepEqual(ticksForFrame(clock, 5000, 0), { ticks: 2, carryMs: 50 });
+  });
+
+  it('caps the ticks of one frame and drops the rest', () => {
+    const clock = createSimulationClock({ currentTime: 0, tickMs: 100, speedMultiplier: 300 });
+    assert.deepEqual(ticksForFrame(clock, 200, 0), { ticks: 50, carryMs: 0 });
+  });
+});
+
+describe('simulated time of day', () => {
+  it('reads the hour in Douala time (UTC+1)', () => {
+    const utcMidnight = Date.UTC(2026, 0, 15);
+    assert.equal(simulatedDayTime(utcMidnight), HOUR_MS);
+    assert.equal(simulatedDayTime(utcMidnight + 23 * HOUR_MS), 0);
+  });
+
+  it('places a time of day on the Douala day of the given time', () => {
+    // 23:30 UTC is already 00:30 the next day in Douala
+    const lateUtc = Date.UTC(2026, 0, 15, 23, 30);
+    assert.equal(atSimulatedDayTime(lateUtc, 8), Date.UTC(2026, 0, 16, 7));
+    assert.equal(atSimulatedDayTime(Date.UTC(2026, 0, 15, 12), 8, 30), Date.UTC(2026, 0, 15, 7, 30));
+  });
+});
@@ -0,0 +1,112 @@
+/**
+ * Simulation Clock
+ * Virtual, deterministic time source shared by every engine function
+ */
+
+import { SimulationClock } from './type';
+
+export const DEFAULT_TICK_MS = 100; // 100 ms simulées par tick
+
+// Au-delà de ce délai réel entre deux frames (onglet en arrière-plan,
+// requestAnimationFrame ralenti), on considère que la simulation était en pause
+// au lieu de rattraper le retard d'un coup.
+const MAX_FRAME_DELTA_MS = 250;
+
+// Limite de ticks exécutés dans une seule frame (10x à 60 FPS ≈ 2 ticks)
+const MAX_TICKS_PER_FRAME = 50;
+
+// Multiplicateurs acceptés : au-delà de ~300x, la limite de ticks par frame
+// (50 ticks de 100 ms toutes les 16 ms) ralentirait de toute façon la simulation
+export const MIN_SPEED_MULTIPLIER = 0.1;
+export const MAX_SPEED_MULTIPLIER = 300;
+
+// Douala : UTC+1 toute l'année. Les heures du jour simulé (départ, incidents
+// programmés, courbes de trafic) sont en heure de Douala, quel que soit l'hôte
+export const DOUALA_UTC_OFFSET_MIN = 60;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Time elapsed (ms) since midnight in Douala at `time`
+ */
+export function simulatedDayTime(time: number, utcOffsetMin: number = DOUALA_UTC_OFFSET_MIN): number {
+  return (((time + utcOffsetMin * 60 * 1000) % DAY_MS) + DAY_MS) % DAY_MS;
+}
+
+/**
+ * Timestamp of `hours:minutes`, Douala time, on the day of `time`
+ */
+export function atSimulatedDayTime(time: number, hours: number, minutes = 0): number {
+  return time - simulatedDayTime(time) + (hours * 60 + minutes) * 60 * 1000;
+}
+
+/**
+ * Default simulated start: today at 08:00, Douala time
+ */
+function defaultStartTime(): number {
+  return atSimulatedDayTime(Date.now(), 8);
+}
+
+/**
+ * Create a new simulation clock
+ */
+export function createSimulationClock(
+  options: Partial<SimulationClock> = {}
+): SimulationClock {
+  return {
+    currentTime: options.currentTime ?? defaultStartTime(),
+    tickMs: options.tickMs ?? DEFAULT_TICK_MS,
+    speedMultiplier: options.speedMultiplier ?? 1,
+  };
+}
+
+/**
+ * Advance the clock by a simulated duration (ms)
+ */
+export function advanceClock(
+  clock: SimulationClock,
+  simulatedMs: number
+): SimulationClock {
+  return { ...clock, currentTime: clock.currentTime + simulatedMs };
+}
+
+/**
+ * Bring a requested speed multiplier within the supported range
+ */
+export function clampSpeedMultiplier(multiplier: number): number {
+  if (!Number.isFinite(multiplier)) return 1;
+  return Math.min(Math.max(multiplier, MIN_SPEED_MULTIPLIER), MAX_SPEED_MULTIPLIER);
+}
+
+/**
+ * Current simulated time as a Date
+ */
+export function clockDate(clock: SimulationClock, offsetMs = 0): Date {
+  return new Date(clock.currentTime + offsetMs);
+}
+
+/**
+ * Convert a real (wall-clock) frame delta into a whole number of ticks
+ *
+ * The remainder is carried over to the next frame so that, on average,
+ * simulated time runs at `speedMultiplier` times real time. Each tick always
+ * advances the clock by exactly `tickMs`, which keeps runs reproducible
+ * regardless of the frame rate.
+ *
+ * @returns ticks to execute now and the simulated ms carried to the next frame
+ */
+export function ticksForFrame(
+  clock: SimulationClock,
+  realDeltaMs: number,
+  carryMs: number
+): { ticks: number; carryMs: number } {
+  const clampedDelta = Math.min(Math.max(realDeltaMs, 0), MAX_FRAME_DELTA_MS);
+  const simulatedMs = clampedDelta * clock.speedMultiplier + carryMs;
+  const ticks = Math.floor(simulatedMs / clock.tickMs);
+
+  if (ticks > MAX_TICKS_PER_FRAME) {
+    return { ticks: MAX_TICKS_PER_FRAME, carryMs: 0 };
+  }
+
+  return { ticks, carryMs: simulatedMs - ticks * clock.tickMs };
+}
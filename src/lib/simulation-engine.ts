@@ -4,83 +4,504 @@
  */
 
 import {
+  DeliveryPolicy,
+  RecalculationPolicy,
   SimulatedParcel,
+  SimulatedVehicle,
   Incident,
   Position,
   ParcelState,
+  RouteFollower,
   RouteResponse,
+  SimulationClock,
+  SimulationEvent,
+  TourStop,
+  TrafficProfile,
+  VehicleType,
 } from './type';
 import {
-  interpolateAlongPath,
+  interpolateAtDistance,
   isWithinRadius,
-  isWithinLineBuffer,
   calculatePathDistance,
+  buildCumulativeDistances,
 } from './wkt-parser';
+import { advanceClock, clockDate } from './simulation-clock';
+import {
+  doesSegmentCrossIncidentZone,
+  getRepairDurationMs,
+  isInIncidentZone,
+  requiresReroute,
+  speedFactorAt,
+} from './incident-effects';
+import { isIncidentActive, updateIncidentLifecycles } from './incident-schedule';
+import { advanceVehicle, getTourParcelProgress } from './vehicle-tours';
+import { DEFAULT_DELIVERY_POLICY, attemptDelivery, resolveArrival } from './delivery-attempts';
+import { DEFAULT_RECALCULATION_POLICY } from './recalculation-policy';
+import { leaveRoute } from './route-history';
+import { slaComplianceRate, updateSla } from './service-levels';
+import { DEFAULT_VEHICLE_TYPE, VEHICLE_CATALOG, operatingCost } from './vehicle-catalog';
+import {
+  DEFAULT_TRAFFIC_PROFILE,
+  estimateTravelMs,
+  routeTrafficFactor,
+  trafficFactorAt,
+} from './traffic-profiles';
+
+// Distance de route inspectée devant chaque colis pour anticiper les fermetures
+export const DEFAULT_LOOK_AHEAD_KM = 2;
 
 export class SimulationEngine {
-  private static readonly BASE_SPEED = 40; // km/h (vitesse moyenne en ville)
-  private static readonly UPDATE_INTERVAL_MS = 100; // 10 FPS
+  /**
+   * Advance the whole simulation by one clock tick
+   *
+   * Pure function: returns the new clock, the updated parcels, vehicles and
+   * incidents, and the events the caller must handle (backend recalculation,
+   * Petri transitions...).
+   *
+   * @param lookAheadKm - Remaining route scanned for closures ahead of each parcel
+   * @param trafficProfile - Time-of-day congestion applied on top of incidents
+   */
+  static tick(
+    parcels: Map<string, SimulatedParcel>,
+    vehicles: Map<string, SimulatedVehicle>,
+    incidents: Map<string, Incident>,
+    clock: SimulationClock,
+    lookAheadKm: number = DEFAULT_LOOK_AHEAD_KM,
+    trafficProfile: TrafficProfile = DEFAULT_TRAFFIC_PROFILE
+  ): {
+    clock: SimulationClock;
+    parcels: Map<string, SimulatedParcel>;
+    vehicles: Map<string, SimulatedVehicle>;
+    incidents: Map<string, Incident>;
+    events: SimulationEvent[];
+  } {
+    const nextClock = advanceClock(clock, clock.tickMs);
+    const updatedParcels = new Map(parcels);
+    const updatedVehicles = new Map(vehicles);
+    const events: SimulationEvent[] = [];
+
+    // Scheduled incidents start and expire on their own
+    const lifecycle = updateIncidentLifecycles(incidents, clock, nextClock);
+    incidents = lifecycle.incidents;
+    lifecycle.activated.forEach(incidentId => events.push({ type: 'INCIDENT_ACTIVATED', incidentId }));
+    lifecycle.expired.forEach(incidentId => events.push({ type: 'INCIDENT_EXPIRED', incidentId }));
+
+    for (const [id, parcel] of parcels.entries()) {
+      // Parcels on a tour are moved by their vehicle; held parcels wait in place
+      if (parcel.vehicleId || parcel.onHold) continue;
+
+      // Broken-down vehicle: wait for the end of the repair
+      if (parcel.state === 'INCIDENT' && parcel.immobilizedUntil) {
+        if (nextClock.currentTime >= parcel.immobilizedUntil.getTime()) {
+          updatedParcels.set(id, { ...parcel, state: 'TRANSIT', immobilizedUntil: null });
+          events.push({ type: 'VEHICLE_REPAIRED', parcelId: id });
+        }
+        continue;
+      }
+
+      // Route recalculation failed: wait for the next attempt, or for the
+      // incident to be lifted (the parcel then resumes its route)
+      if (parcel.pendingRecalculation) {
+        const { incidentId, retryAt } = parcel.pendingRecalculation;
+        const incident = incidents.get(incidentId);
+
+        if (!incident || !isIncidentActive(incident, nextClock.currentTime)) {
+          updatedParcels.set(id, { ...parcel, state: 'TRANSIT', pendingRecalculation: null });
+          events.push({ type: 'INCIDENT_LIFTED', parcelId: id, incidentId });
+        } else if (retryAt && nextClock.currentTime >= retryAt.getTime()) {
+          updatedParcels.set(id, { ...parcel, pendingRecalculation: null });
+          events.push({ type: 'RECALCULATION_RETRY', parcelId: id, incidentId });
+        }
+        continue;
+      }
+
+      // Recipient absent: wait at the delivery address for the next attempt
+      if (parcel.nextAttemptAt) {
+        if (nextClock.currentTime >= parcel.nextAttemptAt.getTime()) {
+          const { parcel: attempted, event } = attemptDelivery(parcel, nextClock);
+          updatedParcels.set(id, attempted);
+          events.push(event);
+        }
+        continue;
+      }
+
+      if (parcel.state !== 'TRANSIT') continue;
+
+      // Traffic and weather zones, the hour of the day and the backend's
+      // traffic estimate slow the parcel down where it currently is
+      const speedFactor = speedFactorAt(parcel.currentPosition, incidents, nextClock.currentTime)
+        * trafficFactorAt(parcel.currentPosition, nextClock.currentTime, trafficProfile)
+        * routeTrafficFactor(parcel.route);
+      const slowed = speedFactor === parcel.speedFactor ? parcel : { ...parcel, speedFactor };
+
+      let updated = this.updateParcelPosition(slowed, clock.tickMs);
+      const collidingIncident = this.checkIncidentCollision(
+        updated,
+        incidents,
+        nextClock.currentTime
+      );
+
+      if (collidingIncident) {
+        const { parcel: affected, event } = this.applyIncidentEffect(
+          updated,
+          collidingIncident,
+          [updatedParcels, updatedVehicles],
+          nextClock
+        );
+        if (event) events.push(event);
+
+        // Stopped by the incident; otherwise it only slows it down (or was
+        // claimed by another vehicle) and the parcel carries on
+        if (affected.state !== 'TRANSIT') {
+          updatedParcels.set(id, affected);
+          continue;
+        }
+        updated = affected;
+      }
+
+      // Closure further along the route: stop and reroute before reaching it
+      const blockingIncident = updated.state === 'TRANSIT'
+        ? this.findBlockingIncidentAhead(updated, incidents, nextClock.currentTime, lookAheadKm)
+        : null;
+
+      if (blockingIncident) {
+        updatedParcels.set(id, this.markParcelIncident(updated, blockingIncident.id));
+        events.push({ type: 'INCIDENT_AHEAD', parcelId: id, incidentId: blockingIncident.id });
+      } else if (updated !== parcel && this.hasArrived(updated)) {
+        const { parcel: arrived, event } = resolveArrival(updated, nextClock);
+        updatedParcels.set(id, arrived);
+        events.push(event);
+      } else if (updated !== parcel) {
+        updatedParcels.set(id, updated);
+      }
+    }
+
+    // Tours: each vehicle moves and carries its parcels along
+    for (const [id, vehicle] of vehicles.entries()) {
+      const result = this.updateVehicle(
+        vehicle,
+        incidents,
+        [updatedParcels, updatedVehicles],
+        clock,
+        nextClock,
+        lookAheadKm,
+        trafficProfile
+      );
+      if (result.vehicle === vehicle) continue;
+
+      updatedVehicles.set(id, result.vehicle);
+      events.push(...result.events);
+      events.push(...this.syncTourParcels(result.vehicle, result.visited, updatedParcels, nextClock));
+    }
+
+    // Detours whose incident is lifted: the caller proposes a fresh route
+    for (const [id, parcel] of updatedParcels.entries()) {
+      const cleared = this.findClearedDetourIncidents(parcel, incidents, nextClock.currentTime);
+      if (cleared.length === 0) continue;
+
+      updatedParcels.set(id, {
+        ...parcel,
+        detour: {
+          ...parcel.detour!,
+          incidentIds: parcel.detour!.incidentIds.filter(incidentId => !cleared.includes(incidentId)),
+        },
+      });
+      cleared.forEach(incidentId => events.push({ type: 'INCIDENT_CLEARED', parcelId: id, incidentId }));
+    }
+
+    // Delivery deadlines: slack at the current pace, breach raised once
+    for (const [id, parcel] of updatedParcels.entries()) {
+      const { parcel: tracked, event } = updateSla(parcel, nextClock, incidents, trafficProfile);
+      if (tracked !== parcel) updatedParcels.set(id, tracked);
+      if (event) events.push(event);
+    }
+
+    return {
+      clock: nextClock,
+      parcels: updatedParcels,
+      vehicles: updatedVehicles,
+      incidents,
+      events,
+    };
+  }
+
+  /**
+   * Advance one vehicle: repair wait, slowdowns, stops, incidents on its tour
+   */
+  static updateVehicle(
+    vehicle: SimulatedVehicle,
+    incidents: Map<string, Incident>,
+    followers: Map<string, RouteFollower & { id: string }>[],
+    clock: SimulationClock,
+    nextClock: SimulationClock,
+    lookAheadKm: number,
+    trafficProfile: TrafficProfile = DEFAULT_TRAFFIC_PROFILE
+  ): { vehicle: SimulatedVehicle; visited: TourStop[]; events: SimulationEvent[] } {
+    const unchanged = { vehicle, visited: [], events: [] };
+
+    // Broken-down vehicle: wait for the end of the repair
+    if (vehicle.state === 'INCIDENT' && vehicle.immobilizedUntil) {
+      if (nextClock.currentTime < vehicle.immobilizedUntil.getTime()) return unchanged;
+
+      return {
+        vehicle: { ...vehicle, state: 'EN_ROUTE', immobilizedUntil: null },
+        visited: [],
+        events: [{ type: 'VEHICLE_RESUMED', vehicleId: vehicle.id }],
+      };
+    }
+
+    // Leg recalculation failed: wait for the next attempt, or for the
+    // incident to be lifted (the vehicle then resumes its tour)
+    if (vehicle.pendingRecalculation) {
+      const { incidentId, retryAt } = vehicle.pendingRecalculation;
+      const incident = incidents.get(incidentId);
+
+      if (!incident || !isIncidentActive(incident, nextClock.currentTime)) {
+        return {
+          vehicle: { ...vehicle, state: 'EN_ROUTE', pendingRecalculation: null },
+          visited: [],
+          events: [{ type: 'VEHICLE_INCIDENT_LIFTED', vehicleId: vehicle.id, incidentId }],
+        };
+      }
+      if (retryAt && nextClock.currentTime >= retryAt.getTime()) {
+        return {
+          vehicle: { ...vehicle, pendingRecalculation: null },
+          visited: [],
+          events: [{ type: 'VEHICLE_RECALCULATION_RETRY', vehicleId: vehicle.id, incidentId }],
+        };
+      }
+      return unchanged;
+    }
+
+    if (vehicle.state !== 'EN_ROUTE') return unchanged;
+
+    const speedFactor = speedFactorAt(vehicle.currentPosition, incidents, nextClock.currentTime)
+      * trafficFactorAt(vehicle.currentPosition, nextClock.currentTime, trafficProfile);
+    const slowed = speedFactor === vehicle.speedFactor ? vehicle : { ...vehicle, speedFactor };
+    const { vehicle: moved, visited } = advanceVehicle(slowed, clock.tickMs, nextClock);
+
+    if (moved.state === 'COMPLETED') {
+      return { vehicle: moved, visited, events: [{ type: 'TOUR_COMPLETED', vehicleId: vehicle.id }] };
+    }
+
+    const time = nextClock.currentTime;
+    const incident = this.checkIncidentCollision(moved, incidents, time)
+      ?? this.findBlockingIncidentAhead(moved, incidents, time, lookAheadKm);
+    if (!incident) return { vehicle: moved, visited, events: [] };
+
+    const affected = { ...moved, affectedByIncidents: [...moved.affectedByIncidents, incident.id] };
+
+    if (requiresReroute(incident)) {
+      return {
+        vehicle: { ...affected, state: 'INCIDENT' },
+        visited,
+        events: [{ type: 'VEHICLE_BLOCKED', vehicleId: vehicle.id, incidentId: incident.id }],
+      };
+    }
+
+    if (incident.type === 'VEHICLE_BREAKDOWN') {
+      // Already claimed: recorded so it is not matched again on every tick
+      if (this.isIncidentClaimed(incident.id, vehicle.id, followers)) {
+        return { vehicle: affected, visited, events: [] };
+      }
+
+      return {
+        vehicle: {
+          ...affected,
+          state: 'INCIDENT',
+          immobilizedUntil: clockDate(nextClock, getRepairDurationMs(incident)),
+        },
+        visited,
+        events: [{ type: 'VEHICLE_BROKEN_DOWN', vehicleId: vehicle.id, incidentId: incident.id }],
+      };
+    }
+
+    return { vehicle: affected, visited, events: [] };
+  }
+
+  /**
+   * Update the parcels of a tour after its vehicle moved: pickups, deliveries,
+   * and the position and state of the parcels on board
+   */
+  static syncTourParcels(
+    vehicle: SimulatedVehicle,
+    visited: TourStop[],
+    parcels: Map<string, SimulatedParcel>,
+    clock: SimulationClock
+  ): SimulationEvent[] {
+    const events: SimulationEvent[] = [];
+
+    for (const stop of visited) {
+      const parcel = parcels.get(stop.parcelId);
+      if (!parcel) continue;
+
+      if (stop.type === 'PICKUP') {
+        const delivery = vehicle.stops.find(s => s.type === 'DELIVERY' && s.parcelId === parcel.id);
+        const remainingKm = delivery ? delivery.distanceKm - vehicle.distanceTravelledKm : 0;
+
+        parcels.set(parcel.id, {
+          ...parcel,
+          state: 'TRANSIT',
+          startTime: clockDate(clock),
+          estimatedArrival: clockDate(clock, (remainingKm / vehicle.speed) * 60 * 60 * 1000),
+        });
+        events.push({ type: 'PARCEL_PICKED_UP', parcelId: parcel.id, vehicleId: vehicle.id });
+      } else {
+        const { parcel: attempted, event } = attemptDelivery(
+          { ...parcel, currentPosition: stop.position, progress: 1, speedFactor: 1 },
+          clock
+        );
+
+        // Not handed over: the parcel is left at the stop and goes on alone
+        // (re-attempt, then return to its pickup hub)
+        parcels.set(
+          parcel.id,
+          attempted.state === 'DELIVERED' ? attempted : { ...attempted, vehicleId: null }
+        );
+        events.push(event);
+      }
+    }
+
+    for (const parcelId of vehicle.load) {
+      const parcel = parcels.get(parcelId);
+      if (!parcel) continue;
+
+      parcels.set(parcelId, {
+        ...parcel,
+        currentPosition: vehicle.currentPosition,
+        progress: getTourParcelProgress(vehicle, parcelId),
+        state: vehicle.state === 'INCIDENT' ? 'INCIDENT' : 'TRANSIT',
+        speedFactor: vehicle.speedFactor,
+        immobilizedUntil: vehicle.immobilizedUntil,
+      });
+    }
+
+    return events;
+  }
+
+  /**
+   * Apply the type-specific effect of an incident the parcel just entered
+   *
+   * - ROAD_CLOSURE: parcel stopped, backend reroute requested
+   * - VEHICLE_BREAKDOWN: the first vehicle reaching it is immobilised
+   * - TRAFFIC / WEATHER: only recorded, the slowdown is applied by `tick`
+   */
+  static applyIncidentEffect(
+    parcel: SimulatedParcel,
+    incident: Incident,
+    followers: Map<string, RouteFollower & { id: string }>[],
+    clock: SimulationClock
+  ): { parcel: SimulatedParcel; event: SimulationEvent | null } {
+    if (requiresReroute(incident)) {
+      return {
+        parcel: this.markParcelIncident(parcel, incident.id),
+        event: { type: 'INCIDENT_COLLISION', parcelId: parcel.id, incidentId: incident.id },
+      };
+    }
+
+    if (incident.type === 'VEHICLE_BREAKDOWN') {
+      // Already claimed: recorded so it is not matched again on every tick
+      if (this.isIncidentClaimed(incident.id, parcel.id, followers)) {
+        return {
+          parcel: { ...parcel, affectedByIncidents: [...parcel.affectedByIncidents, incident.id] },
+          event: null,
+        };
+      }
+
+      return {
+        parcel: {
+          ...this.markParcelIncident(parcel, incident.id),
+          immobilizedUntil: clockDate(clock, getRepairDurationMs(incident)),
+        },
+        event: { type: 'VEHICLE_IMMOBILIZED', parcelId: parcel.id, incidentId: incident.id },
+      };
+    }
+
+    return {
+      parcel: {
+        ...parcel,
+        affectedByIncidents: [...parcel.affectedByIncidents, incident.id],
+      },
+      event: null,
+    };
+  }
+
+  /**
+   * True when a parcel or vehicle other than `selfId` already hit the incident
+   * (a breakdown only immobilises the first one to reach it)
+   */
+  private static isIncidentClaimed(
+    incidentId: string,
+    selfId: string,
+    followers: Map<string, RouteFollower & { id: string }>[]
+  ): boolean {
+    return followers.some(map =>
+      Array.from(map.values()).some(f =>
+        f.id !== selfId && f.affectedByIncidents.includes(incidentId)
+      )
+    );
+  }
 
   /**
-   * Calculate new position for a parcel based on elapsed time
+   * Calculate new position for a parcel based on elapsed simulated time
+   * Arrival is handled by the caller (see `hasArrived`)
+   *
+   * @param deltaTimeMs - Simulated time elapsed since the last update
    */
   static updateParcelPosition(
     parcel: SimulatedParcel,
-    deltaTimeMs: number,
-    simulationSpeed: number
+    deltaTimeMs: number
   ): SimulatedParcel {
     if (parcel.state !== 'TRANSIT' || !parcel.route || parcel.routePath.length === 0) {
       return parcel;
     }
 
-    // Calculate distance traveled in this frame
-    const actualSpeed = parcel.speed * simulationSpeed;
+    // Calculate distance traveled in this tick
     const hoursElapsed = (deltaTimeMs / 1000 / 60 / 60);
-    const distanceTraveledKm = actualSpeed * hoursElapsed;
+    const distanceTraveledKm = parcel.speed * parcel.speedFactor * hoursElapsed;
 
-    // Calculate total route distance
-    const totalDistanceKm = parcel.route.totalDistanceKm;
-
-    // Update progress
-    const progressIncrement = distanceTraveledKm / totalDistanceKm;
-    const newProgress = Math.min(parcel.progress + progressIncrement, 1);
+    // Length of the drawn geometry, so the marker moves at the real speed
+    const pathLengthKm = this.getPathLength(parcel);
+    const distanceTravelledKm = Math.min(parcel.distanceTravelledKm + distanceTraveledKm, pathLengthKm);
 
     // Interpolate new position
-    const { position, segmentIndex } = interpolateAlongPath(
+    const { position, segmentIndex } = interpolateAtDistance(
       parcel.routePath,
-      newProgress
+      parcel.cumulativeDistances,
+      distanceTravelledKm
     );
 
-    // Check if delivered
-    const isDelivered = newProgress >= 0.99;
-
     return {
       ...parcel,
       currentPosition: position,
-      progress: newProgress,
+      progress: pathLengthKm > 0 ? distanceTravelledKm / pathLengthKm : 1,
+      distanceTravelledKm,
+      odometerKm: parcel.odometerKm + (distanceTravelledKm - parcel.distanceTravelledKm),
       pathIndex: segmentIndex,
-      state: isDelivered ? 'DELIVERED' : parcel.state,
-      actualArrival: isDelivered ? new Date() : parcel.actualArrival,
     };
   }
 
   /**
-   * Check if parcel collides with any active incident
+   * True once the parcel reached the end of its route (delivery address, or
+   * pickup hub on the way back)
+   */
+  static hasArrived(parcel: RouteFollower): boolean {
+    return parcel.routePath.length > 0 && parcel.distanceTravelledKm >= this.getPathLength(parcel);
+  }
+
+  /**
+   * Check if parcel collides with any incident active at `time`
    */
   static checkIncidentCollision(
-    parcel: SimulatedParcel,
-    incidents: Map<string, Incident>
+    parcel: RouteFollower,
+    incidents: Map<string, Incident>,
+    time: number
   ): Incident | null {
     for (const incident of incidents.values()) {
-      if (incident.resolved) continue;
+      if (!isIncidentActive(incident, time)) continue;
 
       // Check if parcel is within incident line buffer
-      const isAffected = isWithinLineBuffer(
-        parcel.currentPosition,
-        incident.startPosition,
-        incident.endPosition,
-        incident.width / 1000 // Convert meters to km
-      );
+      const isAffected = isInIncidentZone(parcel.currentPosition, incident);
 
       if (isAffected && !parcel.affectedByIncidents.includes(incident.id)) {
         return incident;
@@ -89,17 +510,93 @@ export class SimulationEngine {
     return null;
   }
 
+  /**
+   * Find an active closure on the next `lookAheadKm` of the parcel's route
+   */
+  static findBlockingIncidentAhead(
+    parcel: RouteFollower,
+    incidents: Map<string, Incident>,
+    time: number,
+    lookAheadKm: number
+  ): Incident | null {
+    if (lookAheadKm <= 0) return null;
+
+    let upcomingPath: Position[] | null = null;
+
+    for (const incident of incidents.values()) {
+      if (!requiresReroute(incident) || !isIncidentActive(incident, time)) continue;
+      if (parcel.affectedByIncidents.includes(incident.id)) continue;
+
+      upcomingPath ??= this.getUpcomingPath(parcel, lookAheadKm);
+      if (this.doesIncidentAffectRoute(incident, upcomingPath)) {
+        return incident;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Remaining route from the current position, cut after `distanceKm`
+   */
+  static getUpcomingPath(
+    parcel: RouteFollower,
+    distanceKm: number
+  ): Position[] {
+    const path: Position[] = [parcel.currentPosition];
+    const limitKm = parcel.distanceTravelledKm + distanceKm;
+
+    for (let i = parcel.pathIndex + 1; i < parcel.routePath.length; i++) {
+      if (parcel.cumulativeDistances[i] >= limitKm) {
+        path.push(
+          interpolateAtDistance(parcel.routePath, parcel.cumulativeDistances, limitKm).position
+        );
+        break;
+      }
+      path.push(parcel.routePath[i]);
+    }
+
+    return path;
+  }
+
+  /**
+   * Incidents behind the parcel's current detour that are no longer active
+   * (resolved, expired or removed)
+   */
+  static findClearedDetourIncidents(
+    parcel: SimulatedParcel,
+    incidents: Map<string, Incident>,
+    time: number
+  ): string[] {
+    if (!parcel.detour || parcel.state !== 'TRANSIT' || parcel.vehicleId) return [];
+
+    return parcel.detour.incidentIds.filter(incidentId => {
+      const incident = incidents.get(incidentId);
+      return !incident || !isIncidentActive(incident, time);
+    });
+  }
+
+  /**
+   * Length (km) of the parcel's route geometry
+   */
+  static getPathLength(parcel: RouteFollower): number {
+    return parcel.cumulativeDistances[parcel.cumulativeDistances.length - 1] ?? 0;
+  }
+
   /**
    * Create a new simulated parcel from route response
    */
   static createSimulatedParcel(
     parcelData: any,
     route: RouteResponse,
-    routePath: Position[]
+    routePath: Position[],
+    clock: SimulationClock,
+    deliveryPolicy: DeliveryPolicy = DEFAULT_DELIVERY_POLICY,
+    recalculationPolicy: RecalculationPolicy = DEFAULT_RECALCULATION_POLICY,
+    vehicleType: VehicleType = DEFAULT_VEHICLE_TYPE
   ): SimulatedParcel {
-    const now = new Date();
-    const estimatedArrival = new Date(
-      now.getTime() + route.estimatedDurationMin * 60 * 1000
+    const estimatedArrival = clockDate(
+      clock,
+      route.estimatedDurationMin * 60 * 1000
     );
 
     return {
@@ -108,36 +605,67 @@ export class SimulationEngine {
       parcelData,
       route,
       routePath,
+      cumulativeDistances: buildCumulativeDistances(routePath),
       currentPosition: routePath[0] || { lat: 0, lng: 0 },
       state: 'PLANNED',
       progress: 0,
+      distanceTravelledKm: 0,
+      odometerKm: 0,
       pathIndex: 0,
       startTime: null,
       estimatedArrival,
       actualArrival: null,
-      speed: this.BASE_SPEED,
+      vehicleType,
+      speed: VEHICLE_CATALOG[vehicleType].cruiseSpeedKmh,
+      speedFactor: 1,
+      immobilizedUntil: null,
+      onHold: false,
       affectedByIncidents: [],
+      vehicleId: null,
+      deliveryPolicy,
+      deliveryAttempts: 0,
+      nextAttemptAt: null,
+      returningToHub: false,
+      detour: null,
+      routeDecisions: [],
+      routeHistory: [],
+      recalculationPolicy,
+      recalculationAttempts: [],
+      pendingRecalculation: null,
+      serviceLevel: null,
+      deliveryDeadline: null,
+      slackMin: null,
+      slaBreached: false,
+      arrivalProjection: null,
     };
   }
 
   /**
    * Start a parcel's journey
    */
-  static startParcel(parcel: SimulatedParcel): SimulatedParcel {
+  static startParcel(
+    parcel: SimulatedParcel,
+    clock: SimulationClock
+  ): SimulatedParcel {
     return {
       ...parcel,
       state: 'TRANSIT',
-      startTime: new Date(),
+      startTime: clockDate(clock),
     };
   }
 
   /**
    * Update parcel with new recalculated route
+   *
+   * @param incidentId - Incident that made the detour necessary: the route it
+   *   replaces is kept so it can be proposed again once the incident is lifted
    */
   static updateParcelRoute(
     parcel: SimulatedParcel,
     newRoute: RouteResponse,
-    newRoutePath: Position[]
+    newRoutePath: Position[],
+    clock: SimulationClock,
+    incidentId?: string
   ): SimulatedParcel {
     // CRITICAL: The backend already calculated the route starting from the
     // current driver position to the destination. So we need to:
@@ -151,16 +679,40 @@ export class SimulationEngine {
       ...parcel,
       route: newRoute,
       routePath: newRoutePath,
+      cumulativeDistances: buildCumulativeDistances(newRoutePath),
       currentPosition: newRoutePath[0] || parcel.currentPosition, // Start from beginning of new route
       progress: 0, // Reset progress - new route starts here
+      distanceTravelledKm: 0,
       pathIndex: 0, // Reset path index
       state: 'TRANSIT', // Resume transit after recalculation
-      estimatedArrival: new Date(
-        Date.now() + newRoute.estimatedDurationMin * 60 * 1000
+      detour: this.nextDetour(parcel, incidentId),
+      routeHistory: leaveRoute(parcel, clock),
+      arrivalProjection: null,
+      estimatedArrival: clockDate(
+        clock,
+        newRoute.estimatedDurationMin * 60 * 1000
       ),
     };
   }
 
+  /**
+   * Detour after a reroute: a new incident joins the current detour (whose
+   * base route stays the one before the first incident), any other reroute
+   * ends it
+   */
+  private static nextDetour(
+    parcel: SimulatedParcel,
+    incidentId?: string
+  ): SimulatedParcel['detour'] {
+    if (!incidentId || !parcel.route) return null;
+
+    if (parcel.detour) {
+      return { ...parcel.detour, incidentIds: [...parcel.detour.incidentIds, incidentId] };
+    }
+
+    return { incidentIds: [incidentId], baseRoute: parcel.route, basePath: parcel.routePath };
+  }
+
   /**
    * Mark parcel as affected by incident
    */
@@ -176,42 +728,49 @@ export class SimulationEngine {
   }
 
   /**
-   * Calculate ETA for a parcel
+   * Calculate ETA for a parcel, in simulated time
+   * The rest of the route is driven at the congestion expected when each part is reached
    */
-  static calculateETA(parcel: SimulatedParcel): Date | null {
+  static calculateETA(
+    parcel: SimulatedParcel,
+    clock: SimulationClock,
+    incidents: Map<string, Incident> = new Map(),
+    trafficProfile: TrafficProfile = DEFAULT_TRAFFIC_PROFILE
+  ): Date | null {
     if (!parcel.route || parcel.state !== 'TRANSIT') {
       return parcel.estimatedArrival;
     }
 
-    const remainingProgress = 1 - parcel.progress;
-    const remainingDistanceKm = parcel.route.totalDistanceKm * remainingProgress;
-    const hoursRemaining = remainingDistanceKm / parcel.speed;
-    const msRemaining = hoursRemaining * 60 * 60 * 1000;
-
-    return new Date(Date.now() + msRemaining);
+    return clockDate(clock, estimateTravelMs(parcel, clock.currentTime, incidents, trafficProfile));
   }
 
   /**
    * Check if incident affects a specific route path
+   * Whole segments are tested, not only the vertices
    */
   static doesIncidentAffectRoute(
     incident: Incident,
     routePath: Position[]
   ): boolean {
-    return routePath.some(position =>
-      isWithinLineBuffer(
-        position,
-        incident.startPosition,
-        incident.endPosition,
-        incident.width / 1000
-      )
-    );
+    if (routePath.length === 1) {
+      return isInIncidentZone(routePath[0], incident);
+    }
+
+    for (let i = 0; i < routePath.length - 1; i++) {
+      if (doesSegmentCrossIncidentZone(routePath[i], routePath[i + 1], incident)) {
+        return true;
+      }
+    }
+    return false;
   }
 
   /**
    * Get simulation statistics
    */
-  static getSimulationStats(parcels: Map<string, SimulatedParcel>) {
+  static getSimulationStats(
+    parcels: Map<string, SimulatedParcel>,
+    vehicles: Map<string, SimulatedVehicle> = new Map()
+  ) {
     const parcelsArray = Array.from(parcels.values());
 
     return {
@@ -223,8 +782,10 @@ export class SimulationEngine {
         sum + (p.route?.totalDistanceKm || 0), 0
       ),
       averageSpeed: parcelsArray.length > 0
-        ? parcelsArray.reduce((sum, p) => sum + p.speed, 0) / parcelsArray.length
+        ? parcelsArray.reduce((sum, p) => sum + p.speed * p.speedFactor, 0) / parcelsArray.length
         : 0,
+      operatingCost: operatingCost(parcelsArray, vehicles.values()),
+      slaComplianceRate: slaComplianceRate(parcelsArray),
     };
   }
 }
\ No newline at end of file
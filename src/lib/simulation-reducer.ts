@@ -0,0 +1,269 @@
+/**
+ * Simulation Reducer
+ * State transitions of the simulated world, shared by the worker, the replay
+ * and the headless runner
+ */
+
+import { SimulationState, SimulationAction } from './type';
+import { SimulationEngine } from './simulation-engine';
+import { clampSpeedMultiplier, createSimulationClock } from './simulation-clock';
+import { rerouteVehicleLeg } from './vehicle-tours';
+import { DEFAULT_DELIVERY_POLICY } from './delivery-attempts';
+import { restoreRoute } from './route-restoration';
+import {
+  DEFAULT_RECALCULATION_POLICY,
+  recordRecalculation,
+  recordVehicleRecalculation,
+} from './recalculation-policy';
+import { DEFAULT_SERVICE_LEVELS } from './service-levels';
+import { DEFAULT_TRAFFIC_PROFILE } from './traffic-profiles';
+
+// Actions qui modifient le monde simulé : elles sont enregistrées dans le journal
+const JOURNALED_ACTIONS: ReadonlySet<SimulationAction['type']> = new Set<SimulationAction['type']>([
+  'ADD_PARCEL',
+  'UPDATE_PARCEL',
+  'REROUTE_PARCEL',
+  'RESTORE_ROUTE',
+  'RECORD_RECALCULATION',
+  'REMOVE_PARCEL',
+  'ADD_VEHICLE',
+  'REROUTE_VEHICLE',
+  'RECORD_VEHICLE_RECALCULATION',
+  'ADD_INCIDENT',
+  'RESOLVE_INCIDENT',
+  'SET_SPEED',
+  'SET_TRAFFIC_PROFILE',
+]);
+
+export function isJournaledAction(action: SimulationAction): boolean {
+  return JOURNALED_ACTIONS.has(action.type);
+}
+
+/**
+ * Create an empty simulation state with a fresh clock
+ */
+export function createInitialSimulationState(): SimulationState {
+  const clock = createSimulationClock();
+
+  return {
+    parcels: new Map(),
+    vehicles: new Map(),
+    incidents: new Map(),
+    hubs: [],
+    isPlaying: false,
+    clock,
+    journal: [],
+    journalOrigin: clock,
+    replayCursor: 0,
+    horizonTime: clock.currentTime,
+    kpiSeries: [],
+    incidentPlacementMode: false,
+    selectedIncidentType: null,
+    selectedIncidentShape: 'LINE',
+    incidentSchedule: { startTime: '', endTime: '' },
+    deliveryPolicy: DEFAULT_DELIVERY_POLICY,
+    recalculationPolicy: DEFAULT_RECALCULATION_POLICY,
+    serviceLevels: DEFAULT_SERVICE_LEVELS,
+    trafficProfile: DEFAULT_TRAFFIC_PROFILE,
+    selectedParcelId: null,
+  };
+}
+
+/**
+ * Apply an action to the state without touching the journal
+ * Used directly when replaying journal entries
+ */
+export function applySimulationAction(
+  state: SimulationState,
+  action: SimulationAction
+): SimulationState {
+  switch (action.type) {
+    case 'SET_HUBS':
+      return { ...state, hubs: action.payload };
+
+    case 'ADD_PARCEL': {
+      const newParcels = new Map(state.parcels);
+      newParcels.set(action.payload.id, action.payload);
+      return { ...state, parcels: newParcels };
+    }
+
+    case 'UPDATE_PARCEL': {
+      const newParcels = new Map(state.parcels);
+      const existing = newParcels.get(action.payload.id);
+      if (existing) {
+        newParcels.set(action.payload.id, { ...existing, ...action.payload.updates });
+      }
+      return { ...state, parcels: newParcels };
+    }
+
+    case 'REROUTE_PARCEL': {
+      const newParcels = new Map(state.parcels);
+      const existing = newParcels.get(action.payload.id);
+      if (existing) {
+        newParcels.set(
+          action.payload.id,
+          SimulationEngine.updateParcelRoute(
+            existing,
+            action.payload.route,
+            action.payload.routePath,
+            state.clock,
+            action.payload.incidentId
+          )
+        );
+      }
+      return { ...state, parcels: newParcels };
+    }
+
+    case 'RESTORE_ROUTE': {
+      const existing = state.parcels.get(action.payload.id);
+      // The parcel may have arrived or been rerouted while the route was built
+      if (!existing?.detour || existing.state !== 'TRANSIT') return state;
+
+      const newParcels = new Map(state.parcels);
+      newParcels.set(
+        action.payload.id,
+        restoreRoute(existing, action.payload, state.incidents, state.clock)
+      );
+      return { ...state, parcels: newParcels };
+    }
+
+    case 'RECORD_RECALCULATION': {
+      const existing = state.parcels.get(action.payload.id);
+      if (!existing) return state;
+
+      const { id, ...attempt } = action.payload;
+      const newParcels = new Map(state.parcels);
+      newParcels.set(id, recordRecalculation(existing, attempt, state.clock));
+      return { ...state, parcels: newParcels };
+    }
+
+    case 'REMOVE_PARCEL': {
+      const newParcels = new Map(state.parcels);
+      newParcels.delete(action.payload);
+      return { ...state, parcels: newParcels };
+    }
+
+    case 'ADD_VEHICLE': {
+      const newVehicles = new Map(state.vehicles);
+      newVehicles.set(action.payload.id, action.payload);
+      return { ...state, vehicles: newVehicles };
+    }
+
+    case 'REROUTE_VEHICLE': {
+      const newVehicles = new Map(state.vehicles);
+      const existing = newVehicles.get(action.payload.id);
+      if (existing) {
+        newVehicles.set(action.payload.id, rerouteVehicleLeg(existing, action.payload.legPath));
+      }
+      return { ...state, vehicles: newVehicles };
+    }
+
+    case 'RECORD_VEHICLE_RECALCULATION': {
+      const existing = state.vehicles.get(action.payload.id);
+      if (!existing) return state;
+
+      const { id, ...attempt } = action.payload;
+      const newVehicles = new Map(state.vehicles);
+      newVehicles.set(id, recordVehicleRecalculation(existing, attempt, state.clock));
+      return { ...state, vehicles: newVehicles };
+    }
+
+    case 'ADD_INCIDENT': {
+      const newIncidents = new Map(state.incidents);
+      newIncidents.set(action.payload.id, action.payload);
+      return { ...state, incidents: newIncidents };
+    }
+
+    case 'RESOLVE_INCIDENT': {
+      const newIncidents = new Map(state.incidents);
+      const incident = newIncidents.get(action.payload);
+      if (incident) {
+        newIncidents.set(action.payload, { ...incident, resolved: true });
+      }
+      return { ...state, incidents: newIncidents };
+    }
+
+    case 'PLAY':
+      return { ...state, isPlaying: true };
+
+    case 'PAUSE':
+      return { ...state, isPlaying: false };
+
+    case 'SET_SPEED':
+      return { ...state, clock: { ...state.clock, speedMultiplier: clampSpeedMultiplier(action.payload) } };
+
+    case 'TOGGLE_INCIDENT_MODE':
+      return {
+        ...state,
+        incidentPlacementMode: action.payload.active,
+        selectedIncidentType: action.payload.type,
+      };
+
+    case 'SET_INCIDENT_SHAPE':
+      return { ...state, selectedIncidentShape: action.payload };
+
+    case 'SET_INCIDENT_SCHEDULE':
+      return { ...state, incidentSchedule: action.payload };
+
+    case 'SET_DELIVERY_POLICY':
+      return { ...state, deliveryPolicy: action.payload };
+
+    case 'SET_RECALCULATION_POLICY':
+      return { ...state, recalculationPolicy: action.payload };
+
+    case 'SET_SERVICE_LEVELS':
+      return { ...state, serviceLevels: action.payload };
+
+    case 'SET_TRAFFIC_PROFILE':
+      return { ...state, trafficProfile: action.payload };
+
+    case 'SELECT_PARCEL':
+      return { ...state, selectedParcelId: action.payload };
+
+    case 'TICK':
+      return {
+        ...state,
+        ...action.payload,
+        horizonTime: Math.max(state.horizonTime, action.payload.clock.currentTime),
+      };
+
+    case 'LOAD_SNAPSHOT':
+      // Rewound: samples after the snapshot are dropped and sampled again
+      return {
+        ...state,
+        ...action.payload,
+        isPlaying: false,
+        kpiSeries: state.kpiSeries.filter(s => s.time <= action.payload.clock.currentTime),
+      };
+
+    default:
+      return state;
+  }
+}
+
+/**
+ * Main reducer: applies the action and records world changes in the journal
+ *
+ * A journaled action dispatched while rewound drops the entries after the
+ * replay cursor, so the scenario branches from the current moment.
+ */
+export function simulationReducer(
+  state: SimulationState,
+  action: SimulationAction
+): SimulationState {
+  const next = applySimulationAction(state, action);
+  if (!isJournaledAction(action)) return next;
+
+  const isBranching = state.replayCursor < state.journal.length;
+  const journal = [
+    ...state.journal.slice(0, state.replayCursor),
+    { simTime: state.clock.currentTime, action },
+  ];
+
+  return {
+    ...next,
+    journal,
+    replayCursor: journal.length,
+    horizonTime: isBranching ? state.clock.currentTime : next.horizonTime,
+  };
+}
@@ -0,0 +1,102 @@
+/**
+ * Simulation View
+ * Render projection held by the React hook: the worker owns the simulated
+ * world and its journal, and posts what changed as entity deltas
+ */
+
+import { JournalEntry, JournalMarker, SimulationAction, SimulationView } from './type';
+import { applyDeltas } from './entity-deltas';
+import { createInitialSimulationState } from './simulation-reducer';
+
+export function toJournalMarker({ simTime, action }: JournalEntry): JournalMarker {
+  return { simTime, type: action.type };
+}
+
+/**
+ * Empty view, matching the worker's initial state
+ */
+export function createInitialSimulationView(): SimulationView {
+  const { journal, ...state } = createInitialSimulationState();
+  return { ...state, journalMarkers: journal.map(toJournalMarker), nextEvent: null };
+}
+
+/**
+ * Apply an action to the view
+ *
+ * Changes to the world (parcels, vehicles, incidents, clock) are only made
+ * by the worker and come back with its next frame; controls and settings
+ * apply at once.
+ */
+export function simulationViewReducer(
+  view: SimulationView,
+  action: SimulationAction
+): SimulationView {
+  switch (action.type) {
+    case 'SET_HUBS':
+      return { ...view, hubs: action.payload };
+
+    case 'PLAY':
+      return { ...view, isPlaying: true, nextEvent: null };
+
+    case 'PAUSE':
+      return { ...view, isPlaying: false };
+
+    case 'TOGGLE_INCIDENT_MODE':
+      return {
+        ...view,
+        incidentPlacementMode: action.payload.active,
+        selectedIncidentType: action.payload.type,
+      };
+
+    case 'SET_INCIDENT_SHAPE':
+      return { ...view, selectedIncidentShape: action.payload };
+
+    case 'SET_INCIDENT_SCHEDULE':
+      return { ...view, incidentSchedule: action.payload };
+
+    case 'SET_DELIVERY_POLICY':
+      return { ...view, deliveryPolicy: action.payload };
+
+    case 'SET_RECALCULATION_POLICY':
+      return { ...view, recalculationPolicy: action.payload };
+
+    case 'SET_SERVICE_LEVELS':
+      return { ...view, serviceLevels: action.payload };
+
+    case 'SET_TRAFFIC_PROFILE':
+      return { ...view, trafficProfile: action.payload };
+
+    case 'SELECT_PARCEL':
+      return { ...view, selectedParcelId: action.payload };
+
+    case 'LOAD_SNAPSHOT':
+      // Rewound: samples after the snapshot are dropped and sampled again
+      return {
+        ...view,
+        ...action.payload,
+        isPlaying: false,
+        kpiSeries: view.kpiSeries.filter(s => s.time <= action.payload.clock.currentTime),
+      };
+
+    case 'APPLY_FRAME': {
+      const frame = action.payload;
+      return {
+        ...view,
+        parcels: applyDeltas(view.parcels, frame.deltas, frame.removedParcelIds),
+        vehicles: applyDeltas(view.vehicles, frame.vehicleDeltas, frame.removedVehicleIds),
+        incidents: frame.incidents ?? view.incidents,
+        clock: frame.clock,
+        replayCursor: frame.replayCursor,
+        horizonTime: frame.horizonTime,
+        journalMarkers: frame.journalMarkers ?? view.journalMarkers,
+        nextEvent: frame.nextEvent,
+        kpiSeries: frame.kpiSamples.length > 0
+          ? [...view.kpiSeries, ...frame.kpiSamples]
+          : view.kpiSeries,
+      };
+    }
+
+    default:
+      return view;
+  }
+}
@@ -0,0 +1,156 @@
+/**
+ * Traffic Profiles
+ * Time-of-day congestion curves, city-wide or per zone, that scale vehicle
+ * speed with the simulated clock
+ */
+
+import { HourlyCurve, Incident, Position, RouteResponse, SimulatedParcel, TrafficProfile } from './type';
+import { haversineDistance, interpolateAtDistance } from './wkt-parser';
+import { speedFactorAt } from './incident-effects';
+import { DOUALA_UTC_OFFSET_MIN, simulatedDayTime } from './simulation-clock';
+
+// Pas d'intégration des estimations d'arrivée
+const ETA_STEP_MS = 60 * 1000;
+// Au-delà, l'arrivée est jugée inatteignable (colis à l'arrêt)
+const ETA_HORIZON_MS = 7 * 24 * 60 * 60 * 1000;
+const HOUR_MS = 60 * 60 * 1000;
+
+export const FREE_FLOW_CURVE: HourlyCurve = Array(24).fill(1);
+
+/**
+ * Douala: morning (7-9 h) and evening (17-19 h) rush, a lighter midday peak
+ */
+export const DOUALA_TRAFFIC_PROFILE: TrafficProfile = {
+  enabled: true,
+  global: [
+    1, 1, 1, 1, 1, 0.95, 0.85, 0.6, 0.55, 0.7, 0.85, 0.85,
+    0.8, 0.8, 0.85, 0.85, 0.7, 0.55, 0.5, 0.65, 0.85, 0.95, 1, 1,
+  ],
+  zones: [
+    {
+      id: 'pont-wouri',
+      name: 'Pont du Wouri',
+      center: { lat: 4.0655, lng: 9.6785 },
+      radiusM: 1200,
+      // Goulet d'étranglement entre Bonabéri et le centre, en plus de la courbe globale
+      curve: [
+        1, 1, 1, 1, 1, 0.95, 0.8, 0.6, 0.55, 0.75, 0.9, 0.9,
+        0.9, 0.9, 0.9, 0.9, 0.75, 0.55, 0.5, 0.7, 0.9, 1, 1, 1,
+      ],
+    },
+  ],
+};
+
+export const DEFAULT_TRAFFIC_PROFILE = DOUALA_TRAFFIC_PROFILE;
+
+/**
+ * Hour of the day in Douala at `time` (fractional, 0 ≤ h < 24)
+ */
+export function localHour(time: number, utcOffsetMin: number = DOUALA_UTC_OFFSET_MIN): number {
+  return simulatedDayTime(time, utcOffsetMin) / (60 * 60 * 1000);
+}
+
+/**
+ * Curve value at `time`, linearly interpolated between hours so speeds do
+ * not jump on the hour
+ */
+export function curveFactorAt(curve: HourlyCurve, time: number): number {
+  if (curve.length === 0) return 1;
+
+  const hour = localHour(time);
+  const index = Math.floor(hour);
+  const from = curve[index % curve.length] ?? 1;
+  const to = curve[(index + 1) % curve.length] ?? 1;
+
+  return from + (to - from) * (hour - index);
+}
+
+/**
+ * Time-of-day slowdown at a position: the global curve times the curves of
+ * every zone covering it
+ */
+export function trafficFactorAt(
+  position: Position,
+  time: number,
+  profile: TrafficProfile
+): number {
+  if (!profile.enabled) return 1;
+
+  let factor = curveFactorAt(profile.global, time);
+  for (const zone of profile.zones) {
+    if (haversineDistance(position, zone.center) * 1000 <= zone.radiusM) {
+      factor *= curveFactorAt(zone.curve, time);
+    }
+  }
+
+  return factor;
+}
+
+/**
+ * Speed multiplier of the backend's `trafficFactor`, read as a travel time
+ * multiplier (1.5: the route takes 50 % longer)
+ */
+export function routeTrafficFactor(route: RouteResponse | null): number {
+  const trafficFactor = route?.trafficFactor;
+  return trafficFactor && trafficFactor > 0 ? 1 / trafficFactor : 1;
+}
+
+/**
+ * Next time after `time` at which a stopped parcel may move again: an
+ * incident starts or ends, or the traffic curves reach their next hour
+ */
+function nextSpeedChange(time: number, incidents: Map<string, Incident>): number {
+  let next = time - (time % HOUR_MS) + HOUR_MS;
+  for (const incident of incidents.values()) {
+    for (const change of [incident.startsAt.getTime(), incident.endsAt?.getTime()]) {
+      if (change !== undefined && change > time && change < next) next = change;
+    }
+  }
+  return next;
+}
+
+/**
+ * Time (ms) the parcel needs to drive the rest of its route from `startTime`
+ *
+ * The route is walked minute by minute, each step at the speed the engine
+ * would apply there and then: time-of-day curves, active traffic and weather
+ * zones, and the backend's traffic factor. Stretches where the parcel cannot
+ * move (closure) are skipped up to the next incident or hour change.
+ */
+export function estimateTravelMs(
+  parcel: SimulatedParcel,
+  startTime: number,
+  incidents: Map<string, Incident>,
+  profile: TrafficProfile
+): number {
+  const pathLengthKm = parcel.cumulativeDistances[parcel.cumulativeDistances.length - 1] ?? 0;
+  const routeFactor = routeTrafficFactor(parcel.route);
+  let distanceKm = parcel.distanceTravelledKm;
+  let elapsedMs = 0;
+
+  while (distanceKm < pathLengthKm && elapsedMs < ETA_HORIZON_MS) {
+    const time = startTime + elapsedMs;
+    const { position } = interpolateAtDistance(parcel.routePath, parcel.cumulativeDistances, distanceKm);
+    const speed = parcel.speed
+      * routeFactor
+      * trafficFactorAt(position, time, profile)
+      * speedFactorAt(position, incidents, time);
+    const stepKm = speed * (ETA_STEP_MS / (60 * 60 * 1000));
+
+    if (stepKm <= 0) {
+      elapsedMs = nextSpeedChange(time, incidents) - startTime;
+      continue;
+    }
+
+    // Last step: only the fraction needed to reach the end
+    const remainingKm = pathLengthKm - distanceKm;
+    if (stepKm >= remainingKm) {
+      return elapsedMs + (remainingKm / stepKm) * ETA_STEP_MS;
+    }
+
+    distanceKm += stepKm;
+    elapsedMs += ETA_STEP_MS;
+  }
+
+  return elapsedMs;
+}
@@ -26,14 +26,19 @@ export interface ParcelResponse {
   petriNetId?: string;
 }
 
+// Forme brute de la géométrie d'itinéraire renvoyée par le backend
+export type RouteGeometryFormat = 'WKT' | 'POLYLINE5' | 'POLYLINE6' | 'GEOJSON' | 'POINTS';
+
 export interface RouteResponse {
   id: string;
-  routeGeometry: string; // WKT LINESTRING
+  routeGeometry: string; // Géométrie (WKT LINESTRING par défaut, polyline encodée une fois adaptée)
+  routeGeometryFormat?: RouteGeometryFormat; // Défaut: WKT
   totalDistanceKm: number;
   estimatedDurationMin: number;
   routingService?: string; // Algorithm used (BASIC, OSRM, DIJKSTRA, A_STAR)
   trafficFactor?: number;
   isActive?: boolean;
+  approximate?: boolean; // Tracé hors ligne par le simulateur, pas par le service de routage
 }
 
 export interface DriverResponse {
@@ -52,7 +57,8 @@ export type ParcelState =
   | 'TRANSIT'      // En cours de livraison
   | 'INCIDENT'     // Incident détecté, recalcul en cours
   | 'DELIVERED'    // Livré avec succès
-  | 'FAILED';      // Échec de livraison
+  | 'FAILED'       // Échec de livraison
+  | 'CANCELLED';   // Annulé par l'opérateur
 
 export type IncidentType =
   | 'ROAD_CLOSURE'      // Route barrée
@@ -74,11 +80,14 @@ export interface SimulatedParcel {
   // Route et navigation
   route: RouteResponse | null;
   routePath: Position[]; // Points du trajet (parsed from WKT)
+  cumulativeDistances: number[]; // Distance (km) depuis le départ à chaque point de routePath
   currentPosition: Position;
 
   // État et progression
   state: ParcelState;
   progress: number; // 0-100%
+  distanceTravelledKm: number; // Distance parcourue sur routePath
+  odometerKm: number; // Distance totale parcourue seul (déviations et retour compris)
   pathIndex: number; // Index dans routePath
 
   // Timing
@@ -86,42 +95,456 @@ export interface SimulatedParcel {
   estimatedArrival: Date | null;
   actualArrival: Date | null;
 
-  // Vitesse (km/h)
+  // Véhicule et vitesse de croisière (km/h)
+  vehicleType: VehicleType;
   speed: number;
+  speedFactor: number; // Ralentissement courant (trafic, météo) - 1 = vitesse normale
+
+  // Panne : véhicule immobilisé jusqu'à cette date (temps simulé)
+  immobilizedUntil: Date | null;
+  onHold: boolean; // Arrêté sur place par l'opérateur jusqu'à reprise
 
   // Incidents affectant ce colis
   affectedByIncidents: string[];
+
+  // Tournée : véhicule qui transporte le colis (null = trajet individuel)
+  vehicleId: string | null;
+
+  // Tentatives de livraison (destinataire absent, retour au hub)
+  deliveryPolicy: DeliveryPolicy;
+  deliveryAttempts: number;     // Tentatives déjà effectuées
+  nextAttemptAt: Date | null;   // Nouvelle tentative prévue (temps simulé)
+  returningToHub: boolean;      // Tentatives épuisées : retour vers le hub d'enlèvement
+
+  // Déviation en cours et décisions de retour à l'itinéraire d'origine
+  detour: RouteDetour | null;
+  routeDecisions: RouteDecision[];
+  routeHistory: RouteLeg[]; // Itinéraires déjà quittés, du plus ancien au plus récent
+
+  // Échecs du recalcul d'itinéraire après un incident bloquant
+  recalculationPolicy: RecalculationPolicy;
+  recalculationAttempts: RecalculationAttempt[];
+  pendingRecalculation: PendingRecalculation | null;
+
+  // Engagement de service (SLA)
+  serviceLevel: ServiceLevel | null; // null : sans engagement
+  deliveryDeadline: Date | null;     // Livraison promise avant cette date (temps simulé)
+  slackMin: number | null;           // Marge : échéance - arrivée prévue (négative : en retard)
+  slaBreached: boolean;              // Échéance intenable ou dépassée
+  arrivalProjection: ArrivalProjection | null; // Dernière arrivée calculée le long du trajet
+}
+
+// Arrivée projetée d'un colis seul, gardée entre deux recalculs
+export interface ArrivalProjection {
+  arrival: number;                 // Temps simulé (ms epoch)
+  computedAt: number;
+  immobilizedUntil: number | null; // Immobilisation prise en compte
+  incidentsKey: string;            // Incidents connus au moment du calcul
+}
+
+// Niveaux de service proposés à la création d'un colis
+export type ServiceLevel = 'EXPRESS' | 'STANDARD' | 'ECONOMY';
+
+// Délai promis par niveau de service (minutes après la création du colis)
+export type ServiceLevelDurations = Record<ServiceLevel, number>;
+
+// Itinéraire remplacé à cause d'incidents bloquants
+export interface RouteDetour {
+  incidentIds: string[];     // Incidents encore actifs à l'origine de la déviation
+  baseRoute: RouteResponse;  // Itinéraire avant la première déviation
+  basePath: Position[];
+}
+
+// Itinéraire quitté (déviation, retour au hub, retour à l'itinéraire d'origine)
+export interface RouteLeg {
+  route: RouteResponse | null;
+  routePath: Position[];
+  pathIndex: number;           // Dernier point de routePath dépassé
+  distanceTravelledKm: number; // Distance parcourue sur cet itinéraire
+  leftAt: Position;            // Position au changement d'itinéraire
+  endedAt: Date;
+}
+
+// Réévaluation de la déviation après la levée d'un incident
+export interface RouteDecision {
+  incidentId: string;
+  decidedAt: Date;
+  detourRemainingKm: number;  // Reste à parcourir sur la déviation
+  candidateKm: number;        // Longueur du nouvel itinéraire proposé
+  reverted: boolean;          // true : retour sur l'itinéraire d'origine
+  reason: 'SHORTER' | 'NOT_SHORTER' | 'BLOCKED';
+}
+
+// Modélisation des échecs de livraison
+export interface DeliveryPolicy {
+  absenceProbability: number; // Probabilité que le destinataire soit absent (0-1)
+  maxAttempts: number;        // Tentatives avant le retour au hub d'enlèvement
+  retryDelayMin: number;      // Attente avant une nouvelle tentative
+  seed: number;               // Graine du tirage (relecture déterministe)
+}
+
+// Réaction à un recalcul d'itinéraire impossible (backend en erreur)
+export type RecalculationStrategy =
+  | 'RETRY_BACKOFF'        // Nouvel essai après un délai croissant
+  | 'SWITCH_ALGORITHM'     // Nouvel essai avec l'algorithme suivant
+  | 'WAIT_FOR_RESOLUTION'  // Arrêt sur place jusqu'à la levée de l'incident
+  | 'MARK_FAILED';         // Colis en échec immédiatement
+
+export interface RecalculationPolicy {
+  strategy: RecalculationStrategy;
+  maxRetries: number;      // Nouveaux essais avant l'échec (RETRY_BACKOFF, SWITCH_ALGORITHM)
+  initialDelaySec: number; // Attente avant le premier nouvel essai (temps simulé)
+  backoffFactor: number;   // Multiplicateur de l'attente à chaque échec
+  algorithms: string[];    // Algorithmes essayés tour à tour (SWITCH_ALGORITHM)
+}
+
+export interface RecalculationAttempt {
+  incidentId: string;
+  attemptedAt: Date;
+  algorithm: string | null; // null : algorithme de l'itinéraire courant
+  error: string | null;     // null : recalcul réussi
+}
+
+// Recalcul en attente : nouvel essai programmé ou levée de l'incident
+export interface PendingRecalculation {
+  incidentId: string;
+  retryAt: Date | null; // null : attente de la levée de l'incident
 }
 
+// Partie commune aux colis et véhicules qui suivent un itinéraire
+export type RouteFollower = Pick<
+  SimulatedParcel,
+  'routePath' | 'cumulativeDistances' | 'currentPosition' | 'distanceTravelledKm' | 'pathIndex' | 'affectedByIncidents'
+>;
+
+export type VehicleState =
+  | 'LOADING'    // Au dépôt, la tournée se compose
+  | 'EN_ROUTE'   // Tournée en cours
+  | 'INCIDENT'   // Bloqué (route barrée, panne)
+  | 'COMPLETED'; // Tous les arrêts visités
+
+export type TourStopType = 'PICKUP' | 'DELIVERY';
+
+export interface TourStop {
+  parcelId: string;
+  type: TourStopType;
+  hubId: string;
+  position: Position;
+  routeId: string | null;  // Itinéraire backend menant à cet arrêt (recalcul)
+  pathIndex: number;       // Index du point de l'arrêt dans routePath
+  distanceKm: number;      // Distance depuis le départ de la tournée
+  visitedAt: Date | null;
+}
+
+// Catalogue des véhicules
+export type VehicleType = 'MOTO_TAXI' | 'VAN' | 'TRUCK';
+
+export interface VehicleProfile {
+  type: VehicleType;
+  label: string;
+  cruiseSpeedKmh: number; // Vitesse de croisière en ville
+  capacityKg: number;     // Charge utile
+  costPerKm: number;      // Coût d'exploitation (FCFA / km)
+}
+
+// Affectation d'un colis à la tournée d'un livreur
+export interface TourAssignment {
+  driverId: string;
+  driverName: string;
+  vehicleType: VehicleType; // Véhicule du livreur
+  pickupHubId: string;
+  deliveryHubId: string;
+}
+
+export interface SimulatedVehicle {
+  id: string;
+  driverId: string;
+  driverName: string;
+  vehicleType: VehicleType;
+
+  // Tournée : arrêts ordonnés et trajet complet qui les relie
+  stops: TourStop[];
+  nextStopIndex: number;
+  load: string[]; // Colis à bord
+  routePath: Position[];
+  cumulativeDistances: number[];
+
+  // Progression
+  state: VehicleState;
+  currentPosition: Position;
+  distanceTravelledKm: number;
+  pathIndex: number;
+  startTime: Date | null;
+
+  // Vitesse (km/h) et perturbations
+  speed: number;
+  speedFactor: number;
+  immobilizedUntil: Date | null;
+  affectedByIncidents: string[];
+
+  // Recalcul de l'étape en cours quand une route barrée bloque la tournée
+  recalculationPolicy: RecalculationPolicy;
+  recalculationAttempts: RecalculationAttempt[];
+  pendingRecalculation: PendingRecalculation | null;
+}
+
+// Zone d'effet d'un incident
+export type IncidentZone =
+  | { shape: 'LINE'; start: Position; end: Position; widthM: number } // Route entre deux points, largeur de chaque côté
+  | { shape: 'POLYGON'; ring: Position[] }                          // Secteur (quartier inondé), anneau fermé
+  | { shape: 'CIRCLE'; center: Position; radiusM: number };         // Rassemblement (jour de marché)
+
+export type IncidentShape = IncidentZone['shape'];
+
 export interface Incident {
   id: string;
   type: IncidentType;
-  // Ligne d'incident (route bloquée entre deux points)
-  startPosition: Position;
-  endPosition: Position;
-  width: number; // Largeur de la zone d'impact en mètres (de chaque côté de la ligne)
+  zone: IncidentZone;
   affectedRouteIds: string[];
-  timestamp: Date;
+  timestamp: Date;        // Création
+  startsAt: Date;         // Activation prévue (temps simulé)
+  endsAt: Date | null;    // Résolution automatique (null = résolution manuelle)
   resolved: boolean;
   description: string;
+
+  // Paramètres d'effet (valeurs par défaut dans incident-effects.ts)
+  speedFactor?: number;       // TRAFFIC / WEATHER : facteur de vitesse dans la zone
+  repairDurationMin?: number; // VEHICLE_BREAKDOWN : durée de réparation
 }
 
+// Congestion selon l'heure : facteur de vitesse pour chaque heure locale 0-23 (1 = fluide)
+export type HourlyCurve = number[];
+
+// Secteur à congestion propre (ex. pont du Wouri), en plus de la courbe globale
+export interface TrafficZone {
+  id: string;
+  name: string;
+  center: Position;
+  radiusM: number;
+  curve: HourlyCurve;
+}
+
+export interface TrafficProfile {
+  enabled: boolean;
+  global: HourlyCurve;
+  zones: TrafficZone[];
+}
+
+export type IncidentStatus =
+  | 'PENDING'  // Programmé, pas encore actif
+  | 'ACTIVE'   // En cours
+  | 'EXPIRED'; // Terminé (résolu ou échu)
+
+// Programmation d'un incident à placer (heures "HH:MM" du jour simulé, '' = immédiat / manuel)
+export interface IncidentSchedule {
+  startTime: string;
+  endTime: string;
+}
+
+export interface SimulationClock {
+  currentTime: number;     // Temps simulé courant (ms epoch)
+  tickMs: number;          // Durée simulée d'un tick (ms)
+  speedMultiplier: number; // Temps simulé / temps réel (1x, 2x, 5x... ou libre)
+}
+
+export type ScheduledEventKind =
+  | 'ARRIVAL'          // Arrivée prévue d'un colis ou d'un véhicule à son prochain arrêt
+  | 'DEPARTURE'        // Reprise programmée : fin de réparation, nouvelle tentative, nouvel essai de recalcul
+  | 'INCIDENT_START'   // Activation d'un incident programmé
+  | 'INCIDENT_END'     // Résolution automatique d'un incident
+  | 'SLA_DEADLINE'     // Échéance de livraison d'un colis
+  | 'JOURNAL';         // Action enregistrée à rejouer
+
+// Prochain instant où l'état de la simulation change sans intervention
+export interface ScheduledEvent {
+  kind: ScheduledEventKind;
+  time: number;   // Temps simulé (ms epoch), estimé pour les arrivées
+  label: string;
+}
+
+// Événements produits par un tick du moteur, traités par l'appelant
+export type SimulationEvent =
+  | { type: 'INCIDENT_COLLISION'; parcelId: string; incidentId: string } // Route barrée : recalcul requis
+  | { type: 'INCIDENT_AHEAD'; parcelId: string; incidentId: string }     // Route barrée plus loin : recalcul anticipé
+  | { type: 'VEHICLE_IMMOBILIZED'; parcelId: string; incidentId: string }
+  | { type: 'VEHICLE_REPAIRED'; parcelId: string }
+  | { type: 'PARCEL_DELIVERED'; parcelId: string }
+  | { type: 'DELIVERY_FAILED'; parcelId: string; attempt: number }   // Destinataire absent, nouvelle tentative prévue
+  | { type: 'DELIVERY_ABANDONED'; parcelId: string }                 // Tentatives épuisées : itinéraire retour requis
+  | { type: 'PARCEL_RETURNED'; parcelId: string }                    // Revenu au hub d'enlèvement
+  | { type: 'INCIDENT_CLEARED'; parcelId: string; incidentId: string } // Incident d'une déviation levé : itinéraire à réévaluer
+  | { type: 'RECALCULATION_RETRY'; parcelId: string; incidentId: string } // Nouvel essai de recalcul dû
+  | { type: 'INCIDENT_LIFTED'; parcelId: string; incidentId: string }    // Colis en attente : reprend son itinéraire
+  | { type: 'SLA_BREACHED'; parcelId: string; slackMin: number | null }   // Échéance de livraison intenable
+  | { type: 'PARCEL_PICKED_UP'; parcelId: string; vehicleId: string }
+  | { type: 'VEHICLE_BLOCKED'; vehicleId: string; incidentId: string }     // Route barrée sur la tournée
+  | { type: 'VEHICLE_BROKEN_DOWN'; vehicleId: string; incidentId: string }
+  | { type: 'VEHICLE_RESUMED'; vehicleId: string }
+  | { type: 'VEHICLE_RECALCULATION_RETRY'; vehicleId: string; incidentId: string } // Nouvel essai de recalcul de l'étape dû
+  | { type: 'VEHICLE_INCIDENT_LIFTED'; vehicleId: string; incidentId: string }     // Véhicule en attente : reprend sa tournée
+  | { type: 'TOUR_COMPLETED'; vehicleId: string }
+  | { type: 'INCIDENT_ACTIVATED'; incidentId: string }
+  | { type: 'INCIDENT_EXPIRED'; incidentId: string };
+
 export interface SimulationState {
   // Entités
   parcels: Map<string, SimulatedParcel>;
+  vehicles: Map<string, SimulatedVehicle>;
   incidents: Map<string, Incident>;
   hubs: GeoPointResponse[];
 
   // Contrôles
   isPlaying: boolean;
-  speed: number; // 1x, 2x, 5x, 10x
+  clock: SimulationClock;
+
+  // Journal du scénario (enregistrement + relecture)
+  journal: JournalEntry[];
+  journalOrigin: SimulationClock; // Horloge au début de l'enregistrement
+  replayCursor: number;           // Nombre d'entrées déjà appliquées
+  horizonTime: number;            // Temps simulé le plus avancé atteint
+
+  // Indicateurs échantillonnés en temps simulé
+  kpiSeries: KpiSample[];
 
   // Mode UI
   incidentPlacementMode: boolean;
   selectedIncidentType: IncidentType | null;
+  selectedIncidentShape: IncidentShape;
+  incidentSchedule: IncidentSchedule;
+  deliveryPolicy: DeliveryPolicy; // Appliquée aux colis créés ensuite
+  recalculationPolicy: RecalculationPolicy; // Appliquée aux colis créés ensuite
+  serviceLevels: ServiceLevelDurations;     // Délais des colis créés ensuite
+  trafficProfile: TrafficProfile;           // Congestion selon l'heure simulée
   selectedParcelId: string | null;
 }
 
+// Projection rendue par l'interface : le monde simulé et son journal restent dans le worker
+export interface SimulationView extends Omit<SimulationState, 'journal'> {
+  journalMarkers: JournalMarker[];   // Actions du journal, pour la chronologie
+  nextEvent: ScheduledEvent | null;  // Prochain événement (simulation à l'arrêt)
+}
+
+// ============================================================================
+// Geometry Types (WKT / EWKT)
+// ============================================================================
+
+// Coordonnée : x = longitude, y = latitude, altitude et mesure optionnelles
+export interface GeoCoordinate extends Position {
+  z?: number;
+  m?: number;
+}
+
+export type CoordinateDimension = 'XY' | 'XYZ' | 'XYM' | 'XYZM';
+
+export type Geometry =
+  | { type: 'Point'; coordinates: GeoCoordinate | null } // null : POINT EMPTY
+  | { type: 'LineString'; coordinates: GeoCoordinate[] }
+  | { type: 'Polygon'; coordinates: GeoCoordinate[][] }  // Anneau extérieur puis trous
+  | { type: 'MultiPoint'; coordinates: GeoCoordinate[] }
+  | { type: 'MultiLineString'; coordinates: GeoCoordinate[][] }
+  | { type: 'MultiPolygon'; coordinates: GeoCoordinate[][][] }
+  | { type: 'GeometryCollection'; geometries: Geometry[] };
+
+export type GeometryType = Geometry['type'];
+
+// Géométrie lue depuis du WKT ou de l'EWKT (PostGIS)
+export interface ParsedGeometry {
+  geometry: Geometry;
+  srid: number | null; // Préfixe "SRID=4326;" de l'EWKT, null en WKT simple
+  dimension: CoordinateDimension;
+}
+
+// GeoJSON (RFC 7946) : positions [longitude, latitude, altitude?]
+export type GeoJSONPosition = number[];
+
+export type GeoJSONGeometry =
+  | { type: 'Point'; coordinates: GeoJSONPosition }
+  | { type: 'LineString'; coordinates: GeoJSONPosition[] }
+  | { type: 'Polygon'; coordinates: GeoJSONPosition[][] }
+  | { type: 'MultiPoint'; coordinates: GeoJSONPosition[] }
+  | { type: 'MultiLineString'; coordinates: GeoJSONPosition[][] }
+  | { type: 'MultiPolygon'; coordinates: GeoJSONPosition[][][] }
+  | { type: 'GeometryCollection'; geometries: GeoJSONGeometry[] };
+
+export interface GeoJSONFeature {
+  type: 'Feature';
+  id?: string | number;
+  geometry: GeoJSONGeometry | null;
+  properties: Record<string, unknown> | null;
+}
+
+export interface GeoJSONFeatureCollection {
+  type: 'FeatureCollection';
+  features: GeoJSONFeature[];
+}
+
+// Couche d'un objet exporté (propriété "layer", pour filtrer dans QGIS)
+export type GeoJSONLayer = 'hub' | 'route' | 'incident' | 'trajectory';
+
+// ============================================================================
+// Simulation Actions & Journal
+// ============================================================================
+
+export type SimulationAction =
+  | { type: 'SET_HUBS'; payload: GeoPointResponse[] }
+  | { type: 'ADD_PARCEL'; payload: SimulatedParcel }
+  | { type: 'UPDATE_PARCEL'; payload: { id: string; updates: Partial<SimulatedParcel> } }
+  | { type: 'REROUTE_PARCEL'; payload: { id: string; route: RouteResponse; routePath: Position[]; incidentId?: string } }
+  | { type: 'RESTORE_ROUTE'; payload: { id: string; incidentId: string; route: RouteResponse; routePath: Position[] } }
+  | { type: 'RECORD_RECALCULATION'; payload: { id: string; incidentId: string; algorithm: string | null; error: string | null } }
+  | { type: 'REMOVE_PARCEL'; payload: string }
+  | { type: 'ADD_VEHICLE'; payload: SimulatedVehicle }
+  | { type: 'REROUTE_VEHICLE'; payload: { id: string; legPath: Position[] } }
+  | { type: 'RECORD_VEHICLE_RECALCULATION'; payload: { id: string; incidentId: string; algorithm: string | null; error: string | null } }
+  | { type: 'ADD_INCIDENT'; payload: Incident }
+  | { type: 'RESOLVE_INCIDENT'; payload: string }
+  | { type: 'PLAY' }
+  | { type: 'PAUSE' }
+  | { type: 'SET_SPEED'; payload: number }
+  | { type: 'TOGGLE_INCIDENT_MODE'; payload: { active: boolean; type: IncidentType | null } }
+  | { type: 'SET_INCIDENT_SHAPE'; payload: IncidentShape }
+  | { type: 'SET_INCIDENT_SCHEDULE'; payload: IncidentSchedule }
+  | { type: 'SET_DELIVERY_POLICY'; payload: DeliveryPolicy }
+  | { type: 'SET_RECALCULATION_POLICY'; payload: RecalculationPolicy }
+  | { type: 'SET_SERVICE_LEVELS'; payload: ServiceLevelDurations }
+  | { type: 'SET_TRAFFIC_PROFILE'; payload: TrafficProfile }
+  | { type: 'SELECT_PARCEL'; payload: string | null }
+  | { type: 'TICK'; payload: Pick<SimulationState, 'parcels' | 'vehicles' | 'incidents' | 'clock' | 'replayCursor' | 'trafficProfile'> }
+  | { type: 'LOAD_SNAPSHOT'; payload: Pick<SimulationState, 'parcels' | 'vehicles' | 'incidents' | 'clock' | 'replayCursor' | 'trafficProfile'> }
+  | { type: 'APPLY_FRAME'; payload: SimulationFrame };
+
+// Champs modifiés d'une entité (colis, véhicule) depuis la frame précédente
+export type EntityDelta<T extends { id: string }> = { id: string } & Partial<T>;
+export type ParcelDelta = EntityDelta<SimulatedParcel>;
+export type VehicleDelta = EntityDelta<SimulatedVehicle>;
+
+// Résultat d'une frame calculée par le worker de simulation
+export interface SimulationFrame {
+  clock: SimulationClock;
+  replayCursor: number;
+  horizonTime: number;
+  deltas: ParcelDelta[];      // Colis modifiés ou ajoutés
+  vehicleDeltas: VehicleDelta[];
+  removedParcelIds: string[];
+  removedVehicleIds: string[];
+  incidents: Map<string, Incident> | null;      // Envoyé seulement s'il a changé
+  journalMarkers: JournalMarker[] | null;       // Envoyé seulement si le journal a changé
+  nextEvent: ScheduledEvent | null;
+  events: SimulationEvent[];
+  kpiSamples: KpiSample[]; // Échantillons pris pendant la frame
+}
+
+export interface JournalEntry {
+  simTime: number; // Temps simulé (ms epoch) auquel l'action a été appliquée
+  action: SimulationAction;
+}
+
+// Entrée du journal vue par l'interface, sans le contenu de l'action
+export interface JournalMarker {
+  simTime: number;
+  type: SimulationAction['type'];
+}
+
 // ============================================================================
 // Form Types
 // ============================================================================
@@ -176,4 +599,17 @@ export interface SimulationStats {
   withIncidents: number;
   totalDistance: number;
   averageSpeed: number;
+  operatingCost: number; // Distance parcourue x coût au km du véhicule (FCFA)
+  slaComplianceRate: number | null; // Colis terminés livrés dans les délais (null : aucun engagement terminé)
+}
+
+// Indicateurs à un instant simulé
+export interface KpiSample {
+  time: number;              // Temps simulé (ms epoch)
+  inTransit: number;
+  delivered: number;
+  withIncidents: number;
+  averageSpeed: number;      // km/h effectifs des colis en transit (0 si aucun)
+  cumulativeKm: number;      // Distance parcourue depuis le début (colis seuls + tournées)
+  onTimeRate: number | null; // Part des colis livrés avant l'heure estimée (null : aucun livré)
 }
\ No newline at end of file
@@ -0,0 +1,69 @@
+/**
+ * Vehicle Catalogue
+ * Cruise speed, payload and operating cost of each vehicle type
+ */
+
+import { SimulatedParcel, SimulatedVehicle, VehicleProfile, VehicleType } from './type';
+
+export const VEHICLE_CATALOG: Record<VehicleType, VehicleProfile> = {
+  MOTO_TAXI: {
+    type: 'MOTO_TAXI',
+    label: 'Moto-taxi',
+    cruiseSpeedKmh: 45,
+    capacityKg: 30,
+    costPerKm: 100,
+  },
+  VAN: {
+    type: 'VAN',
+    label: 'Fourgonnette',
+    cruiseSpeedKmh: 45,
+    capacityKg: 800,
+    costPerKm: 250,
+  },
+  TRUCK: {
+    type: 'TRUCK',
+    label: 'Camion',
+    cruiseSpeedKmh: 40,
+    capacityKg: 5000,
+    costPerKm: 600,
+  },
+};
+
+// Véhicule des colis et livreurs sans type connu
+export const DEFAULT_VEHICLE_TYPE: VehicleType = 'TRUCK';
+
+/**
+ * Vehicle type of a driver, as sent by the backend (default when unknown)
+ */
+export function driverVehicleType(driver: { vehicleType?: string }): VehicleType {
+  return driver.vehicleType && Object.hasOwn(VEHICLE_CATALOG, driver.vehicleType)
+    ? driver.vehicleType as VehicleType
+    : DEFAULT_VEHICLE_TYPE;
+}
+
+/**
+ * True when the parcel is too heavy for the vehicle type
+ */
+export function exceedsCapacity(weightKg: number, vehicleType: VehicleType): boolean {
+  return weightKg > VEHICLE_CATALOG[vehicleType].capacityKg;
+}
+
+/**
+ * Operating cost of the distance driven so far. Parcels on a tour do not
+ * drive on their own: their vehicle's distance is counted instead.
+ */
+export function operatingCost(
+  parcels: Iterable<SimulatedParcel>,
+  vehicles: Iterable<SimulatedVehicle>
+): number {
+  let cost = 0;
+
+  for (const parcel of parcels) {
+    cost += parcel.odometerKm * VEHICLE_CATALOG[parcel.vehicleType].costPerKm;
+  }
+  for (const vehicle of vehicles) {
+    cost += vehicle.distanceTravelledKm * VEHICLE_CATALOG[vehicle.vehicleType].costPerKm;
+  }
+
+  return cost;
+}
@@ -0,0 +1,105 @@
+/**
+ * Stop sequencing of a tour: every pickup before its delivery, deliveries by
+ * nearest neighbour, and stops visited in that order as the vehicle drives
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Position, SimulatedVehicle, TourStop } from './type';
+import { advanceClock, createSimulationClock } from './simulation-clock';
+import {
+  PlannedStop,
+  TourParcel,
+  advanceVehicle,
+  createLoadingVehicle,
+  getTourParcels,
+  planTourStops,
+  startTour,
+} from './vehicle-tours';
+
+// Along one meridian, south to north
+const hubA: Position = { lat: 4.05, lng: 9.7 };
+const hubB: Position = { lat: 4.06, lng: 9.7 };
+const nearB: Position = { lat: 4.07, lng: 9.7 };
+const farNorth: Position = { lat: 4.1, lng: 9.7 };
+
+const parcels: TourParcel[] = [
+  { parcelId: 'p1', pickup: { hubId: 'A', position: hubA }, delivery: { hubId: 'C', position: farNorth } },
+  { parcelId: 'p2', pickup: { hubId: 'B', position: hubB }, delivery: { hubId: 'D', position: nearB } },
+];
+
+const clock = createSimulationClock({ currentTime: Date.UTC(2026, 0, 15, 7) });
+
+const sequence = (stops: Pick<TourStop, 'type' | 'parcelId'>[]) => stops.map(s => `${s.type} ${s.parcelId}`);
+
+// Straight legs between consecutive stops, empty when they share a hub
+function straightLegs(stops: PlannedStop[]) {
+  return stops.slice(1).map((stop, i) => ({
+    routeId: stops[i].hubId === stop.hubId ? null : `leg-${i}`,
+    path: stops[i].hubId === stop.hubId ? [] : [stops[i].position, stop.position],
+  }));
+}
+
+describe('planTourStops', () => {
+  it('picks everything up in loading order, then delivers the nearest first', () => {
+    assert.deepEqual(sequence(planTourStops(parcels)), [
+      'PICKUP p1',
+      'PICKUP p2',
+      'DELIVERY p2',
+      'DELIVERY p1',
+    ]);
+  });
+
+  it('gives back the parcels it was planned from', () => {
+    assert.deepEqual(getTourParcels(planTourStops(parcels)), parcels);
+  });
+});
+
+describe('startTour', () => {
+  it('places each stop on the joined path, in order', () => {
+    const stops = planTourStops(parcels);
+    const vehicle = startTour(createLoadingVehicle('v1', 'd1', 'Driver', hubA), stops, straightLegs(stops), clock);
+
+    assert.equal(vehicle.state, 'EN_ROUTE');
+    assert.deepEqual(vehicle.routePath, [hubA, hubB, nearB, farNorth]);
+    assert.deepEqual(vehicle.stops.map(s => s.pathIndex), [0, 1, 2, 3]);
+    assert.ok(vehicle.stops.every((s, i) => i === 0 || vehicle.stops[i - 1].distanceKm < s.distanceKm));
+  });
+
+  it('needs one leg between each pair of stops', () => {
+    const stops = planTourStops(parcels);
+    assert.throws(
+      () => startTour(createLoadingVehicle('v1', 'd1', 'Driver', hubA), stops, straightLegs(stops).slice(1), clock),
+      /Expected 3 legs, got 2/
+    );
+  });
+});
+
+describe('advanceVehicle', () => {
+  it('visits the stops in planned order and unloads what it picked up', () => {
+    const stops = planTourStops(parcels);
+    let vehicle: SimulatedVehicle = startTour(
+      createLoadingVehicle('v1', 'd1', 'Driver', hubA),
+      stops,
+      straightLegs(stops),
+      clock
+    );
+    let now = clock;
+    const visited: TourStop[] = [];
+    const loads: string[][] = [];
+
+    for (let minute = 0; minute < 60 && vehicle.state === 'EN_ROUTE'; minute++) {
+      now = advanceClock(now, 60 * 1000);
+      const result = advanceVehicle(vehicle, 60 * 1000, now);
+      vehicle = result.vehicle;
+      visited.push(...result.visited);
+      if (result.visited.length > 0) loads.push(vehicle.load);
+    }
+
+    assert.equal(vehicle.state, 'COMPLETED');
+    assert.deepEqual(sequence(visited), sequence(stops));
+    assert.ok(visited.every(s => s.visitedAt !== null));
+    assert.deepEqual(vehicle.load, []);
+    assert.ok(loads.some(load => load.length === 2), 'both parcels on board at once');
+  });
+});
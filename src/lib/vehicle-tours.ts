@@ -0,0 +1,396 @@
+/**
+ * Vehicle Tours
+ * A driver's vehicle follows one ordered list of pickup and delivery stops
+ * and carries several parcels at once
+ */
+
+import {
+  DeliveryPolicy,
+  ParcelResponse,
+  Position,
+  RecalculationPolicy,
+  RouteResponse,
+  SimulatedParcel,
+  SimulatedVehicle,
+  SimulationClock,
+  TourStop,
+  VehicleType,
+} from './type';
+import {
+  buildCumulativeDistances,
+  haversineDistance,
+  interpolateAtDistance,
+} from './wkt-parser';
+import { clockDate } from './simulation-clock';
+import { DEFAULT_DELIVERY_POLICY } from './delivery-attempts';
+import { DEFAULT_RECALCULATION_POLICY } from './recalculation-policy';
+import { DEFAULT_VEHICLE_TYPE, VEHICLE_CATALOG } from './vehicle-catalog';
+
+export interface TourLocation {
+  hubId: string;
+  position: Position;
+}
+
+export interface TourParcel {
+  parcelId: string;
+  pickup: TourLocation;
+  delivery: TourLocation;
+}
+
+// Arrêt planifié, avant le calcul du trajet
+export type PlannedStop = Pick<TourStop, 'parcelId' | 'type' | 'hubId' | 'position'>;
+
+// Tronçon entre deux arrêts consécutifs (path vide : même lieu)
+export interface TourLeg {
+  routeId: string | null;
+  path: Position[];
+}
+
+// ============================================================================
+// Planning
+// ============================================================================
+
+/**
+ * Order the stops of a tour: every pickup first, in loading order, then the
+ * deliveries by nearest neighbour from the last pickup
+ */
+export function planTourStops(parcels: TourParcel[]): PlannedStop[] {
+  const stops: PlannedStop[] = parcels.map(p => ({
+    parcelId: p.parcelId,
+    type: 'PICKUP',
+    ...p.pickup,
+  }));
+
+  const remaining = [...parcels];
+  let current = stops.length > 0 ? stops[stops.length - 1].position : null;
+
+  while (remaining.length > 0) {
+    let nearest = 0;
+    if (current) {
+      const from = current;
+      remaining.forEach((p, i) => {
+        if (haversineDistance(from, p.delivery.position) <
+            haversineDistance(from, remaining[nearest].delivery.position)) {
+          nearest = i;
+        }
+      });
+    }
+
+    const [next] = remaining.splice(nearest, 1);
+    stops.push({ parcelId: next.parcelId, type: 'DELIVERY', ...next.delivery });
+    current = next.delivery.position;
+  }
+
+  return stops;
+}
+
+/**
+ * Total weight (kg) of the parcels already planned on the vehicle's tour
+ */
+export function tourLoadKg(vehicle: SimulatedVehicle, parcels: Map<string, SimulatedParcel>): number {
+  return getTourParcels(vehicle.stops).reduce(
+    (sum, { parcelId }) => sum + (parcels.get(parcelId)?.parcelData.weightKg ?? 0),
+    0
+  );
+}
+
+/**
+ * Rebuild the tour parcels from the stops already planned for a vehicle
+ */
+export function getTourParcels(stops: PlannedStop[]): TourParcel[] {
+  return stops
+    .filter(stop => stop.type === 'PICKUP')
+    .flatMap(pickup => {
+      const delivery = stops.find(s => s.type === 'DELIVERY' && s.parcelId === pickup.parcelId);
+      if (!delivery) return [];
+
+      return [{
+        parcelId: pickup.parcelId,
+        pickup: { hubId: pickup.hubId, position: pickup.position },
+        delivery: { hubId: delivery.hubId, position: delivery.position },
+      }];
+    });
+}
+
+// ============================================================================
+// Construction
+// ============================================================================
+
+/**
+ * Create a vehicle waiting at the depot while its tour is composed
+ */
+export function createLoadingVehicle(
+  id: string,
+  driverId: string,
+  driverName: string,
+  position: Position,
+  vehicleType: VehicleType = DEFAULT_VEHICLE_TYPE,
+  recalculationPolicy: RecalculationPolicy = DEFAULT_RECALCULATION_POLICY
+): SimulatedVehicle {
+  return {
+    id,
+    driverId,
+    driverName,
+    vehicleType,
+    stops: [],
+    nextStopIndex: 0,
+    load: [],
+    routePath: [],
+    cumulativeDistances: [],
+    state: 'LOADING',
+    currentPosition: position,
+    distanceTravelledKm: 0,
+    pathIndex: 0,
+    startTime: null,
+    speed: VEHICLE_CATALOG[vehicleType].cruiseSpeedKmh,
+    speedFactor: 1,
+    immobilizedUntil: null,
+    affectedByIncidents: [],
+    recalculationPolicy,
+    recalculationAttempts: [],
+    pendingRecalculation: null,
+  };
+}
+
+/**
+ * Replace the planned stops of a loading vehicle (no path yet)
+ */
+export function setPlannedStops(
+  vehicle: SimulatedVehicle,
+  stops: PlannedStop[]
+): SimulatedVehicle {
+  return {
+    ...vehicle,
+    stops: stops.map(stop => ({
+      ...stop,
+      routeId: null,
+      pathIndex: 0,
+      distanceKm: 0,
+      visitedAt: null,
+    })),
+  };
+}
+
+/**
+ * Parcel carried by a tour: it waits at its pickup hub and is moved by its
+ * vehicle, never on its own route
+ */
+export function createTourParcel(
+  parcelData: ParcelResponse,
+  route: RouteResponse | null,
+  vehicle: SimulatedVehicle,
+  pickupPosition: Position,
+  deliveryPolicy: DeliveryPolicy = DEFAULT_DELIVERY_POLICY,
+  recalculationPolicy: RecalculationPolicy = DEFAULT_RECALCULATION_POLICY
+): SimulatedParcel {
+  return {
+    id: parcelData.id,
+    trackingCode: parcelData.trackingCode,
+    parcelData,
+    route,
+    routePath: [],
+    cumulativeDistances: [],
+    currentPosition: pickupPosition,
+    state: 'PLANNED',
+    progress: 0,
+    distanceTravelledKm: 0,
+    odometerKm: 0,
+    pathIndex: 0,
+    startTime: null,
+    estimatedArrival: null,
+    actualArrival: null,
+    vehicleType: vehicle.vehicleType,
+    speed: vehicle.speed,
+    speedFactor: 1,
+    immobilizedUntil: null,
+    onHold: false,
+    affectedByIncidents: [],
+    vehicleId: vehicle.id,
+    deliveryPolicy,
+    deliveryAttempts: 0,
+    nextAttemptAt: null,
+    returningToHub: false,
+    detour: null,
+    routeDecisions: [],
+    routeHistory: [],
+    recalculationPolicy,
+    recalculationAttempts: [],
+    pendingRecalculation: null,
+    serviceLevel: null,
+    deliveryDeadline: null,
+    slackMin: null,
+    slaBreached: false,
+    arrivalProjection: null,
+  };
+}
+
+/**
+ * Join the legs into the tour path and start the tour
+ *
+ * `legs[i]` leads from stop i to stop i + 1.
+ */
+export function startTour(
+  vehicle: SimulatedVehicle,
+  stops: PlannedStop[],
+  legs: TourLeg[],
+  clock: SimulationClock
+): SimulatedVehicle {
+  if (stops.length === 0) {
+    throw new Error('Cannot start a tour without stops');
+  }
+  if (legs.length !== stops.length - 1) {
+    throw new Error(`Expected ${stops.length - 1} legs, got ${legs.length}`);
+  }
+
+  const routePath: Position[] = [stops[0].position];
+  const pathIndexes = [0];
+  const routeIds: (string | null)[] = [null];
+
+  legs.forEach(leg => {
+    for (const point of leg.path) {
+      const last = routePath[routePath.length - 1];
+      if (point.lat !== last.lat || point.lng !== last.lng) {
+        routePath.push(point);
+      }
+    }
+    pathIndexes.push(routePath.length - 1);
+    routeIds.push(leg.routeId);
+  });
+
+  const cumulativeDistances = buildCumulativeDistances(routePath);
+
+  return {
+    ...vehicle,
+    stops: stops.map((stop, i) => ({
+      ...stop,
+      routeId: routeIds[i],
+      pathIndex: pathIndexes[i],
+      distanceKm: cumulativeDistances[pathIndexes[i]],
+      visitedAt: null,
+    })),
+    nextStopIndex: 0,
+    load: [],
+    routePath,
+    cumulativeDistances,
+    state: 'EN_ROUTE',
+    currentPosition: routePath[0],
+    distanceTravelledKm: 0,
+    pathIndex: 0,
+    startTime: clockDate(clock),
+  };
+}
+
+// ============================================================================
+// Movement
+// ============================================================================
+
+/**
+ * Move the vehicle along its tour and visit the stops it reaches
+ *
+ * @param deltaTimeMs - Simulated time elapsed since the last update
+ * @param clock - Clock at the end of the elapsed interval
+ */
+export function advanceVehicle(
+  vehicle: SimulatedVehicle,
+  deltaTimeMs: number,
+  clock: SimulationClock
+): { vehicle: SimulatedVehicle; visited: TourStop[] } {
+  if (vehicle.state !== 'EN_ROUTE') {
+    return { vehicle, visited: [] };
+  }
+
+  const hoursElapsed = deltaTimeMs / 1000 / 60 / 60;
+  const pathLengthKm = vehicle.cumulativeDistances[vehicle.cumulativeDistances.length - 1] ?? 0;
+  const distanceTravelledKm = Math.min(
+    vehicle.distanceTravelledKm + vehicle.speed * vehicle.speedFactor * hoursElapsed,
+    pathLengthKm
+  );
+
+  const { position, segmentIndex } = interpolateAtDistance(
+    vehicle.routePath,
+    vehicle.cumulativeDistances,
+    distanceTravelledKm
+  );
+
+  // Visit every stop passed during this tick
+  const stops = [...vehicle.stops];
+  const visited: TourStop[] = [];
+  let load = vehicle.load;
+  let nextStopIndex = vehicle.nextStopIndex;
+
+  while (nextStopIndex < stops.length && stops[nextStopIndex].distanceKm <= distanceTravelledKm) {
+    const stop = { ...stops[nextStopIndex], visitedAt: clockDate(clock) };
+    stops[nextStopIndex] = stop;
+    visited.push(stop);
+
+    load = stop.type === 'PICKUP'
+      ? [...load, stop.parcelId]
+      : load.filter(id => id !== stop.parcelId);
+    nextStopIndex++;
+  }
+
+  return {
+    vehicle: {
+      ...vehicle,
+      stops: visited.length > 0 ? stops : vehicle.stops,
+      nextStopIndex,
+      load,
+      currentPosition: position,
+      distanceTravelledKm,
+      pathIndex: segmentIndex,
+      state: nextStopIndex >= stops.length ? 'COMPLETED' : vehicle.state,
+    },
+    visited,
+  };
+}
+
+/**
+ * Progress (0-1) of a parcel between its pickup and delivery stops
+ */
+export function getTourParcelProgress(vehicle: SimulatedVehicle, parcelId: string): number {
+  const pickup = vehicle.stops.find(s => s.type === 'PICKUP' && s.parcelId === parcelId);
+  const delivery = vehicle.stops.find(s => s.type === 'DELIVERY' && s.parcelId === parcelId);
+  if (!pickup || !delivery) return 0;
+
+  const legKm = delivery.distanceKm - pickup.distanceKm;
+  if (legKm <= 0) return 1;
+
+  return Math.min(Math.max((vehicle.distanceTravelledKm - pickup.distanceKm) / legKm, 0), 1);
+}
+
+/**
+ * Replace the path to the next stop by a recalculated one
+ *
+ * The backend route starts at the current vehicle position and ends at the
+ * next stop; the rest of the tour is kept.
+ */
+export function rerouteVehicleLeg(
+  vehicle: SimulatedVehicle,
+  legPath: Position[]
+): SimulatedVehicle {
+  const nextStop = vehicle.stops[vehicle.nextStopIndex];
+  if (!nextStop || legPath.length === 0) return vehicle;
+
+  const prefix = [...vehicle.routePath.slice(0, vehicle.pathIndex + 1), vehicle.currentPosition];
+  const suffix = vehicle.routePath.slice(nextStop.pathIndex + 1);
+  const routePath = [...prefix, ...legPath, ...suffix];
+  const cumulativeDistances = buildCumulativeDistances(routePath);
+
+  // Index shift of the points after the next stop
+  const shift = prefix.length + legPath.length - (nextStop.pathIndex + 1);
+
+  return {
+    ...vehicle,
+    routePath,
+    cumulativeDistances,
+    stops: vehicle.stops.map((stop, i) => {
+      if (i < vehicle.nextStopIndex) return stop;
+
+      const pathIndex = stop.pathIndex + shift;
+      return { ...stop, pathIndex, distanceKm: cumulativeDistances[pathIndex] };
+    }),
+    distanceTravelledKm: cumulativeDistances[prefix.length - 1],
+    pathIndex: prefix.length - 1,
+    state: 'EN_ROUTE',
+  };
+}
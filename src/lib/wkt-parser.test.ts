@@ -0,0 +1,73 @@
+/**
+ * Geodesic point-to-segment distance against known reference values, and
+ * rejection of malformed WKT ordinates
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { WKTParseError, haversineDistance, lineBufferRing, parseWKT, pointToSegmentDistance } from './wkt-parser';
+
+const assertKm = (actual: number, expected: number, toleranceKm = 0.001) =>
+  assert.ok(Math.abs(actual - expected) <= toleranceKm, `expected ${expected} km, got ${actual} km`);
+
+describe('pointToSegmentDistance', () => {
+  it('matches the reference cross-track distance', () => {
+    // Cross-track example of Chris Veness (movable-type.co.uk): -307.5 m
+    const distance = pointToSegmentDistance(
+      { lat: 53.2611, lng: -0.7972 },
+      { lat: 53.3206, lng: -1.7297 },
+      { lat: 53.1887, lng: 0.1334 }
+    );
+    assertKm(distance, 0.3075, 0.0005);
+  });
+
+  it('measures one degree of latitude off an equatorial segment', () => {
+    const distance = pointToSegmentDistance({ lat: 1, lng: 5 }, { lat: 0, lng: 0 }, { lat: 0, lng: 10 });
+    assertKm(distance, 111.195);
+  });
+
+  it('falls back to the start when the projection lies before it', () => {
+    const point = { lat: 1, lng: -1 };
+    const start = { lat: 0, lng: 0 };
+    const distance = pointToSegmentDistance(point, start, { lat: 0, lng: 10 });
+    assertKm(distance, haversineDistance(point, start));
+    assertKm(distance, 157.2, 0.1);
+  });
+
+  it('falls back to the end when the projection lies past it', () => {
+    const point = { lat: 1, lng: 11 };
+    const end = { lat: 0, lng: 10 };
+    const distance = pointToSegmentDistance(point, { lat: 0, lng: 0 }, end);
+    assertKm(distance, haversineDistance(point, end));
+    assertKm(distance, 157.2, 0.1);
+  });
+
+  it('is the distance to the point for a zero-length segment', () => {
+    const start = { lat: 4.06, lng: 9.7 };
+    assertKm(pointToSegmentDistance({ lat: 5.06, lng: 9.7 }, start, start), 111.195);
+  });
+
+  it('puts the drawn buffer at the width the collision check uses', () => {
+    // East-west segment at 60°N, where degrees of longitude are half as long
+    const start = { lat: 60, lng: 10 };
+    const end = { lat: 60.05, lng: 10.3 };
+    for (const vertex of lineBufferRing(start, end, 50)) {
+      assertKm(pointToSegmentDistance(vertex, start, end), 0.05, 0.0001);
+    }
+  });
+});
+
+describe('parseWKT ordinates', () => {
+  it('reads ordinates separated by whitespace', () => {
+    assert.deepEqual(parseWKT('POINT(1.5 -2)').geometry, { type: 'Point', coordinates: { lat: -2, lng: 1.5 } });
+  });
+
+  for (const [wkt, position] of [['POINT(1.2.3)', 9], ['POINT(1-2)', 7], ['LINESTRING(1 2, 3 4x)', 19]] as const) {
+    it(`rejects ${wkt} at character ${position}`, () => {
+      assert.throws(
+        () => parseWKT(wkt),
+        (error: unknown) => error instanceof WKTParseError && error.position === position
+      );
+    });
+  }
+});
@@ -1,42 +1,420 @@
 /**
  * WKT (Well-Known Text) Parser
- * Converts WKT geometry strings to usable coordinate arrays
+ * Reads and writes WKT / EWKT geometries, and converts them to usable
+ * coordinate arrays
  */
 
-import { Position } from './type';
+import { CoordinateDimension, GeoCoordinate, Geometry, GeometryType, ParsedGeometry, Position } from './type';
+
+// ============================================================================
+// WKT / EWKT READER
+// ============================================================================
+
+const GEOMETRY_KEYWORDS: Record<string, GeometryType> = {
+  POINT: 'Point',
+  LINESTRING: 'LineString',
+  POLYGON: 'Polygon',
+  MULTIPOINT: 'MultiPoint',
+  MULTILINESTRING: 'MultiLineString',
+  MULTIPOLYGON: 'MultiPolygon',
+  GEOMETRYCOLLECTION: 'GeometryCollection',
+};
+
+// Suffixe de dimension : "POINT Z (...)" (ISO) ou "POINTZ(...)" / "POINTM(...)" (EWKT)
+const DIMENSION_TAGS: Record<string, CoordinateDimension> = {
+  Z: 'XYZ',
+  M: 'XYM',
+  ZM: 'XYZM',
+};
+
+const DIMENSION_SIZES: Record<CoordinateDimension, number> = {
+  XY: 2,
+  XYZ: 3,
+  XYM: 3,
+  XYZM: 4,
+};
+
+const NUMBER_PATTERN = /[-+]?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?/y;
+const WORD_PATTERN = /[A-Za-z]+/y;
+const SRID_PATTERN = /SRID\s*=\s*(\d+)\s*;/iy;
 
 /**
- * Parse WKT LINESTRING to array of positions
- * 
- * Input: "LINESTRING(11.502 3.848, 11.510 3.850, ...)"
- * Output: [{lat: 3.848, lng: 11.502}, {lat: 3.850, lng: 11.510}, ...]
- * 
- * Note: WKT format is "lng lat", but Leaflet expects [lat, lng]
+ * Malformed WKT; `position` is the 0-based character index where reading
+ * stopped
  */
-export function parseWKTLineString(wkt: string): Position[] {
-  try {
-    // Remove "LINESTRING(" prefix and ")" suffix
-    const coordsString = wkt
-      .replace(/^LINESTRING\s*\(/i, '')
-      .replace(/\)$/, '')
-      .trim();
+export class WKTParseError extends Error {
+  position: number;
+
+  constructor(message: string, input: string, position: number) {
+    const near = position < input.length
+      ? `near "${input.slice(position, position + 20)}"`
+      : 'at end of input';
+    super(`${message} at position ${position} (${near})`);
+    this.name = 'WKTParseError';
+    this.position = position;
+  }
+}
+
+interface WKTReader {
+  input: string;
+  pos: number;
+  dimension: CoordinateDimension | null; // Fixée par le premier tag ou la première coordonnée
+}
+
+function fail(reader: WKTReader, message: string, position = reader.pos): never {
+  throw new WKTParseError(message, reader.input, position);
+}
+
+function skipSpaces(reader: WKTReader) {
+  while (reader.pos < reader.input.length && /\s/.test(reader.input[reader.pos])) {
+    reader.pos++;
+  }
+}
+
+function match(reader: WKTReader, pattern: RegExp): RegExpExecArray | null {
+  skipSpaces(reader);
+  pattern.lastIndex = reader.pos;
+  const result = pattern.exec(reader.input);
+  if (result) reader.pos = pattern.lastIndex;
+  return result;
+}
+
+function consume(reader: WKTReader, char: string): boolean {
+  skipSpaces(reader);
+  if (reader.input[reader.pos] !== char) return false;
+  reader.pos++;
+  return true;
+}
+
+function expect(reader: WKTReader, char: string) {
+  if (!consume(reader, char)) fail(reader, `Expected '${char}'`);
+}
+
+function setDimension(reader: WKTReader, dimension: CoordinateDimension, position: number) {
+  if (reader.dimension && reader.dimension !== dimension) {
+    fail(reader, `Mixed coordinate dimensions (${reader.dimension} and ${dimension})`, position);
+  }
+  reader.dimension = dimension;
+}
+
+/**
+ * "x y", "x y z", "x y m" or "x y z m"; without a dimension tag, three
+ * ordinates mean Z (PostGIS convention)
+ */
+function readCoordinate(reader: WKTReader): GeoCoordinate {
+  skipSpaces(reader);
+  const start = reader.pos;
+  const ordinates: number[] = [];
+
+  let number = match(reader, NUMBER_PATTERN);
+  while (number) {
+    ordinates.push(parseFloat(number[0]));
+
+    // Ordinates are separated by whitespace: "1.2.3" or "1-2" are malformed
+    const next = reader.input[reader.pos];
+    if (next !== undefined && !/[\s,)]/.test(next)) {
+      fail(reader, `Unexpected '${next}' after ordinate, expected a space`);
+    }
+    number = match(reader, NUMBER_PATTERN);
+  }
+
+  if (ordinates.length < 2) fail(reader, 'Expected a coordinate', start);
+  if (ordinates.length > 4) fail(reader, 'Too many ordinates in coordinate', start);
+
+  if (!reader.dimension) {
+    setDimension(reader, ordinates.length === 2 ? 'XY' : ordinates.length === 3 ? 'XYZ' : 'XYZM', start);
+  }
+  const dimension = reader.dimension as CoordinateDimension;
+  if (ordinates.length !== DIMENSION_SIZES[dimension]) {
+    fail(reader, `Expected ${DIMENSION_SIZES[dimension]} ordinates (${dimension})`, start);
+  }
+
+  const [lng, lat, third, fourth] = ordinates;
+  const coordinate: GeoCoordinate = { lat, lng };
+  if (dimension === 'XYZ' || dimension === 'XYZM') coordinate.z = third;
+  if (dimension === 'XYM') coordinate.m = third;
+  if (dimension === 'XYZM') coordinate.m = fourth;
+  return coordinate;
+}
+
+/**
+ * Parenthesised, comma separated list of `readItem`
+ */
+function readList<T>(reader: WKTReader, readItem: () => T): T[] {
+  expect(reader, '(');
+  const items = [readItem()];
+  while (consume(reader, ',')) {
+    items.push(readItem());
+  }
+  expect(reader, ')');
+  return items;
+}
+
+function readLine(reader: WKTReader): GeoCoordinate[] {
+  const start = reader.pos;
+  const line = readList(reader, () => readCoordinate(reader));
+  if (line.length < 2) fail(reader, 'A line needs at least 2 points', start);
+  return line;
+}
+
+function readRing(reader: WKTReader): GeoCoordinate[] {
+  skipSpaces(reader);
+  const start = reader.pos;
+  const ring = readList(reader, () => readCoordinate(reader));
+  const first = ring[0];
+  const last = ring[ring.length - 1];
+
+  if (ring.length < 4) fail(reader, 'A polygon ring needs at least 4 points', start);
+  if (first.lat !== last.lat || first.lng !== last.lng) fail(reader, 'Polygon ring is not closed', start);
+  return ring;
+}
+
+function readPolygon(reader: WKTReader): GeoCoordinate[][] {
+  return readList(reader, () => readRing(reader));
+}
+
+// MULTIPOINT((1 2), (3 4)) ou MULTIPOINT(1 2, 3 4)
+function readMultiPointMember(reader: WKTReader): GeoCoordinate {
+  if (!consume(reader, '(')) return readCoordinate(reader);
+  const coordinate = readCoordinate(reader);
+  expect(reader, ')');
+  return coordinate;
+}
+
+/**
+ * Geometry keyword, optional dimension tag and EMPTY marker
+ */
+function readHeader(reader: WKTReader): { type: GeometryType; empty: boolean } {
+  skipSpaces(reader);
+  const start = reader.pos;
+  const word = match(reader, WORD_PATTERN)?.[0].toUpperCase();
+  if (!word) fail(reader, 'Expected a geometry type', start);
+
+  let type: GeometryType | undefined = GEOMETRY_KEYWORDS[word];
+  let tag: string | undefined;
+
+  if (!type) {
+    tag = Object.keys(DIMENSION_TAGS)
+      .sort((a, b) => b.length - a.length)
+      .find(t => word.endsWith(t) && GEOMETRY_KEYWORDS[word.slice(0, -t.length)]);
+    if (!tag) fail(reader, `Unknown geometry type "${word}"`, start);
+    type = GEOMETRY_KEYWORDS[word.slice(0, -tag.length)];
+  }
+
+  let empty = false;
+  const afterKeyword = reader.pos;
+  let next = match(reader, WORD_PATTERN)?.[0].toUpperCase();
+
+  if (!tag && next && DIMENSION_TAGS[next]) {
+    tag = next;
+    next = match(reader, WORD_PATTERN)?.[0].toUpperCase();
+  }
+  if (next === 'EMPTY') {
+    empty = true;
+  } else if (next) {
+    fail(reader, `Unexpected "${next}"`, afterKeyword);
+  }
+
+  if (tag) setDimension(reader, DIMENSION_TAGS[tag], start);
+  return { type, empty };
+}
+
+function readGeometry(reader: WKTReader): Geometry {
+  const { type, empty } = readHeader(reader);
+
+  switch (type) {
+    case 'Point': {
+      if (empty) return { type, coordinates: null };
+      expect(reader, '(');
+      const coordinates = readCoordinate(reader);
+      expect(reader, ')');
+      return { type, coordinates };
+    }
+    case 'LineString':
+      return { type, coordinates: empty ? [] : readLine(reader) };
+    case 'Polygon':
+      return { type, coordinates: empty ? [] : readPolygon(reader) };
+    case 'MultiPoint':
+      return { type, coordinates: empty ? [] : readList(reader, () => readMultiPointMember(reader)) };
+    case 'MultiLineString':
+      return { type, coordinates: empty ? [] : readList(reader, () => readLine(reader)) };
+    case 'MultiPolygon':
+      return { type, coordinates: empty ? [] : readList(reader, () => readPolygon(reader)) };
+    case 'GeometryCollection':
+      return { type, geometries: empty ? [] : readList(reader, () => readGeometry(reader)) };
+  }
+}
+
+/**
+ * Parse a WKT or EWKT string into a typed geometry
+ *
+ * Accepts every OGC geometry type, Z / M / ZM coordinates (ISO "POINT Z"
+ * or EWKT "POINTM" tags) and the PostGIS "SRID=4326;" prefix. Coordinates
+ * are read as "lng lat".
+ *
+ * @throws WKTParseError with the character position of the problem
+ */
+export function parseWKT(wkt: string): ParsedGeometry {
+  const reader: WKTReader = { input: wkt, pos: 0, dimension: null };
+
+  const srid = match(reader, SRID_PATTERN);
+  const geometry = readGeometry(reader);
+
+  skipSpaces(reader);
+  if (reader.pos < wkt.length) fail(reader, 'Unexpected characters after geometry');
+
+  return {
+    geometry,
+    srid: srid ? Number(srid[1]) : null,
+    dimension: reader.dimension ?? 'XY',
+  };
+}
+
+// ============================================================================
+// WKT / EWKT WRITER
+// ============================================================================
+
+/**
+ * Every coordinate of a geometry, in reading order
+ */
+export function geometryCoordinates(geometry: Geometry): GeoCoordinate[] {
+  switch (geometry.type) {
+    case 'Point':
+      return geometry.coordinates ? [geometry.coordinates] : [];
+    case 'LineString':
+    case 'MultiPoint':
+      return geometry.coordinates;
+    case 'Polygon':
+    case 'MultiLineString':
+      return geometry.coordinates.flat();
+    case 'MultiPolygon':
+      return geometry.coordinates.flat(2);
+    case 'GeometryCollection':
+      return geometry.geometries.flatMap(geometryCoordinates);
+  }
+}
+
+function formatCoordinate(coordinate: GeoCoordinate, dimension: CoordinateDimension): string {
+  const ordinates = [coordinate.lng, coordinate.lat];
+  if (dimension === 'XYZ' || dimension === 'XYZM') ordinates.push(coordinate.z ?? 0);
+  if (dimension === 'XYM' || dimension === 'XYZM') ordinates.push(coordinate.m ?? 0);
+  return ordinates.join(' ');
+}
+
+function formatGeometry(geometry: Geometry, dimension: CoordinateDimension): string {
+  const keyword = geometry.type.toUpperCase();
+  const tag = dimension === 'XY' ? '' : ` ${dimension.slice(2)}`;
+  const line = (coordinates: GeoCoordinate[]) =>
+    `(${coordinates.map(c => formatCoordinate(c, dimension)).join(', ')})`;
+  const polygon = (rings: GeoCoordinate[][]) => `(${rings.map(line).join(', ')})`;
+
+  let body: string;
+  switch (geometry.type) {
+    case 'Point':
+      body = geometry.coordinates ? line([geometry.coordinates]) : '';
+      break;
+    case 'LineString':
+      body = geometry.coordinates.length > 0 ? line(geometry.coordinates) : '';
+      break;
+    case 'Polygon':
+      body = geometry.coordinates.length > 0 ? polygon(geometry.coordinates) : '';
+      break;
+    case 'MultiPoint':
+      body = geometry.coordinates.length > 0
+        ? `(${geometry.coordinates.map(c => line([c])).join(', ')})`
+        : '';
+      break;
+    case 'MultiLineString':
+      body = geometry.coordinates.length > 0 ? polygon(geometry.coordinates) : '';
+      break;
+    case 'MultiPolygon':
+      body = geometry.coordinates.length > 0
+        ? `(${geometry.coordinates.map(polygon).join(', ')})`
+        : '';
+      break;
+    case 'GeometryCollection':
+      body = geometry.geometries.length > 0
+        ? `(${geometry.geometries.map(g => formatGeometry(g, dimension)).join(', ')})`
+        : '';
+      break;
+  }
 
-    // Split by comma to get individual points
-    const pointStrings = coordsString.split(',');
+  if (!body) return `${keyword}${tag} EMPTY`;
+  return tag ? `${keyword}${tag} ${body}` : `${keyword}${body}`;
+}
 
-    const positions: Position[] = pointStrings.map(pointStr => {
-      const [lngStr, latStr] = pointStr.trim().split(/\s+/);
-      const lng = parseFloat(lngStr);
-      const lat = parseFloat(latStr);
+/**
+ * Write a geometry as WKT, or as EWKT when an SRID is given
+ *
+ * Z and M ordinates are written (ISO "LINESTRING Z (...)" tags) when any
+ * coordinate carries them.
+ */
+export function stringifyWKT(geometry: Geometry, srid: number | null = null): string {
+  const coordinates = geometryCoordinates(geometry);
+  const hasZ = coordinates.some(c => c.z !== undefined);
+  const hasM = coordinates.some(c => c.m !== undefined);
+  const dimension: CoordinateDimension = hasZ ? (hasM ? 'XYZM' : 'XYZ') : (hasM ? 'XYM' : 'XY');
+
+  const wkt = formatGeometry(geometry, dimension);
+  return srid !== null ? `SRID=${srid};${wkt}` : wkt;
+}
 
-      if (isNaN(lat) || isNaN(lng)) {
-        throw new Error(`Invalid coordinates: ${pointStr}`);
-      }
+// ============================================================================
+// PATHS AND POINTS
+// ============================================================================
 
-      return { lat, lng };
-    });
+function toPosition(coordinate: GeoCoordinate): Position {
+  return { lat: coordinate.lat, lng: coordinate.lng };
+}
 
-    return positions;
+/**
+ * Single path through the lines of a geometry
+ *
+ * Parts of a MULTILINESTRING (a route split across the Wouri) are chained in
+ * order; a part starting where the previous one ended does not repeat the
+ * shared point.
+ */
+export function geometryToPath(geometry: Geometry): Position[] {
+  let parts: GeoCoordinate[][];
+  switch (geometry.type) {
+    case 'LineString':
+      parts = [geometry.coordinates];
+      break;
+    case 'MultiLineString':
+      parts = geometry.coordinates;
+      break;
+    case 'GeometryCollection':
+      return chainPaths(geometry.geometries.map(geometryToPath));
+    default:
+      throw new Error(`Expected a line geometry, got ${geometry.type}`);
+  }
+
+  return chainPaths(parts.map(part => part.map(toPosition)));
+}
+
+function chainPaths(parts: Position[][]): Position[] {
+  const path: Position[] = [];
+  for (const part of parts) {
+    const last = path[path.length - 1];
+    const first = part[0];
+    const joined = last && first && last.lat === first.lat && last.lng === first.lng;
+    path.push(...(joined ? part.slice(1) : part));
+  }
+  return path;
+}
+
+/**
+ * Parse a WKT / EWKT line geometry to array of positions
+ *
+ * Input: "LINESTRING(11.502 3.848, 11.510 3.850, ...)", also with an SRID
+ * prefix, Z / M ordinates or as a MULTILINESTRING
+ * Output: [{lat: 3.848, lng: 11.502}, {lat: 3.850, lng: 11.510}, ...]
+ *
+ * Note: WKT format is "lng lat", but Leaflet expects [lat, lng]
+ */
+export function parseWKTLineString(wkt: string): Position[] {
+  try {
+    return geometryToPath(parseWKT(wkt).geometry);
   } catch (error) {
     console.error('Error parsing WKT:', error);
     return [];
@@ -44,26 +422,17 @@ export function parseWKTLineString(wkt: string): Position[] {
 }
 
 /**
- * Parse WKT POINT to position
- * Input: "POINT(11.502 3.848)"
+ * Parse WKT / EWKT POINT to position
+ * Input: "POINT(11.502 3.848)" or "SRID=4326;POINT Z (11.502 3.848 12)"
  * Output: {lat: 3.848, lng: 11.502}
  */
 export function parseWKTPoint(wkt: string): Position | null {
   try {
-    const coordsString = wkt
-      .replace(/^POINT\s*\(/i, '')
-      .replace(/\)$/, '')
-      .trim();
-
-    const [lngStr, latStr] = coordsString.split(/\s+/);
-    const lng = parseFloat(lngStr);
-    const lat = parseFloat(latStr);
-
-    if (isNaN(lat) || isNaN(lng)) {
-      throw new Error(`Invalid coordinates: ${coordsString}`);
+    const { geometry } = parseWKT(wkt);
+    if (geometry.type !== 'Point' || !geometry.coordinates) {
+      throw new Error(`Expected a point, got ${geometry.type}`);
     }
-
-    return { lat, lng };
+    return toPosition(geometry.coordinates);
   } catch (error) {
     console.error('Error parsing WKT Point:', error);
     return null;
@@ -75,11 +444,7 @@ export function parseWKTPoint(wkt: string): Position | null {
  * Inverse operation for API requests
  */
 export function positionsToWKT(positions: Position[]): string {
-  const coords = positions
-    .map(pos => `${pos.lng} ${pos.lat}`)
-    .join(', ');
-  
-  return `LINESTRING(${coords})`;
+  return stringifyWKT({ type: 'LineString', coordinates: positions });
 }
 
 /**
@@ -100,12 +465,15 @@ export function calculatePathDistance(positions: Position[]): number {
   return totalDistance;
 }
 
+// Rayon terrestre moyen (km) de tous les calculs de distance
+const EARTH_RADIUS_KM = 6371;
+
 /**
  * Haversine formula to calculate distance between two points
  * Returns distance in kilometers
  */
 export function haversineDistance(pos1: Position, pos2: Position): number {
-  const R = 6371; // Earth's radius in km
+  const R = EARTH_RADIUS_KM;
   const dLat = toRad(pos2.lat - pos1.lat);
   const dLng = toRad(pos2.lng - pos1.lng);
 
@@ -120,6 +488,9 @@ export function haversineDistance(pos1: Position, pos2: Position): number {
   return R * c;
 }
 
+// Points par demi-cercle des contours de zone
+const RING_CAP_SEGMENTS = 8;
+
 /**
  * Convert degrees to radians
  */
@@ -127,6 +498,13 @@ function toRad(degrees: number): number {
   return degrees * (Math.PI / 180);
 }
 
+/**
+ * Convert radians to degrees
+ */
+function toDeg(radians: number): number {
+  return radians * (180 / Math.PI);
+}
+
 /**
  * Check if a position is within a circular area
  */
@@ -160,92 +538,244 @@ export function isWithinLineBuffer(
   return distance <= bufferKm;
 }
 
+/**
+ * Check if any part of segment A-B enters the buffer zone around a line segment
+ *
+ * Two segments are within the buffer when they cross, or when one of the
+ * four endpoints is within the buffer of the other segment.
+ */
+export function isSegmentWithinLineBuffer(
+  segmentStart: Position,
+  segmentEnd: Position,
+  lineStart: Position,
+  lineEnd: Position,
+  bufferKm: number
+): boolean {
+  return (
+    doSegmentsIntersect(segmentStart, segmentEnd, lineStart, lineEnd) ||
+    isWithinLineBuffer(segmentStart, lineStart, lineEnd, bufferKm) ||
+    isWithinLineBuffer(segmentEnd, lineStart, lineEnd, bufferKm) ||
+    isWithinLineBuffer(lineStart, segmentStart, segmentEnd, bufferKm) ||
+    isWithinLineBuffer(lineEnd, segmentStart, segmentEnd, bufferKm)
+  );
+}
+
+/**
+ * Orientation test on lat/lng treated as planar coordinates
+ * (sufficient at city scale)
+ */
+function doSegmentsIntersect(p1: Position, p2: Position, q1: Position, q2: Position): boolean {
+  const cross = (a: Position, b: Position, c: Position) =>
+    (b.lng - a.lng) * (c.lat - a.lat) - (b.lat - a.lat) * (c.lng - a.lng);
+
+  const d1 = cross(q1, q2, p1);
+  const d2 = cross(q1, q2, p2);
+  const d3 = cross(p1, p2, q1);
+  const d4 = cross(p1, p2, q2);
+
+  return d1 * d2 < 0 && d3 * d4 < 0;
+}
+
+/**
+ * Check if a point lies inside a polygon ring (even-odd rule)
+ * Lat/lng treated as planar coordinates, like `doSegmentsIntersect`
+ */
+export function isPointInPolygon(point: Position, ring: Position[]): boolean {
+  let inside = false;
+
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const a = ring[i];
+    const b = ring[j];
+    const crosses = (a.lat > point.lat) !== (b.lat > point.lat) &&
+      point.lng < ((b.lng - a.lng) * (point.lat - a.lat)) / (b.lat - a.lat) + a.lng;
+    if (crosses) inside = !inside;
+  }
+
+  return inside;
+}
+
+/**
+ * Check if any part of segment A-B lies inside a polygon ring: an endpoint
+ * inside, or the segment crossing one of its edges
+ */
+export function doesSegmentCrossPolygon(
+  segmentStart: Position,
+  segmentEnd: Position,
+  ring: Position[]
+): boolean {
+  if (isPointInPolygon(segmentStart, ring) || isPointInPolygon(segmentEnd, ring)) {
+    return true;
+  }
+
+  for (let i = 0; i < ring.length - 1; i++) {
+    if (doSegmentsIntersect(segmentStart, segmentEnd, ring[i], ring[i + 1])) return true;
+  }
+  return false;
+}
+
+/**
+ * Outline (counterclockwise closed ring) of the zone within `widthM` of the
+ * segment: two sides joined by half circles around its ends
+ *
+ * Vertices are geodesic offsets, the same distances `isWithinLineBuffer`
+ * measures.
+ */
+export function lineBufferRing(start: Position, end: Position, widthM: number): Position[] {
+  const startBearing = initialBearing(start, end);
+  const endBearing = initialBearing(end, start) + Math.PI;
+
+  // Right side of the segment, around the end, back along the left side, around the start
+  const ring: Position[] = [];
+  for (let i = 0; i <= RING_CAP_SEGMENTS; i++) {
+    ring.push(destinationPoint(end, endBearing + Math.PI / 2 - (Math.PI * i) / RING_CAP_SEGMENTS, widthM));
+  }
+  for (let i = 0; i <= RING_CAP_SEGMENTS; i++) {
+    ring.push(destinationPoint(start, startBearing - Math.PI / 2 - (Math.PI * i) / RING_CAP_SEGMENTS, widthM));
+  }
+  ring.push(ring[0]);
+
+  return ring;
+}
+
+/**
+ * Closed, counterclockwise ring approximating a circle
+ */
+export function circleRing(center: Position, radiusM: number): Position[] {
+  const ring: Position[] = [];
+  for (let i = 0; i < RING_CAP_SEGMENTS * 4; i++) {
+    ring.push(destinationPoint(center, -(Math.PI * i) / (RING_CAP_SEGMENTS * 2), radiusM));
+  }
+  ring.push(ring[0]);
+
+  return ring;
+}
+
+/**
+ * Position `distanceM` away from `origin` along the great circle leaving it
+ * at `bearing` (radians, clockwise from north)
+ */
+function destinationPoint(origin: Position, bearing: number, distanceM: number): Position {
+  const angle = distanceM / 1000 / EARTH_RADIUS_KM;
+  const lat1 = toRad(origin.lat);
+  const lat2 = Math.asin(
+    Math.sin(lat1) * Math.cos(angle) + Math.cos(lat1) * Math.sin(angle) * Math.cos(bearing)
+  );
+  const dLng = Math.atan2(
+    Math.sin(bearing) * Math.sin(angle) * Math.cos(lat1),
+    Math.cos(angle) - Math.sin(lat1) * Math.sin(lat2)
+  );
+
+  return {
+    lat: toDeg(lat2),
+    lng: toDeg(toRad(origin.lng) + dLng),
+  };
+}
+
+/**
+ * Initial bearing (radians, clockwise from north) of the great circle from
+ * `from` to `to`
+ */
+function initialBearing(from: Position, to: Position): number {
+  const lat1 = toRad(from.lat);
+  const lat2 = toRad(to.lat);
+  const dLng = toRad(to.lng - from.lng);
+
+  return Math.atan2(
+    Math.sin(dLng) * Math.cos(lat2),
+    Math.cos(lat1) * Math.sin(lat2) - Math.sin(lat1) * Math.cos(lat2) * Math.cos(dLng)
+  );
+}
+
 /**
  * Calculate the minimum distance from a point to a line segment
  * Returns distance in kilometers
+ *
+ * The segment is the great circle arc between its ends: the point is
+ * projected with the cross-track and along-track distances on the sphere of
+ * `haversineDistance`, so buffers have the same width whatever the latitude
+ * and the heading of the segment.
  */
-function pointToSegmentDistance(
+export function pointToSegmentDistance(
   point: Position,
   lineStart: Position,
   lineEnd: Position
 ): number {
-  // Vector from lineStart to lineEnd
-  const segmentLat = lineEnd.lat - lineStart.lat;
-  const segmentLng = lineEnd.lng - lineStart.lng;
-
-  // Vector from lineStart to point
-  const pointLat = point.lat - lineStart.lat;
-  const pointLng = point.lng - lineStart.lng;
-
-  // Calculate segment length squared (avoid sqrt for performance)
-  const segmentLengthSq = segmentLat * segmentLat + segmentLng * segmentLng;
+  const segmentAngle = haversineDistance(lineStart, lineEnd) / EARTH_RADIUS_KM;
+  const pointAngle = haversineDistance(lineStart, point) / EARTH_RADIUS_KM;
 
   // If segment is actually a point, return distance to that point
-  if (segmentLengthSq === 0) {
-    return haversineDistance(point, lineStart);
+  if (segmentAngle === 0 || pointAngle === 0) {
+    return pointAngle * EARTH_RADIUS_KM;
   }
 
-  // Calculate projection parameter t
-  // t represents where the projection of point falls on the line segment
-  // t = 0: at lineStart, t = 1: at lineEnd, 0 < t < 1: between them
-  const t = Math.max(0, Math.min(1,
-    (pointLat * segmentLat + pointLng * segmentLng) / segmentLengthSq
-  ));
-
-  // Calculate the closest point on the segment
-  const closestPoint: Position = {
-    lat: lineStart.lat + t * segmentLat,
-    lng: lineStart.lng + t * segmentLng
-  };
+  // Angle at lineStart between the segment and the point
+  const angle = initialBearing(lineStart, point) - initialBearing(lineStart, lineEnd);
+
+  // Angular distances across and along the segment's great circle
+  const crossTrack = Math.asin(Math.sin(pointAngle) * Math.sin(angle));
+  const alongTrack = Math.atan2(Math.sin(pointAngle) * Math.cos(angle), Math.cos(pointAngle));
+
+  // The projection falls before lineStart or past lineEnd: nearest end
+  if (alongTrack <= 0) return pointAngle * EARTH_RADIUS_KM;
+  if (alongTrack >= segmentAngle) return haversineDistance(point, lineEnd);
 
-  // Return distance from point to closest point on segment
-  return haversineDistance(point, closestPoint);
+  return Math.abs(crossTrack) * EARTH_RADIUS_KM;
 }
 
 /**
- * Interpolate position along a path based on progress (0-1)
+ * Build the cumulative distance index of a path
+ * Entry i is the distance in kilometers from the first point to point i
  */
-export function interpolateAlongPath(
+export function buildCumulativeDistances(path: Position[]): number[] {
+  if (path.length === 0) return [];
+
+  const distances: number[] = [0];
+  for (let i = 0; i < path.length - 1; i++) {
+    distances.push(distances[i] + haversineDistance(path[i], path[i + 1]));
+  }
+  return distances;
+}
+
+/**
+ * Interpolate position at `distanceKm` from the start of a path
+ * Binary search on the prebuilt cumulative distance index
+ */
+export function interpolateAtDistance(
   path: Position[],
-  progress: number
+  cumulativeDistances: number[],
+  distanceKm: number
 ): { position: Position; segmentIndex: number } {
   if (path.length === 0) {
     return { position: { lat: 0, lng: 0 }, segmentIndex: 0 };
   }
-  
-  if (path.length === 1 || progress <= 0) {
+
+  if (path.length === 1 || distanceKm <= 0) {
     return { position: path[0], segmentIndex: 0 };
   }
-  
-  if (progress >= 1) {
-    return { position: path[path.length - 1], segmentIndex: path.length - 2 };
-  }
 
-  // Calculate cumulative distances
-  const distances: number[] = [0];
-  for (let i = 0; i < path.length - 1; i++) {
-    const segmentDist = haversineDistance(path[i], path[i + 1]);
-    distances.push(distances[i] + segmentDist);
+  const totalDistance = cumulativeDistances[cumulativeDistances.length - 1];
+  if (distanceKm >= totalDistance) {
+    return { position: path[path.length - 1], segmentIndex: path.length - 2 };
   }
 
-  const totalDistance = distances[distances.length - 1];
-  const targetDistance = totalDistance * progress;
-
-  // Find the segment
-  let segmentIndex = 0;
-  for (let i = 0; i < distances.length - 1; i++) {
-    if (targetDistance >= distances[i] && targetDistance <= distances[i + 1]) {
-      segmentIndex = i;
-      break;
+  // Last point whose cumulative distance is <= distanceKm
+  let low = 0;
+  let high = cumulativeDistances.length - 2;
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if (cumulativeDistances[mid] <= distanceKm) {
+      low = mid;
+    } else {
+      high = mid - 1;
     }
   }
+  const segmentIndex = low;
 
   // Interpolate within the segment
-  const segmentStart = distances[segmentIndex];
-  const segmentEnd = distances[segmentIndex + 1];
-  const segmentLength = segmentEnd - segmentStart;
-  const segmentProgress = segmentLength > 0 
-    ? (targetDistance - segmentStart) / segmentLength 
+  const segmentStart = cumulativeDistances[segmentIndex];
+  const segmentLength = cumulativeDistances[segmentIndex + 1] - segmentStart;
+  const segmentProgress = segmentLength > 0
+    ? (distanceKm - segmentStart) / segmentLength
     : 0;
 
   const pos1 = path[segmentIndex];
@@ -257,4 +787,19 @@ export function interpolateAlongPath(
   };
 
   return { position, segmentIndex };
-}
\ No newline at end of file
+}
+
+/**
+ * Interpolate position along a path based on progress (0-1)
+ * Builds the distance index on each call: prefer `interpolateAtDistance`
+ * when interpolating the same path repeatedly
+ */
+export function interpolateAlongPath(
+  path: Position[],
+  progress: number
+): { position: Position; segmentIndex: number } {
+  const distances = buildCumulativeDistances(path);
+  const totalDistance = distances[distances.length - 1] ?? 0;
+
+  return interpolateAtDistance(path, distances, totalDistance * Math.min(Math.max(progress, 0), 1));
+}
@@ -0,0 +1,19 @@
+/**
+ * Simulation Worker Protocol
+ * Messages exchanged between useSimulation and the simulation worker
+ */
+
+import { SimulationAction, SimulationFrame } from '@/lib/type';
+import { SimulationSnapshot } from '@/lib/scenario-journal';
+
+// UI → worker
+export type WorkerCommand =
+  | { type: 'DISPATCH'; action: SimulationAction }
+  | { type: 'STEP' }
+  | { type: 'JUMP_TO_NEXT_EVENT' }
+  | { type: 'SEEK'; time: number };
+
+// Worker → UI
+export type WorkerMessage =
+  | { type: 'FRAME'; frame: SimulationFrame }
+  | { type: 'SNAPSHOT'; snapshot: SimulationSnapshot };
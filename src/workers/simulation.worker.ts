@@ -0,0 +1,117 @@
+/**
+ * Simulation Worker
+ * Owns the simulated world and its journal: runs the engine tick off the
+ * main thread and posts parcel and vehicle deltas to the UI
+ */
+
+import { KpiSample, SimulationEvent, SimulationState } from '@/lib/type';
+import { ticksForFrame } from '@/lib/simulation-clock';
+import {
+  simulationReducer,
+  applySimulationAction,
+  createInitialSimulationState,
+} from '@/lib/simulation-reducer';
+import { advanceSimulation, replayJournal } from '@/lib/scenario-journal';
+import { computeDeltas, removedIds } from '@/lib/entity-deltas';
+import { nextScheduledEvent, ticksUntil } from '@/lib/event-scheduler';
+import { toJournalMarker } from '@/lib/simulation-view';
+import { WorkerCommand, WorkerMessage } from './simulation-protocol';
+
+const FRAME_INTERVAL_MS = 16; // ~60 FPS
+
+// Typed view of the dedicated worker global scope
+const ctx = self as unknown as Worker;
+
+let state: SimulationState = createInitialSimulationState();
+let lastUpdate = Date.now();
+let carryMs = 0;
+
+function post(message: WorkerMessage) {
+  ctx.postMessage(message);
+}
+
+/**
+ * Post what changed since `previous` for the view to apply
+ */
+function postFrame(previous: SimulationState, events: SimulationEvent[] = [], kpiSamples: KpiSample[] = []) {
+  post({
+    type: 'FRAME',
+    frame: {
+      clock: state.clock,
+      replayCursor: state.replayCursor,
+      horizonTime: state.horizonTime,
+      deltas: computeDeltas(previous.parcels, state.parcels),
+      vehicleDeltas: computeDeltas(previous.vehicles, state.vehicles),
+      removedParcelIds: removedIds(previous.parcels, state.parcels),
+      removedVehicleIds: removedIds(previous.vehicles, state.vehicles),
+      incidents: state.incidents !== previous.incidents ? state.incidents : null,
+      journalMarkers: state.journal !== previous.journal ? state.journal.map(toJournalMarker) : null,
+      // Estimating arrivals walks every route: only while paused, when it can be jumped to
+      nextEvent: state.isPlaying ? null : nextScheduledEvent(state),
+      events,
+      kpiSamples,
+    },
+  });
+}
+
+/**
+ * Run `count` ticks and post the resulting frame
+ */
+function advance(count: number, stopOnEvent = false) {
+  const { snapshot, events, samples } = advanceSimulation(state, count, stopOnEvent);
+  const previous = state;
+  state = applySimulationAction(state, { type: 'TICK', payload: snapshot });
+  postFrame(previous, events, samples);
+}
+
+setInterval(() => {
+  const now = Date.now();
+  const realDeltaMs = now - lastUpdate;
+  lastUpdate = now;
+
+  if (!state.isPlaying) return;
+
+  const frame = ticksForFrame(state.clock, realDeltaMs, carryMs);
+  carryMs = frame.carryMs;
+  if (frame.ticks > 0) {
+    advance(frame.ticks);
+  }
+}, FRAME_INTERVAL_MS);
+
+ctx.onmessage = (e: MessageEvent<WorkerCommand>) => {
+  const command = e.data;
+
+  switch (command.type) {
+    case 'DISPATCH': {
+      if (command.action.type === 'PLAY' && !state.isPlaying) {
+        lastUpdate = Date.now();
+        carryMs = 0;
+      }
+      const previous = state;
+      state = simulationReducer(state, command.action);
+      postFrame(previous);
+      break;
+    }
+
+    case 'STEP':
+      if (!state.isPlaying) advance(1);
+      break;
+
+    // Skip the quiet stretch up to the next scheduled event, or to the first
+    // engine event met on the way
+    case 'JUMP_TO_NEXT_EVENT': {
+      if (state.isPlaying) break;
+      const next = nextScheduledEvent(state);
+      if (next) advance(ticksUntil(state, next), true);
+      break;
+    }
+
+    case 'SEEK': {
+      const snapshot = replayJournal(state, command.time);
+      state = applySimulationAction(state, { type: 'LOAD_SNAPSHOT', payload: snapshot });
+      post({ type: 'SNAPSHOT', snapshot });
+      postFrame(state);
+      break;
+    }
+  }
+};